@@ -1,3 +1,4 @@
+import { useEffect } from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { Layout } from './components/Layout'
 import { ErrorBoundary } from './components/ErrorBoundary'
@@ -8,9 +9,34 @@ import { AkasdaoPage } from './pages/AkasdaoPage'
 import { AkasdaoDemandPage } from './pages/AkasdaoDemandPage'
 import { RpcOptimizerPage } from './pages/RpcOptimizerPage'
 import { DataPage } from './pages/DataPage'
+import { AddressBookPage } from './pages/AddressBookPage'
+import { ApprovalsPage } from './pages/ApprovalsPage'
+import { GasAnalyticsPage } from './pages/GasAnalyticsPage'
+import { blockchainService } from './utils/blockchain'
+import { transactionTracker } from './utils/transactionTracker'
+import { feeEscalator } from './utils/feeEscalation'
+import { congestionTracker } from './utils/congestionTracker'
 import './index.css'
 
 function App() {
+  // 后台跟踪所有已广播交易的确认状态，不依赖具体页面
+  useEffect(() => {
+    transactionTracker.start(blockchainService.getProvider())
+    return () => transactionTracker.stop()
+  }, [])
+
+  // 卡单自动加价同样在后台运行，离开发送页面后仍会继续加价
+  useEffect(() => {
+    feeEscalator.start(blockchainService.getProvider())
+    return () => feeEscalator.stop()
+  }, [])
+
+  // 网络拥堵跟踪为状态栏和Gas策略推荐提供多区块的基础费用趋势
+  useEffect(() => {
+    congestionTracker.start(blockchainService.getProvider())
+    return () => congestionTracker.stop()
+  }, [])
+
   return (
     <ErrorBoundary>
       <Router>
@@ -23,6 +49,9 @@ function App() {
             <Route path="/akasdao-demand" element={<AkasdaoDemandPage />} />
             <Route path="/rpc-optimizer" element={<RpcOptimizerPage />} />
             <Route path="/data" element={<DataPage />} />
+            <Route path="/address-book" element={<AddressBookPage />} />
+            <Route path="/approvals" element={<ApprovalsPage />} />
+            <Route path="/gas-analytics" element={<GasAnalyticsPage />} />
             <Route path="/" element={<Navigate to="/config" replace />} />
           </Routes>
         </Layout>
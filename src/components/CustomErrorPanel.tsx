@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import { FileCode, Plus, Trash2 } from 'lucide-react'
+import { useWalletStore, RevertContract } from '../store/useWalletStore'
+import {
+  revertRegistry,
+  normalizeErrorSignature,
+  getErrorSelector,
+  REVERT_CONTRACT_LABELS
+} from '../utils/revertRegistry'
+
+const CONTRACT_OPTIONS = Object.keys(REVERT_CONTRACT_LABELS) as RevertContract[]
+
+// 合约错误签名 - 管理用于解码AkasaDAO合约回滚数据的自定义错误
+export function CustomErrorPanel() {
+  const { customErrors, addCustomError, removeCustomError, addLog } = useWalletStore()
+  const [contract, setContract] = useState<RevertContract>('turbine')
+  const [input, setInput] = useState('')
+  const [inputError, setInputError] = useState<string | null>(null)
+  const [showBuiltin, setShowBuiltin] = useState(false)
+
+  // 每行一个签名，全部有效才添加
+  const handleAdd = () => {
+    const lines = input.split('\n').map(line => line.trim()).filter(Boolean)
+    if (lines.length === 0) return
+
+    try {
+      const signatures = lines.map(normalizeErrorSignature)
+      signatures.forEach(signature => addCustomError({ signature, contract, addedAt: new Date() }))
+      addLog({
+        level: 'info',
+        category: 'contract',
+        message: `已添加 ${signatures.length} 个自定义错误签名`,
+        details: `${REVERT_CONTRACT_LABELS[contract]}: ${signatures.join('; ')}`
+      })
+      setInput('')
+      setInputError(null)
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : '无效的错误签名')
+    }
+  }
+
+  const builtinFragments = contract === 'all' ? [] : revertRegistry.getBuiltinFragments(contract)
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mt-8">
+      <div className="flex items-center gap-3 mb-4">
+        <FileCode className="w-6 h-6 text-purple-400" />
+        <h2 className="text-xl font-bold text-white">合约错误签名</h2>
+      </div>
+
+      <p className="text-gray-300 text-sm mb-4">
+        交易回滚时按这些签名解码自定义错误及其参数，结果显示在日志和历史记录中。
+        可从合约源码或区块浏览器复制，每行一个，例如 error InsufficientShares(uint256 requested, uint256 available)
+      </p>
+
+      <div className="space-y-3">
+        <select
+          value={contract}
+          onChange={(e) => setContract(e.target.value as RevertContract)}
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          {CONTRACT_OPTIONS.map(option => (
+            <option key={option} value={option}>{REVERT_CONTRACT_LABELS[option]}</option>
+          ))}
+        </select>
+
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={3}
+          placeholder="error DeadlineExpired(uint256 deadline)"
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+
+        {inputError && <p className="text-sm text-red-400">{inputError}</p>}
+
+        <button
+          onClick={handleAdd}
+          disabled={!input.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          添加签名
+        </button>
+      </div>
+
+      {customErrors.length > 0 && (
+        <div className="mt-4 divide-y divide-gray-700 border border-gray-700 rounded-md">
+          {customErrors.map(entry => (
+            <div key={`${entry.contract}:${entry.signature}`} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-mono text-white truncate">{entry.signature}</p>
+                <p className="text-xs text-gray-400">
+                  {REVERT_CONTRACT_LABELS[entry.contract]} · 选择器 {getErrorSelector(entry.signature)}
+                </p>
+              </div>
+              <button
+                onClick={() => removeCustomError(entry.signature, entry.contract)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="删除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {builtinFragments.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowBuiltin(!showBuiltin)}
+            className="text-xs text-gray-400 hover:text-gray-200"
+          >
+            {showBuiltin ? '隐藏' : '查看'}{REVERT_CONTRACT_LABELS[contract]}内置错误（{builtinFragments.length}）
+          </button>
+          {showBuiltin && (
+            <ul className="mt-2 space-y-1 text-xs font-mono text-gray-400">
+              {builtinFragments.map(fragment => <li key={fragment}>{fragment}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
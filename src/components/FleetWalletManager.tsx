@@ -0,0 +1,327 @@
+import { useState } from 'react'
+import { Wallet, Trash2, Plus } from 'lucide-react'
+import { ethers } from 'ethers'
+import { useWalletStore, FleetWallet } from '../store/useWalletStore'
+import { rescueFleet } from '../utils/rescueFleet'
+import { confirmDestination } from '../utils/addressBook'
+import {
+  storeFleetPrivateKey,
+  clearFleetPrivateKey,
+  validatePrivateKey,
+  validateAddress,
+  formatPrivateKey
+} from '../utils/encryption'
+
+type FleetWalletForm = Omit<FleetWallet, 'id' | 'address' | 'enabled'> & { privateKey: string }
+
+const initialForm: FleetWalletForm = {
+  label: '',
+  privateKey: '',
+  targetAddress: '',
+  transferType: 'native',
+  tokenAddress: '',
+  minTransferAmount: '0.001',
+  gasStrategy: 'fast',
+  gasMultiplier: 1,
+  rescueMode: false,
+  rescueGasMultiplier: 3,
+  multiAssetSweep: false,
+  preciseSweep: false,
+  presignedSweep: false,
+  mempoolGuard: false
+}
+
+const POLICY_OPTIONS: { key: 'multiAssetSweep' | 'preciseSweep' | 'presignedSweep' | 'mempoolGuard'; label: string }[] = [
+  { key: 'multiAssetSweep', label: '多资产转移' },
+  { key: 'preciseSweep', label: '精确清零' },
+  { key: 'presignedSweep', label: '预签名阶梯' },
+  { key: 'mempoolGuard', label: '内存池防护' }
+]
+
+// 多钱包管理 - 每个钱包独立的私钥、目标地址、转账类型和Gas策略
+export function FleetWalletManager() {
+  const {
+    fleetWallets,
+    addFleetWallet,
+    updateFleetWallet,
+    removeFleetWallet,
+    addAddressBookEntry,
+    setError,
+    addLog
+  } = useWalletStore()
+  const [form, setForm] = useState<FleetWalletForm>(initialForm)
+
+  const updateForm = (updates: Partial<FleetWalletForm>) => {
+    setForm(prev => ({ ...prev, ...updates }))
+  }
+
+  const handleAddWallet = () => {
+    if (!validatePrivateKey(form.privateKey)) {
+      setError('私钥格式无效')
+      return
+    }
+
+    if (!validateAddress(form.targetAddress)) {
+      setError('目标地址格式无效')
+      return
+    }
+
+    if (form.transferType === 'token' && !validateAddress(form.tokenAddress || '')) {
+      setError('代币合约地址格式无效')
+      return
+    }
+
+    if (!(parseFloat(form.minTransferAmount) > 0)) {
+      setError('最小转账金额必须大于0')
+      return
+    }
+
+    const address = new ethers.Wallet(formatPrivateKey(form.privateKey)).address
+    if (fleetWallets.some(wallet => wallet.address.toLowerCase() === address.toLowerCase())) {
+      setError('该钱包已在监控列表中')
+      return
+    }
+
+    if (address.toLowerCase() === form.targetAddress.toLowerCase()) {
+      setError('目标地址不能与钱包地址相同')
+      return
+    }
+
+    if (!confirmDestination(form.targetAddress, `${form.label.trim() || '监控钱包'}的目标地址`, addAddressBookEntry)) {
+      setError('目标地址未确认')
+      return
+    }
+
+    const id = Date.now().toString()
+    const { privateKey, ...settings } = form
+
+    try {
+      storeFleetPrivateKey(id, privateKey)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '监控钱包私钥存储失败')
+      return
+    }
+
+    addFleetWallet({
+      ...settings,
+      id,
+      address,
+      label: form.label.trim() || `钱包 ${fleetWallets.length + 1}`,
+      tokenAddress: form.transferType === 'token' ? form.tokenAddress : undefined,
+      enabled: true
+    })
+    setForm(initialForm)
+    setError(null)
+  }
+
+  const handleRemoveWallet = (wallet: FleetWallet) => {
+    rescueFleet.stopWallet(wallet.id)
+    clearFleetPrivateKey(wallet.id)
+    removeFleetWallet(wallet.id)
+  }
+
+  const handleToggleWallet = (wallet: FleetWallet) => {
+    if (wallet.enabled) {
+      rescueFleet.stopWallet(wallet.id)
+    }
+    updateFleetWallet(wallet.id, { enabled: !wallet.enabled })
+    addLog({
+      level: 'info',
+      category: 'monitoring',
+      message: `${wallet.enabled ? '已禁用' : '已启用'}监控钱包: ${wallet.label}`,
+      details: wallet.enabled ? undefined : '重新开始多钱包监控后生效'
+    })
+  }
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <Wallet className="w-6 h-6 text-purple-600" />
+        <h2 className="text-xl font-semibold text-gray-900">多钱包监控</h2>
+      </div>
+
+      {fleetWallets.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {fleetWallets.map(wallet => (
+            <div key={wallet.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-md">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{wallet.label}</p>
+                <p className="text-xs text-gray-500 font-mono">{wallet.address}</p>
+                <p className="text-xs text-gray-500">
+                  → {wallet.targetAddress.slice(0, 8)}...{wallet.targetAddress.slice(-6)} ·{' '}
+                  {wallet.transferType === 'token' ? '代币' : 'MATIC'} · 最小 {wallet.minTransferAmount} ·{' '}
+                  {wallet.rescueMode ? `抢救模式 ${wallet.rescueGasMultiplier}倍Gas` : `Gas策略 ${wallet.gasStrategy}`}
+                  {POLICY_OPTIONS.filter(option => wallet[option.key]).map(option => ` · ${option.label}`).join('')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={wallet.enabled}
+                    onChange={() => handleToggleWallet(wallet)}
+                    className="w-4 h-4"
+                  />
+                  启用
+                </label>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveWallet(wallet)}
+                  className="p-1 text-red-500 hover:text-red-700"
+                  title="移除钱包"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">名称</label>
+          <input
+            type="text"
+            value={form.label}
+            onChange={(e) => updateForm({ label: e.target.value })}
+            placeholder={`钱包 ${fleetWallets.length + 1}`}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">私钥</label>
+          <input
+            type="password"
+            value={form.privateKey}
+            onChange={(e) => updateForm({ privateKey: e.target.value })}
+            placeholder="被盗钱包私钥"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">目标地址</label>
+          <input
+            type="text"
+            value={form.targetAddress}
+            onChange={(e) => updateForm({ targetAddress: e.target.value })}
+            placeholder="安全钱包地址"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">转账类型</label>
+          <div className="flex gap-2">
+            <select
+              value={form.transferType}
+              onChange={(e) => updateForm({ transferType: e.target.value as 'native' | 'token' })}
+              className={`${inputClass} w-32`}
+            >
+              <option value="native">MATIC</option>
+              <option value="token">代币</option>
+            </select>
+            {form.transferType === 'token' && (
+              <input
+                type="text"
+                value={form.tokenAddress}
+                onChange={(e) => updateForm({ tokenAddress: e.target.value })}
+                placeholder="代币合约地址"
+                className={inputClass}
+              />
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">最小转账金额</label>
+          <input
+            type="number"
+            value={form.minTransferAmount}
+            onChange={(e) => updateForm({ minTransferAmount: e.target.value })}
+            min="0"
+            step="0.001"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Gas策略</label>
+          <div className="flex gap-2">
+            <select
+              value={form.gasStrategy}
+              onChange={(e) => updateForm({ gasStrategy: e.target.value as FleetWallet['gasStrategy'] })}
+              className={inputClass}
+            >
+              <option value="fast">快速</option>
+              <option value="standard">标准</option>
+              <option value="safe">安全</option>
+              <option value="custom">自定义</option>
+            </select>
+            {form.gasStrategy === 'custom' && (
+              <input
+                type="number"
+                value={form.gasMultiplier}
+                onChange={(e) => updateForm({ gasMultiplier: parseFloat(e.target.value) || 1 })}
+                min="1"
+                max="10"
+                step="0.5"
+                className={`${inputClass} w-24`}
+              />
+            )}
+          </div>
+        </div>
+        <div className="md:col-span-2 flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-red-700">
+            <input
+              type="checkbox"
+              checked={form.rescueMode}
+              onChange={(e) => updateForm({ rescueMode: e.target.checked })}
+              className="w-4 h-4"
+            />
+            🚨 疯狂抢救模式
+          </label>
+          {form.rescueMode && (
+            <label className="flex items-center gap-2 text-xs text-red-700">
+              Gas倍数
+              <input
+                type="number"
+                value={form.rescueGasMultiplier}
+                onChange={(e) => updateForm({ rescueGasMultiplier: parseFloat(e.target.value) || 3 })}
+                min="1"
+                max="10"
+                step="0.5"
+                className="w-20 px-2 py-1 text-sm border border-red-300 rounded"
+              />
+            </label>
+          )}
+        </div>
+        <div className="md:col-span-2 flex flex-wrap items-center gap-4">
+          {POLICY_OPTIONS.map(option => (
+            <label key={option.key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form[option.key] || false}
+                onChange={(e) => updateForm({ [option.key]: e.target.checked })}
+                className="w-4 h-4"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleAddWallet}
+        disabled={!form.privateKey.trim() || !form.targetAddress.trim()}
+        className="mt-4 flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="w-4 h-4" />
+        添加钱包
+      </button>
+      <p className="text-xs text-gray-500 mt-2">
+        私钥按钱包分别加密保存在本地。多钱包监控共用RPC连接，转移和防护策略按钱包单独设置；Gas上限、检查间隔和Gas赞助沿用上方全局配置，分账路由和AkasaDAO不参与多钱包监控。
+      </p>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { ReactNode } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { Settings, Activity, FileText, TrendingUp, Server, Database, DollarSign } from 'lucide-react'
+import { Settings, Activity, FileText, TrendingUp, Server, Database, DollarSign, BookOpen, ShieldAlert, Fuel } from 'lucide-react'
 
 interface LayoutProps {
   children: ReactNode
@@ -15,6 +15,9 @@ export function Layout({ children }: LayoutProps) {
     { path: '/akasdao', label: 'Silence协议', icon: TrendingUp },
     { path: '/akasdao-demand', label: '活期质押', icon: DollarSign },
     { path: '/rpc-optimizer', label: 'RPC优化', icon: Server },
+    { path: '/address-book', label: '地址簿', icon: BookOpen },
+    { path: '/approvals', label: '授权管理', icon: ShieldAlert },
+    { path: '/gas-analytics', label: 'Gas分析', icon: Fuel },
     { path: '/data', label: '数据管理', icon: Database },
     { path: '/logs', label: '日志', icon: FileText },
   ]
@@ -0,0 +1,230 @@
+import { useState } from 'react'
+import { ethers } from 'ethers'
+import { Image, RefreshCw, Send } from 'lucide-react'
+import { useWalletStore } from '../store/useWalletStore'
+import { blockchainService, BlockchainService } from '../utils/blockchain'
+import { resolveGasPolicy } from '../utils/rescueEngine'
+import { discoverNftHoldings, getNftKey, NftHolding, DEFAULT_NFT_SCAN_BLOCKS } from '../utils/nft'
+
+interface NftRescuePanelProps {
+  getPrivateKey: () => string | null
+}
+
+// NFT抢救 - 扫描主钱包持有的ERC-721/ERC-1155，单个或批量转移到目标地址
+export function NftRescuePanel({ getPrivateKey }: NftRescuePanelProps) {
+  const { config, walletStatus, addTransferRecord, addLog } = useWalletStore()
+  const [holdings, setHoldings] = useState<NftHolding[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [scanBlocks, setScanBlocks] = useState(DEFAULT_NFT_SCAN_BLOCKS)
+  const [scanProgress, setScanProgress] = useState<string | null>(null)
+  const [batchMode, setBatchMode] = useState(true)
+  const [isScanning, setIsScanning] = useState(false)
+  const [isTransferring, setIsTransferring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const address = walletStatus?.address
+
+  const handleScan = async () => {
+    if (!address) return
+
+    try {
+      setIsScanning(true)
+      setError(null)
+      const found = await discoverNftHoldings(blockchainService.getProvider(), address, {
+        blocks: scanBlocks,
+        onProgress: (scanned, total) => setScanProgress(`已扫描 ${scanned}/${total} 个区块`)
+      })
+      setHoldings(found)
+      setSelected(new Set(found.map(getNftKey)))
+      addLog({
+        level: 'info',
+        category: 'transfer',
+        message: 'NFT扫描完成',
+        details: `最近 ${scanBlocks} 个区块，发现 ${found.length} 个仍持有的NFT`
+      })
+    } catch (scanError) {
+      setError(scanError instanceof Error ? scanError.message : 'NFT扫描失败')
+    } finally {
+      setIsScanning(false)
+      setScanProgress(null)
+    }
+  }
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleTransfer = async (targets: NftHolding[]) => {
+    if (targets.length === 0) return
+
+    try {
+      setIsTransferring(true)
+      setError(null)
+
+      const privateKey = getPrivateKey()
+      if (!privateKey) {
+        throw new Error('未找到私钥')
+      }
+
+      // 使用独立的服务实例，避免影响正在运行的监控
+      const service = new BlockchainService(blockchainService.getProvider())
+      const fromAddress = await service.initializeWallet(privateKey)
+      const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+      const results = await service.transferNfts(targets, config.targetAddress, batchMode, gasStrategy, customGasConfig)
+
+      const transferred = new Set<string>()
+      for (const { holdings: group, result } of results) {
+        const [first] = group
+        addTransferRecord({
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+          fromAddress,
+          toAddress: config.targetAddress,
+          targetAddress: config.targetAddress,
+          amount: group.reduce((sum, holding) => sum + BigInt(holding.amount), BigInt(0)).toString(),
+          tokenSymbol: first.name || (first.standard === 'erc721' ? 'ERC-721' : 'ERC-1155'),
+          tokenAddress: first.contract,
+          nftTokenIds: group.map(holding => holding.tokenId),
+          txHash: result.hash,
+          status: result.simulated ? 'simulated' : (result.success ? 'pending' : 'failed'),
+          timestamp: new Date(),
+          type: 'manual',
+          projectedGasCost: result.simulated ? ethers.formatEther(result.projectedGasCost ?? BigInt(0)) : undefined,
+          nonce: result.simulated ? undefined : result.nonce,
+          gasPrice: result.gasPrice?.toString(),
+          maxFeePerGas: result.maxFeePerGas?.toString(),
+          maxPriorityFeePerGas: result.maxPriorityFeePerGas?.toString(),
+          gasUsed: result.gasUsed?.toString(),
+          effectiveGasPrice: result.effectiveGasPrice?.toString(),
+          error: result.error || null
+        })
+
+        addLog({
+          level: result.success ? (result.simulated ? 'info' : 'success') : 'error',
+          category: 'transfer',
+          message: result.simulated ? '🧪 模拟NFT转移（未广播）' : (result.success ? 'NFT转移已发送' : 'NFT转移失败'),
+          details: result.success
+            ? `${first.contract} #${group.map(holding => holding.tokenId).join(', #')} 到 ${config.targetAddress}, 交易哈希: ${result.hash}`
+            : result.error || '未知错误'
+        })
+
+        if (result.success && !result.simulated) {
+          group.forEach(holding => transferred.add(getNftKey(holding)))
+        }
+      }
+
+      setHoldings(prev => prev.filter(holding => !transferred.has(getNftKey(holding))))
+      setSelected(prev => new Set([...prev].filter(key => !transferred.has(key))))
+    } catch (transferError) {
+      setError(transferError instanceof Error ? transferError.message : 'NFT转移失败')
+    } finally {
+      setIsTransferring(false)
+    }
+  }
+
+  const selectedHoldings = holdings.filter(holding => selected.has(getNftKey(holding)))
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900">
+          <Image className="w-5 h-5" />
+          NFT抢救
+        </h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="1000"
+            step="1000"
+            value={scanBlocks}
+            onChange={(e) => setScanBlocks(Math.max(1000, parseInt(e.target.value) || DEFAULT_NFT_SCAN_BLOCKS))}
+            className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            title="扫描最近的区块数"
+          />
+          <button
+            onClick={handleScan}
+            disabled={!address || isScanning}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} />
+            {isScanning ? (scanProgress || '扫描中...') : '扫描NFT'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        根据转入钱包的Transfer / TransferSingle / TransferBatch日志发现NFT，并核对当前是否仍持有。转移使用当前Gas策略，记录写入转账记录
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+      )}
+
+      {holdings.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">{address ? '暂无NFT，点击扫描' : '请先连接钱包'}</p>
+      ) : (
+        <>
+          <div className="divide-y border border-gray-200 rounded-md mb-4">
+            {holdings.map(holding => {
+              const key = getNftKey(holding)
+              return (
+                <div key={key} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(key)}
+                      onChange={() => toggleSelected(key)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {holding.name || `${holding.contract.slice(0, 8)}...${holding.contract.slice(-6)}`} #{holding.tokenId}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {holding.standard === 'erc721' ? 'ERC-721' : `ERC-1155 · 数量 ${holding.amount}`}
+                      </p>
+                    </div>
+                  </label>
+                  <button
+                    onClick={() => handleTransfer([holding])}
+                    disabled={isTransferring || !config.targetAddress}
+                    className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    转移
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={batchMode}
+                onChange={(e) => setBatchMode(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              批量模式（同一ERC-1155合约合并为一笔safeBatchTransferFrom）
+            </label>
+            <button
+              onClick={() => handleTransfer(selectedHoldings)}
+              disabled={isTransferring || selectedHoldings.length === 0 || !config.targetAddress}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send className="w-4 h-4" />
+              {isTransferring ? '转移中...' : `转移选中 (${selectedHoldings.length})`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
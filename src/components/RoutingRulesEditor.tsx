@@ -0,0 +1,222 @@
+import { useState } from 'react'
+import { GitBranch, Plus, Trash2, X } from 'lucide-react'
+import { useWalletStore, RoutingRule, RoutingDestination } from '../store/useWalletStore'
+import { TOKEN_ADDRESSES } from '../utils/tokens'
+import { validateRoutingRule, NATIVE_ROUTING_ASSET, ANY_ROUTING_ASSET } from '../utils/routing'
+import { validateAddress } from '../utils/encryption'
+import { confirmDestination } from '../utils/addressBook'
+
+const emptyDestination: RoutingDestination = { address: '', percentage: 0, minAmount: '' }
+
+// 资产显示名称
+const getAssetLabel = (asset: string) => {
+  if (asset === NATIVE_ROUTING_ASSET) return 'MATIC'
+  if (asset === ANY_ROUTING_ASSET) return '所有资产'
+  const symbol = Object.entries(TOKEN_ADDRESSES).find(([, address]) => address.toLowerCase() === asset.toLowerCase())?.[0]
+  return symbol || `${asset.slice(0, 8)}...${asset.slice(-6)}`
+}
+
+// 分账路由规则编辑 - 按资产把资金按比例分配到多个安全地址
+export function RoutingRulesEditor() {
+  const { config, setConfig, setError, addAddressBookEntry } = useWalletStore()
+  const rules = config.routingRules || []
+
+  const [asset, setAsset] = useState(NATIVE_ROUTING_ASSET)
+  const [customAsset, setCustomAsset] = useState('')
+  const [destinations, setDestinations] = useState<RoutingDestination[]>([{ ...emptyDestination, percentage: 100 }])
+  const [dustAddress, setDustAddress] = useState('')
+
+  const updateDestination = (index: number, updates: Partial<RoutingDestination>) => {
+    setDestinations(prev => prev.map((destination, i) => (i === index ? { ...destination, ...updates } : destination)))
+  }
+
+  const handleAddRule = () => {
+    const ruleAsset = asset === 'custom' ? customAsset.trim() : asset
+    if (asset === 'custom' && !validateAddress(ruleAsset)) {
+      setError('代币合约地址格式无效')
+      return
+    }
+
+    const rule: RoutingRule = {
+      id: Date.now().toString(),
+      asset: ruleAsset,
+      destinations: destinations.map(destination => ({
+        ...destination,
+        minAmount: destination.minAmount?.trim() || undefined
+      })),
+      dustAddress: dustAddress.trim()
+    }
+
+    const error = validateRoutingRule(rule)
+    if (error) {
+      setError(error)
+      return
+    }
+
+    if (rules.some(existing => existing.asset.toLowerCase() === ruleAsset.toLowerCase())) {
+      setError(`${getAssetLabel(ruleAsset)} 已有分账规则，请先删除`)
+      return
+    }
+
+    // 首次使用的目的地址需要逐个确认并加入地址簿
+    const confirmed = [
+      ...rule.destinations.map((destination, index) => ({ address: destination.address, label: `分账地址 ${index + 1}` })),
+      { address: rule.dustAddress, label: '零头地址' }
+    ].every(({ address, label }) => confirmDestination(address, label, addAddressBookEntry))
+    if (!confirmed) {
+      setError('目的地址未确认')
+      return
+    }
+
+    setConfig({ routingRules: [...rules, rule] })
+    setDestinations([{ ...emptyDestination, percentage: 100 }])
+    setDustAddress('')
+    setCustomAsset('')
+    setError(null)
+  }
+
+  const handleRemoveRule = (id: string) => {
+    setConfig({ routingRules: rules.filter(rule => rule.id !== id) })
+  }
+
+  const totalPercentage = destinations.reduce((sum, destination) => sum + (destination.percentage || 0), 0)
+  const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500'
+
+  return (
+    <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+      <label className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          checked={config.routingEnabled || false}
+          onChange={(e) => setConfig({ routingEnabled: e.target.checked })}
+          className="w-4 h-4 text-indigo-600 bg-gray-100 border-gray-300 rounded focus:ring-indigo-500"
+        />
+        <div>
+          <span className="text-sm font-medium text-indigo-800 flex items-center gap-1">
+            <GitBranch className="w-4 h-4" />
+            分账路由
+          </span>
+          <p className="text-xs text-indigo-600">
+            按比例把转移的资金分配到多个安全地址，没有匹配规则的资产仍转到目标地址
+          </p>
+        </div>
+      </label>
+
+      {config.routingEnabled && (
+        <div className="mt-3 space-y-3">
+          {rules.map(rule => (
+            <div key={rule.id} className="p-2 bg-white border border-indigo-200 rounded text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-indigo-800">{getAssetLabel(rule.asset)}</span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveRule(rule.id)}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {rule.destinations.map((destination, index) => (
+                <p key={index} className="font-mono text-gray-700">
+                  {destination.percentage}% → {destination.address}
+                  {destination.minAmount && <span className="text-gray-500"> (最少 {destination.minAmount})</span>}
+                </p>
+              ))}
+              <p className="font-mono text-gray-500">零头 → {rule.dustAddress}</p>
+            </div>
+          ))}
+
+          <div className="p-3 bg-white border border-dashed border-indigo-300 rounded space-y-2">
+            <div className="flex gap-2">
+              <select value={asset} onChange={(e) => setAsset(e.target.value)} className={inputClass}>
+                <option value={NATIVE_ROUTING_ASSET}>MATIC</option>
+                {Object.entries(TOKEN_ADDRESSES).map(([symbol, address]) => (
+                  <option key={address} value={address}>{symbol}</option>
+                ))}
+                <option value={ANY_ROUTING_ASSET}>所有资产</option>
+                <option value="custom">其他代币</option>
+              </select>
+              {asset === 'custom' && (
+                <input
+                  type="text"
+                  value={customAsset}
+                  onChange={(e) => setCustomAsset(e.target.value)}
+                  placeholder="代币合约地址"
+                  className={`${inputClass} flex-1`}
+                />
+              )}
+            </div>
+
+            {destinations.map((destination, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={destination.address}
+                  onChange={(e) => updateDestination(index, { address: e.target.value })}
+                  placeholder="目的地址"
+                  className={`${inputClass} flex-1`}
+                />
+                <input
+                  type="number"
+                  value={destination.percentage || ''}
+                  onChange={(e) => updateDestination(index, { percentage: parseFloat(e.target.value) || 0 })}
+                  placeholder="%"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  className={`${inputClass} w-20`}
+                />
+                <input
+                  type="text"
+                  value={destination.minAmount || ''}
+                  onChange={(e) => updateDestination(index, { minAmount: e.target.value })}
+                  placeholder="最小金额"
+                  className={`${inputClass} w-24`}
+                />
+                {destinations.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setDestinations(prev => prev.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setDestinations(prev => [...prev, { ...emptyDestination }])}
+                className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                添加目的地址
+              </button>
+              <span className={`text-xs ${Math.abs(totalPercentage - 100) > 0.01 ? 'text-red-600' : 'text-green-600'}`}>
+                合计 {totalPercentage}%
+              </span>
+            </div>
+
+            <input
+              type="text"
+              value={dustAddress}
+              onChange={(e) => setDustAddress(e.target.value)}
+              placeholder="零头接收地址（取整余数和低于最小金额的份额）"
+              className={`${inputClass} w-full`}
+            />
+
+            <button
+              type="button"
+              onClick={handleAddRule}
+              className="px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700"
+            >
+              添加规则
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
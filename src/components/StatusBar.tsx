@@ -1,11 +1,18 @@
 import { useState, useCallback, useEffect } from 'react'
-import { Activity, RefreshCw, Wifi, AlertTriangle } from 'lucide-react'
+import { Activity, RefreshCw, Wifi, AlertTriangle, TrendingUp, TrendingDown, Minus } from 'lucide-react'
 import { useWalletStore } from '../store/useWalletStore'
 import { blockchainService } from '../utils/blockchain'
 import { validateContractAddress } from '../utils/contractValidation'
 import { networkDiagnostics } from '../utils/networkDiagnostics'
+import { congestionTracker, CongestionSnapshot, CongestionTrend } from '../utils/congestionTracker'
 import { ethers } from 'ethers'
 
+const TREND_DISPLAY: Record<CongestionTrend, { label: string; icon: typeof Minus; className: string }> = {
+  rising: { label: 'Gas上涨', icon: TrendingUp, className: 'bg-red-100 text-red-700' },
+  falling: { label: 'Gas下降', icon: TrendingDown, className: 'bg-green-100 text-green-700' },
+  stable: { label: 'Gas平稳', icon: Minus, className: 'bg-gray-100 text-gray-700' }
+}
+
 interface StatusBarProps {
   onRefresh?: () => void
   isRefreshing?: boolean
@@ -33,6 +40,10 @@ export function StatusBar({
   const [isCheckingContractStatus, setIsCheckingContractStatus] = useState(false)
   const [isDiagnosing, setIsDiagnosing] = useState(false)
   const [diagnosticResult, setDiagnosticResult] = useState<string | null>(null)
+  const [congestion, setCongestion] = useState<CongestionSnapshot | null>(congestionTracker.getLatest())
+
+  // 订阅网络拥堵跟踪的趋势更新
+  useEffect(() => congestionTracker.subscribe(setCongestion), [])
 
   // 执行网络诊断
   const performNetworkDiagnostics = useCallback(async () => {
@@ -218,6 +229,8 @@ export function StatusBar({
     checkContractValidationStatus()
   }, [])
 
+  const trend = congestion ? TREND_DISPLAY[congestion.trend] : null
+
   return (
     <div className="flex items-center gap-2 px-3 py-2 flex-shrink-0 whitespace-nowrap">
       {/* 网络状态指示器 */}
@@ -243,6 +256,20 @@ export function StatusBar({
         )}
       </div>
       
+      {/* Gas基础费用趋势 */}
+      {congestion && trend && (
+        <div
+          className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md font-medium ${trend.className}`}
+          title={`拥堵程度 ${(congestion.smoothedUtilization * 100).toFixed(0)}%（最近${congestion.samples}个区块平滑）\n预测基础费用: ${congestion.predictedBaseFees.map(fee => parseFloat(ethers.formatUnits(fee, 'gwei')).toFixed(1)).join(' → ')} Gwei`}
+        >
+          <trend.icon className="w-4 h-4" />
+          {trend.label} {parseFloat(ethers.formatUnits(congestion.baseFee, 'gwei')).toFixed(1)} Gwei
+          <span className="text-xs opacity-75">
+            {congestion.changePercent > 0 ? '+' : ''}{congestion.changePercent.toFixed(1)}%
+          </span>
+        </div>
+      )}
+      
       {/* 疯狂抢救模式切换按钮 */}
       {showRescueMode && config.autoTransfer && (
         <button
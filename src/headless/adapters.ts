@@ -0,0 +1,69 @@
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'node:fs'
+import { resolve } from 'node:path'
+import type { StorageAdapter, PlatformAdapter } from '../utils/platform'
+import { log } from './logger'
+
+// 文件存储 - 代替localStorage，保存自动加密密钥和合约验证缓存
+// 每次写入都整体落盘（先写临时文件再重命名），文件权限仅限当前用户
+export function createFileStorage(path: string): StorageAdapter {
+  const items = new Map<string, string>()
+
+  if (existsSync(path)) {
+    try {
+      const stored = JSON.parse(readFileSync(path, 'utf8')) as Record<string, unknown>
+      Object.entries(stored).forEach(([key, value]) => {
+        if (typeof value === 'string') items.set(key, value)
+      })
+    } catch (error) {
+      throw new Error(`状态文件解析失败 ${path}: ${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  const persist = () => {
+    const tempPath = `${path}.tmp`
+    writeFileSync(tempPath, JSON.stringify(Object.fromEntries(items), null, 2), { mode: 0o600 })
+    renameSync(tempPath, path)
+  }
+
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+      persist()
+    },
+    removeItem: key => {
+      if (items.delete(key)) persist()
+    },
+    keys: () => [...items.keys()]
+  }
+}
+
+// Node平台适配器：进程级错误捕获，提示写入日志，文件保存到当前目录
+export const nodePlatform: PlatformAdapter = {
+  onGlobalError(handler) {
+    process.on('unhandledRejection', (reason) => {
+      log('error', 'system', '未处理的Promise拒绝', { error: reason instanceof Error ? reason.message : String(reason) })
+      handler('unhandledrejection', reason)
+    })
+
+    // 单个区块处理出错不应结束监控进程
+    process.on('uncaughtException', (error) => {
+      log('error', 'system', '未捕获的异常', { error: error.message })
+      handler('error', error)
+    })
+  },
+
+  notify(message) {
+    log('warning', 'system', message)
+  },
+
+  getLocation() {
+    return `headless:${process.cwd()}`
+  },
+
+  saveFile(filename, content) {
+    const path = resolve(process.cwd(), filename)
+    writeFileSync(path, content, { mode: 0o600 })
+    log('info', 'system', '文件已保存', { path })
+  }
+}
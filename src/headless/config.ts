@@ -0,0 +1,263 @@
+import { readFileSync } from 'node:fs'
+import { dirname, extname, resolve } from 'node:path'
+import type { WalletConfig, RoutingRule, AddressBookEntry } from '../store/useWalletStore'
+import { decryptDataWithPassword, validateAddress, validatePrivateKey } from '../utils/encryption'
+import { toChecksumAddress } from '../utils/addressBook'
+import { parse } from 'yaml'
+
+// 无头运行配置：WalletConfig字段写在顶层，另加密钥文件、状态文件和地址簿
+export interface HeadlessConfig {
+  wallet: WalletConfig
+  keyFile: string // encryptDataWithPassword格式（salt:密文），密码来自环境变量
+  sponsorKeyFile?: string
+  stateFile: string // 代替localStorage保存自动加密密钥和合约验证缓存
+  allowlistOnly: boolean
+  addressBook: AddressBookEntry[]
+}
+
+export const KEY_PASSWORD_ENV = 'RESCUE_KEY_PASSWORD'
+
+// 与store的初始配置一致，无头运行默认已配置并开启自动转账
+const HEADLESS_DEFAULTS: WalletConfig = {
+  privateKey: '',
+  targetAddress: '',
+  minTransferAmount: '0.001',
+  gasStrategy: 'fast',
+  gasMultiplier: 1,
+  gasLimit: '',
+  crazyMode: false,
+  isConfigured: true,
+  autoTransfer: true,
+  tokenAddress: '',
+  transferType: 'native',
+  checkInterval: 0.5,
+  dryRun: false,
+  routingEnabled: false,
+  routingRules: [],
+  multiAssetSweep: false,
+  preciseSweep: false,
+  watchTokens: [],
+  rescueMode: false,
+  rescueInterval: 100,
+  rescueGasMultiplier: 3,
+  presignedSweep: false,
+  mempoolGuard: false,
+  maxReplacementFeeGwei: 500,
+  sponsorEnabled: false,
+  sponsorAddress: '',
+  feeEscalationEnabled: false,
+  feeEscalationPercent: 25,
+  feeEscalationBlocks: 2,
+  feeEscalationMaxGwei: 300,
+  maxGasPriceGwei: 0,
+  maxGasCostPercent: 0,
+  dailyGasBudget: '',
+  akasdaoEnabled: false,
+  akasdaoMinAmount: '10',
+  akasdaoTokenAddress: ''
+}
+
+const STRING_FIELDS = [
+  'targetAddress', 'minTransferAmount', 'gasLimit', 'tokenAddress', 'akasdaoMinAmount', 'akasdaoTokenAddress',
+  'dailyGasBudget'
+] as const
+const NUMBER_FIELDS = [
+  'gasMultiplier', 'checkInterval', 'rescueInterval', 'rescueGasMultiplier', 'maxReplacementFeeGwei',
+  'maxGasPriceGwei', 'maxGasCostPercent', 'feeEscalationPercent', 'feeEscalationBlocks', 'feeEscalationMaxGwei',
+  'confirmationDepth'
+] as const
+const BOOLEAN_FIELDS = [
+  'crazyMode', 'dryRun', 'routingEnabled', 'multiAssetSweep', 'preciseSweep', 'rescueMode', 'presignedSweep',
+  'mempoolGuard', 'sponsorEnabled', 'feeEscalationEnabled', 'akasdaoEnabled'
+] as const
+const GAS_STRATEGIES: WalletConfig['gasStrategy'][] = ['fast', 'standard', 'safe', 'custom']
+
+// 解析YAML配置，格式错误、重复键或多文档时抛出错误
+// 0x开头的地址按字符串读取（YAML 1.2会把它当作十六进制整数解析并丢失精度）
+function parseYaml(source: string): unknown {
+  return parse(source, {
+    customTags: tags => tags.filter(tag => (typeof tag === 'string' ? tag !== 'intHex' : tag.format !== 'HEX'))
+  })
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readString(raw: Record<string, unknown>, key: string): string | undefined {
+  const value = raw[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value === 'string') return value.trim()
+  // YAML中未加引号的金额会被解析为数字
+  if (typeof value === 'number') return value.toString()
+  throw new Error(`配置项 ${key} 应为字符串`)
+}
+
+function readNumber(raw: Record<string, unknown>, key: string): number | undefined {
+  const value = raw[key]
+  if (value === undefined || value === null) return undefined
+  const parsed = typeof value === 'string' ? Number(value) : value
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new Error(`配置项 ${key} 应为数字`)
+  }
+  return parsed
+}
+
+function readBoolean(raw: Record<string, unknown>, key: string): boolean | undefined {
+  const value = raw[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'boolean') throw new Error(`配置项 ${key} 应为true或false`)
+  return value
+}
+
+function parseRoutingRules(value: unknown): RoutingRule[] {
+  if (!Array.isArray(value)) throw new Error('配置项 routingRules 应为列表')
+
+  return value.map((rule, index) => {
+    if (!isRecord(rule) || !Array.isArray(rule.destinations)) {
+      throw new Error(`第${index + 1}条分账规则格式错误`)
+    }
+    return {
+      id: `headless-${index + 1}`,
+      asset: readString(rule, 'asset') || '*',
+      dustAddress: readString(rule, 'dustAddress') || '',
+      destinations: rule.destinations.map(destination => {
+        if (!isRecord(destination)) throw new Error(`第${index + 1}条分账规则的目的地址格式错误`)
+        return {
+          address: readString(destination, 'address') || '',
+          percentage: readNumber(destination, 'percentage') ?? 0,
+          minAmount: readString(destination, 'minAmount')
+        }
+      })
+    }
+  })
+}
+
+// 地址簿：可写地址字符串，或{ address, label }
+function parseAddressBook(value: unknown): AddressBookEntry[] {
+  if (!Array.isArray(value)) throw new Error('配置项 addressBook 应为列表')
+
+  return value.map((entry, index) => {
+    const address = typeof entry === 'string' ? entry : isRecord(entry) ? readString(entry, 'address') : undefined
+    if (!address) throw new Error(`第${index + 1}个地址簿条目缺少地址`)
+    return {
+      address: toChecksumAddress(address),
+      label: (isRecord(entry) && readString(entry, 'label')) || `地址${index + 1}`,
+      addedAt: new Date()
+    }
+  })
+}
+
+function validateWalletConfig(config: WalletConfig): void {
+  if (!validateAddress(config.targetAddress)) {
+    throw new Error('请设置有效的目标转账地址（targetAddress）')
+  }
+
+  if (config.transferType === 'token' && !validateAddress(config.tokenAddress || '')) {
+    throw new Error('代币转账模式下必须设置代币合约地址（tokenAddress）')
+  }
+
+  if (!(parseFloat(config.minTransferAmount) > 0)) {
+    throw new Error('最小转账金额必须大于0')
+  }
+
+  if (config.routingEnabled) {
+    config.routingRules?.forEach((rule, index) => {
+      const total = rule.destinations.reduce((sum, destination) => sum + destination.percentage, 0)
+      if (rule.destinations.some(destination => !validateAddress(destination.address)) || Math.abs(total - 100) > 0.0001) {
+        throw new Error(`第${index + 1}条分账规则无效：地址格式错误或比例合计不为100%`)
+      }
+    })
+  }
+}
+
+// 加载JSON或YAML配置文件，相对路径以配置文件所在目录为准
+export function loadHeadlessConfig(path: string): HeadlessConfig {
+  const configPath = resolve(path)
+  const baseDir = dirname(configPath)
+  const source = readFileSync(configPath, 'utf8')
+  const extension = extname(configPath).toLowerCase()
+
+  let raw: unknown
+  try {
+    raw = extension === '.yaml' || extension === '.yml' ? parseYaml(source) : JSON.parse(source)
+  } catch (error) {
+    throw new Error(`配置文件解析失败 ${configPath}: ${error instanceof Error ? error.message : '未知错误'}`)
+  }
+  if (!isRecord(raw)) throw new Error('配置文件顶层应为对象')
+
+  const wallet: WalletConfig = { ...HEADLESS_DEFAULTS }
+  STRING_FIELDS.forEach(key => {
+    const value = readString(raw, key)
+    if (value !== undefined) wallet[key] = value
+  })
+  NUMBER_FIELDS.forEach(key => {
+    const value = readNumber(raw, key)
+    if (value !== undefined) wallet[key] = value
+  })
+  BOOLEAN_FIELDS.forEach(key => {
+    const value = readBoolean(raw, key)
+    if (value !== undefined) wallet[key] = value
+  })
+
+  const gasStrategy = readString(raw, 'gasStrategy')
+  if (gasStrategy !== undefined) {
+    if (!GAS_STRATEGIES.includes(gasStrategy as WalletConfig['gasStrategy'])) {
+      throw new Error(`gasStrategy 应为 ${GAS_STRATEGIES.join('/')} 之一`)
+    }
+    wallet.gasStrategy = gasStrategy as WalletConfig['gasStrategy']
+  }
+
+  const transferType = readString(raw, 'transferType')
+  if (transferType !== undefined) {
+    if (transferType !== 'native' && transferType !== 'token') {
+      throw new Error('transferType 应为 native 或 token')
+    }
+    wallet.transferType = transferType
+  }
+
+  if (raw.watchTokens !== undefined) {
+    if (!Array.isArray(raw.watchTokens) || raw.watchTokens.some(token => typeof token !== 'string')) {
+      throw new Error('配置项 watchTokens 应为地址列表')
+    }
+    wallet.watchTokens = raw.watchTokens as string[]
+  }
+
+  if (raw.routingRules !== undefined) {
+    wallet.routingRules = parseRoutingRules(raw.routingRules)
+  }
+
+  validateWalletConfig(wallet)
+
+  const keyFile = readString(raw, 'keyFile')
+  if (!keyFile) throw new Error('请设置加密私钥文件（keyFile）')
+
+  const sponsorKeyFile = readString(raw, 'sponsorKeyFile')
+  if (wallet.sponsorEnabled && !sponsorKeyFile) {
+    throw new Error('已启用Gas赞助，但未设置赞助钱包私钥文件（sponsorKeyFile）')
+  }
+
+  const addressBook = raw.addressBook !== undefined ? parseAddressBook(raw.addressBook) : []
+  const allowlistOnly = readBoolean(raw, 'allowlistOnly') || false
+  if (allowlistOnly && addressBook.length === 0) {
+    throw new Error('启用白名单模式前请先在addressBook中添加地址')
+  }
+
+  return {
+    wallet,
+    keyFile: resolve(baseDir, keyFile),
+    sponsorKeyFile: sponsorKeyFile ? resolve(baseDir, sponsorKeyFile) : undefined,
+    stateFile: resolve(baseDir, readString(raw, 'stateFile') || 'rescue-state.json'),
+    allowlistOnly,
+    addressBook
+  }
+}
+
+// 读取并解密私钥文件（与浏览器端密码保护私钥相同的加密格式）
+export function readEncryptedKeyFile(path: string, password: string): string {
+  const privateKey = decryptDataWithPassword(readFileSync(path, 'utf8').trim(), password)
+  if (!validatePrivateKey(privateKey)) {
+    throw new Error(`私钥文件内容无效: ${path}`)
+  }
+  return privateKey
+}
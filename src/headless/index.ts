@@ -0,0 +1,65 @@
+// 无头抢救监控入口（Node）
+// 用法：
+//   RESCUE_KEY_PASSWORD=... node dist-headless/index.js --config rescue.yaml [--dry-run]
+//   RESCUE_PRIVATE_KEY=... RESCUE_KEY_PASSWORD=... node dist-headless/index.js --encrypt-key wallet.key
+import { writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { configurePlatform } from '../utils/platform'
+import { encryptDataWithPassword, validatePrivateKey } from '../utils/encryption'
+import { createFileStorage, nodePlatform } from './adapters'
+import { KEY_PASSWORD_ENV, loadHeadlessConfig } from './config'
+import { log } from './logger'
+
+const PRIVATE_KEY_ENV = 'RESCUE_PRIVATE_KEY'
+
+// 生成加密私钥文件（私钥和密码都从环境变量读取，避免出现在命令行历史中）
+function encryptKeyFile(outputPath: string): void {
+  const privateKey = process.env[PRIVATE_KEY_ENV]
+  const password = process.env[KEY_PASSWORD_ENV]
+  if (!privateKey || !validatePrivateKey(privateKey)) {
+    throw new Error(`请通过环境变量 ${PRIVATE_KEY_ENV} 提供有效的私钥`)
+  }
+  if (!password) {
+    throw new Error(`请通过环境变量 ${KEY_PASSWORD_ENV} 提供加密密码`)
+  }
+
+  writeFileSync(outputPath, encryptDataWithPassword(privateKey, password), { mode: 0o600 })
+  log('success', 'system', '加密私钥文件已生成', { path: outputPath })
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string', short: 'c' },
+      'dry-run': { type: 'boolean' },
+      'encrypt-key': { type: 'string' }
+    }
+  })
+
+  if (values['encrypt-key']) {
+    encryptKeyFile(values['encrypt-key'])
+    return
+  }
+
+  if (!values.config) {
+    throw new Error('请通过 --config 指定配置文件（JSON或YAML）')
+  }
+
+  const config = loadHeadlessConfig(values.config)
+  if (values['dry-run']) {
+    config.wallet.dryRun = true
+  }
+
+  // 必须在加载服务模块之前替换适配器（错误处理器在加载时注册全局监听）
+  configurePlatform({ storage: createFileStorage(config.stateFile), platform: nodePlatform })
+  await import('../utils/errorHandler')
+  const { runHeadless } = await import('./runner')
+
+  await runHeadless(config)
+  log('info', 'system', '无头监控已退出')
+}
+
+main().catch(error => {
+  log('error', 'system', error instanceof Error ? error.message : '启动失败')
+  process.exitCode = 1
+})
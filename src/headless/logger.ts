@@ -0,0 +1,19 @@
+import type { LogEntry } from '../store/useWalletStore'
+
+// 结构化日志 - 每行一个JSON对象写到stdout，便于systemd/docker等收集
+export function log(
+  level: LogEntry['level'],
+  category: LogEntry['category'],
+  message: string,
+  fields?: Record<string, unknown>
+): void {
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    category,
+    message,
+    ...fields
+  }
+
+  process.stdout.write(JSON.stringify(entry, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)) + '\n')
+}
@@ -0,0 +1,218 @@
+import { ethers } from 'ethers'
+import { blockchainService } from '../utils/blockchain'
+import { rpcOptimizer } from '../utils/rpcOptimizer'
+import { rescueEngine, RescueEngineEvent } from '../utils/rescueEngine'
+import { AkasaDAOService } from '../utils/akasdao'
+import { addressGuard } from '../utils/addressBook'
+import { dryRun } from '../utils/dryRun'
+import { gasBudget, pruneGasLedger, GasSpendEntry } from '../utils/gasBudget'
+import { feeEscalator } from '../utils/feeEscalation'
+import { transactionTracker, DEFAULT_CONFIRMATION_DEPTH } from '../utils/transactionTracker'
+import type { TransferRecord } from '../store/useWalletStore'
+import { HeadlessConfig, KEY_PASSWORD_ENV, readEncryptedKeyFile } from './config'
+import { log } from './logger'
+
+// 收到退出信号后等待清理的最长时间
+const SHUTDOWN_TIMEOUT = 5000
+// 进入这些阶段后交易跟踪不再检查，记录从内存中移除
+const SETTLED_STAGES: TransferRecord['stage'][] = ['finalized', 'dropped', 'replaced']
+
+// 抢救引擎事件转为结构化日志（余额只在变化时输出），已广播的转账交给交易跟踪
+function createEventLogger(onSubmitted: (record: TransferRecord) => void): (event: RescueEngineEvent) => void {
+  let lastBalance: string | null = null
+
+  return (event) => {
+    switch (event.type) {
+      case 'started':
+        log('success', 'monitoring', '抢救引擎已启动', { address: event.address })
+        break
+      case 'stopped':
+        log('info', 'monitoring', '抢救引擎已停止')
+        break
+      case 'balance':
+        if (event.balance !== lastBalance) {
+          lastBalance = event.balance
+          log('info', 'balance', '余额变化', {
+            blockNumber: event.blockNumber,
+            address: event.address,
+            balance: event.balance,
+            symbol: event.tokenInfo?.symbol || 'MATIC'
+          })
+        }
+        break
+      case 'daiBalance':
+        log('info', 'balance', 'AkasaDAO代币余额', { blockNumber: event.blockNumber, balance: event.balance })
+        break
+      case 'sweep': {
+        const { record } = event
+        const level = record.status === 'failed' ? 'error' : record.status === 'simulated' ? 'info' : 'success'
+        log(level, record.type === 'silence' ? 'transaction' : 'transfer', `转账${record.status}`, {
+          blockNumber: event.blockNumber,
+          type: record.type,
+          status: record.status,
+          amount: record.amount,
+          symbol: record.tokenSymbol || 'MATIC',
+          from: record.fromAddress,
+          to: record.toAddress,
+          txHash: record.txHash,
+          projectedGasCost: record.projectedGasCost,
+          error: record.error
+        })
+        if (record.status === 'pending' && record.txHash) {
+          onSubmitted(record)
+        }
+        break
+      }
+      case 'skipped':
+        log('info', 'monitoring', '跳过转账', { blockNumber: event.blockNumber, reason: event.reason })
+        break
+      case 'ladder':
+        log('info', 'transaction', '预签名转账阶梯已更新', { blockNumber: event.blockNumber, nonce: event.nonce, size: event.size })
+        break
+      case 'replacement':
+        log(event.status === 'failed' || event.status === 'lost' ? 'warning' : 'info', 'transaction', `内存池替换${event.status}`, {
+          nonce: event.nonce,
+          attackerHash: event.attackerHash,
+          hash: event.hash,
+          detail: event.message
+        })
+        break
+      case 'error':
+        log('error', 'system', event.message, { blockNumber: event.blockNumber })
+        break
+    }
+  }
+}
+
+// 启动无头抢救监控，收到SIGTERM/SIGINT后清理并返回
+export async function runHeadless(config: HeadlessConfig): Promise<void> {
+  const password = process.env[KEY_PASSWORD_ENV]
+  if (!password) {
+    throw new Error(`请通过环境变量 ${KEY_PASSWORD_ENV} 提供私钥文件密码`)
+  }
+
+  const privateKey = readEncryptedKeyFile(config.keyFile, password)
+  const sponsorPrivateKey = config.sponsorKeyFile ? readEncryptedKeyFile(config.sponsorKeyFile, password) : null
+  const walletConfig = {
+    ...config.wallet,
+    sponsorAddress: sponsorPrivateKey ? new ethers.Wallet(sponsorPrivateKey).address : ''
+  }
+
+  addressGuard.setSource(() => ({ allowlistOnly: config.allowlistOnly, entries: config.addressBook }))
+  dryRun.setSource(() => walletConfig.dryRun || false)
+
+  // 无头模式的Gas支出记录只保存在内存中，重启后每日预算重新计算
+  let gasLedger: GasSpendEntry[] = []
+  gasBudget.setSource(() => ({
+    limits: {
+      maxGasPriceGwei: walletConfig.maxGasPriceGwei,
+      maxGasCostPercent: walletConfig.maxGasCostPercent,
+      dailyGasBudget: walletConfig.dailyGasBudget
+    },
+    ledger: gasLedger
+  }))
+  const unsubscribeGasBudget = gasBudget.subscribe((event) => {
+    if (event.type === 'spent') {
+      gasLedger = [...pruneGasLedger(gasLedger), event.entry]
+    } else {
+      log('warning', 'security', `Gas上限拦截: ${event.action}`, { reason: event.reason })
+    }
+  })
+
+  // 无头模式的转账记录只保存在内存中，由交易跟踪判定打包、确认、重组、丢弃和替换
+  let trackedRecords: TransferRecord[] = []
+  transactionTracker.setSource(() => ({
+    records: trackedRecords,
+    confirmationDepth: walletConfig.confirmationDepth || DEFAULT_CONFIRMATION_DEPTH
+  }))
+  const unsubscribeTracker = transactionTracker.subscribe(({ recordId, updates, log: entry }) => {
+    trackedRecords = updates.stage && SETTLED_STAGES.includes(updates.stage)
+      ? trackedRecords.filter(record => record.id !== recordId)
+      : trackedRecords.map(record => (record.id === recordId ? { ...record, ...updates } : record))
+    if (entry) {
+      log(entry.level, entry.category, entry.message, { details: entry.details })
+    }
+  })
+  transactionTracker.start(blockchainService.getProvider())
+
+  feeEscalator.setSource(() => ({
+    enabled: walletConfig.feeEscalationEnabled || false,
+    bumpPercent: walletConfig.feeEscalationPercent || 25,
+    everyBlocks: walletConfig.feeEscalationBlocks || 2,
+    maxFeeGwei: walletConfig.feeEscalationMaxGwei || 300
+  }))
+  const unsubscribeFeeEscalation = feeEscalator.subscribe((event) => {
+    if (event.type === 'stopped') {
+      log('warning', 'transaction', `停止自动加价: ${event.label}`, { nonce: event.nonce, hash: event.hash, reason: event.reason })
+      return
+    }
+    // 与浏览器端一致：记录改为跟踪加价后的交易，并保留之前的哈希以防旧交易抢先上链
+    trackedRecords = trackedRecords.map(record => (record.txHash === event.previousHash
+      ? {
+          ...record,
+          txHash: event.hash,
+          gasPrice: event.gasPrice.toString(),
+          maxFeePerGas: event.maxFeePerGas?.toString(),
+          maxPriorityFeePerGas: event.maxPriorityFeePerGas?.toString(),
+          amount: event.value !== undefined ? ethers.formatEther(event.value) : record.amount,
+          feeBumps: event.bumps,
+          escalatedFrom: [...(record.escalatedFrom || []), event.previousHash]
+        }
+      : record))
+    log('info', 'transaction', `自动加价 #${event.bumps}: ${event.label}`, {
+      nonce: event.nonce,
+      previousHash: event.previousHash,
+      hash: event.hash,
+      gasPriceGwei: ethers.formatUnits(event.gasPrice, 'gwei')
+    })
+  })
+  feeEscalator.start(blockchainService.getProvider())
+
+  const akasdaoService = walletConfig.akasdaoEnabled
+    ? new AkasaDAOService(blockchainService.getProvider())
+    : null
+
+  const unsubscribe = rescueEngine.subscribe(createEventLogger(record => {
+    trackedRecords = [...trackedRecords, record]
+  }))
+
+  log('info', 'monitoring', '正在启动无头监控', {
+    targetAddress: walletConfig.targetAddress,
+    transferType: walletConfig.transferType,
+    tokenAddress: walletConfig.tokenAddress || undefined,
+    rescueMode: walletConfig.rescueMode,
+    dryRun: walletConfig.dryRun,
+    allowlistOnly: config.allowlistOnly
+  })
+
+  await rescueEngine.start({ config: walletConfig, privateKey, akasdaoService, sponsorPrivateKey })
+
+  await new Promise<void>(resolve => {
+    const shutdown = (signal: NodeJS.Signals) => {
+      log('info', 'system', '收到退出信号，正在停止监控', { signal })
+      process.off('SIGTERM', shutdown)
+      process.off('SIGINT', shutdown)
+
+      // 清理未能及时完成时强制退出（不阻止正常退出）
+      setTimeout(() => {
+        log('warning', 'system', '清理超时，强制退出')
+        process.exit(process.exitCode ?? 0)
+      }, SHUTDOWN_TIMEOUT).unref()
+
+      rescueEngine.stop()
+      unsubscribe()
+      unsubscribeGasBudget()
+      feeEscalator.stop()
+      unsubscribeFeeEscalation()
+      transactionTracker.stop()
+      unsubscribeTracker()
+      rpcOptimizer.destroy()
+      blockchainService.cleanup()
+      blockchainService.getProvider().destroy()
+      resolve()
+    }
+
+    process.on('SIGTERM', shutdown)
+    process.on('SIGINT', shutdown)
+  })
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { BookOpen, Plus, Trash2, ShieldCheck } from 'lucide-react'
+import { useWalletStore } from '../store/useWalletStore'
+import { toChecksumAddress } from '../utils/addressBook'
+
+export function AddressBookPage() {
+  const { addressBook, allowlistOnly, addAddressBookEntry, removeAddressBookEntry, setAllowlistOnly, setError } = useWalletStore()
+  const [label, setLabel] = useState('')
+  const [address, setAddress] = useState('')
+
+  // 添加地址 - 必须是有效的校验和地址
+  const handleAddEntry = () => {
+    let checksumAddress: string
+    try {
+      checksumAddress = toChecksumAddress(address)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '地址无效')
+      return
+    }
+
+    if (addressBook.some(entry => entry.address.toLowerCase() === checksumAddress.toLowerCase())) {
+      setError('该地址已在地址簿中')
+      return
+    }
+
+    addAddressBookEntry({
+      address: checksumAddress,
+      label: label.trim() || `地址 ${addressBook.length + 1}`,
+      addedAt: new Date()
+    })
+    setLabel('')
+    setAddress('')
+    setError(null)
+  }
+
+  const handleRemoveEntry = (entryAddress: string) => {
+    if (window.confirm('确定要从地址簿中移除该地址吗？白名单模式下将无法再向其发送资金。')) {
+      removeAddressBookEntry(entryAddress)
+    }
+  }
+
+  const handleToggleAllowlist = (enabled: boolean) => {
+    if (enabled && addressBook.length === 0) {
+      setError('地址簿为空，开启白名单模式后所有发送都会被拒绝')
+      return
+    }
+    setAllowlistOnly(enabled)
+    setError(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center mb-6">
+          <BookOpen className="w-6 h-6 mr-2 text-primary-600" />
+          地址簿
+        </h2>
+
+        {/* 白名单模式 */}
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg mb-6">
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={allowlistOnly}
+              onChange={(e) => handleToggleAllowlist(e.target.checked)}
+              className="w-4 h-4 text-green-600 bg-gray-100 border-gray-300 rounded focus:ring-green-500"
+            />
+            <div>
+              <span className="text-sm font-medium text-green-800 flex items-center gap-1">
+                <ShieldCheck className="w-4 h-4" />
+                白名单模式
+              </span>
+              <p className="text-xs text-green-600">
+                开启后只允许向地址簿中的地址发送资金，包括转账、预签名、Gas赞助、交易替换和AkasaDAO合约交互
+              </p>
+            </div>
+          </label>
+        </div>
+
+        {/* 添加地址 */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="备注名称"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="0x..."
+            className="md:col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <button
+          onClick={handleAddEntry}
+          disabled={!address.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed mb-6"
+        >
+          <Plus className="w-4 h-4" />
+          添加地址
+        </button>
+
+        {/* 地址列表 */}
+        <div className="space-y-3">
+          {addressBook.length === 0 ? (
+            <div className="text-center py-8">
+              <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">暂无地址，首次使用的目的地址确认后会自动加入</p>
+            </div>
+          ) : (
+            addressBook.map(entry => (
+              <div key={entry.address} className="flex items-center justify-between border border-gray-200 rounded-lg p-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{entry.label}</p>
+                  <p className="text-sm text-gray-600 font-mono">{entry.address}</p>
+                  <p className="text-xs text-gray-400">添加于 {entry.addedAt.toLocaleString('zh-CN')}</p>
+                </div>
+                <button
+                  onClick={() => handleRemoveEntry(entry.address)}
+                  className="p-2 text-red-500 hover:text-red-700"
+                  title="移除地址"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -190,6 +190,30 @@ export function AkasdaoDemandPage() {
       })
 
       const result = await akasdaoService.stake(amount)
+
+      // 模拟运行：交易已签名但未广播，不等待确认
+      if (result.simulated) {
+        addLog({
+          level: 'info',
+          category: 'stake',
+          message: '🧪 模拟质押（未广播）',
+          details: `质押 ${amount} AS Token, 预计Gas: ${result.projectedGasCost} MATIC, 交易哈希: ${result.txHash}`
+        })
+        addTransferRecord({
+          id: Date.now().toString(),
+          fromAddress: config.privateKey ? '0x' + config.privateKey.slice(-40) : '',
+          toAddress: '0xe3A736f5146b14fA3e7412CE00630f08524a741D',
+          amount: amount,
+          tokenSymbol: 'AS',
+          timestamp: new Date(),
+          txHash: result.txHash,
+          status: 'simulated',
+          type: 'demand',
+          gasStrategy: 'network',
+          projectedGasCost: result.projectedGasCost
+        })
+        return
+      }
       
       addLog({
         level: 'info',
@@ -216,9 +240,10 @@ export function AkasdaoDemandPage() {
         amount: amount,
         tokenSymbol: 'AS',
         timestamp: new Date(),
-        txHash: result.txHash,
-        status: 'confirmed',
-        type: 'demand'
+        txHash: receipt.hash, // 被自动加价替换时为替换交易的哈希
+        status: 'pending',
+        type: 'demand',
+        gasStrategy: 'network'
       })
 
       // 刷新余额
@@ -296,8 +321,9 @@ export function AkasdaoDemandPage() {
         tokenSymbol: 'AS',
         timestamp: new Date(),
         txHash: result.txHash,
-        status: 'confirmed',
-        type: 'demand'
+        status: 'pending',
+        type: 'demand',
+        gasStrategy: 'network'
       })
 
       // 刷新余额
@@ -367,8 +393,9 @@ export function AkasdaoDemandPage() {
         tokenSymbol: 'AS',
         timestamp: new Date(),
         txHash: result.txHash,
-        status: 'confirmed',
-        type: 'demand'
+        status: 'pending',
+        type: 'demand',
+        gasStrategy: 'network'
       })
 
       // 刷新余额
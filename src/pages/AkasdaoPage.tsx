@@ -5,6 +5,7 @@ import { TOKEN_ADDRESSES } from '../utils/tokens'
 import { blockchainService } from '../utils/blockchain'
 import { getPrivateKey, hasStoredPrivateKey } from '../utils/encryption'
 import { StatusBar } from '../components/StatusBar'
+import { CustomErrorPanel } from '../components/CustomErrorPanel'
 import { 
   Play, 
   Square, 
@@ -202,10 +203,12 @@ export function AkasdaoPage() {
         }))
         
         addLog({
-          level: 'success',
+          level: result.simulated ? 'info' : 'success',
           category: 'auto',
-          message: '自动silence执行成功',
-          details: `交易哈希: ${result.txHash}, DAI数量: ${balance}, 使用${config.rescueMode ? '抢救' : '普通'}模式`
+          message: result.simulated ? '🧪 模拟自动silence（未广播）' : '自动silence执行成功',
+          details: result.simulated
+            ? `交易哈希: ${result.txHash}, DAI数量: ${balance}, 预计Gas: ${result.projectedGasCost} MATIC`
+            : `交易哈希: ${result.txHash}, DAI数量: ${balance}, 使用${config.rescueMode ? '抢救' : '普通'}模式`
         })
         
         // 添加历史记录
@@ -214,7 +217,8 @@ export function AkasdaoPage() {
           gasUsed: '0', // 暂时设为0，后续可以从交易收据获取
           gasPrice: '0', // 暂时设为0，后续可以从交易收据获取
           status: 'success',
-          txHash: result.txHash
+          txHash: result.txHash,
+          projectedGasCost: result.projectedGasCost
         })
       }
       
@@ -345,10 +349,12 @@ export function AkasdaoPage() {
       const result = await akasdaoService.silence(manualAmount, gasConfig)
       
       addLog({
-        level: 'success',
+        level: result.simulated ? 'info' : 'success',
         category: 'silence',
-        message: '手动silence执行成功',
-        details: `交易哈希: ${result.txHash}, DAI数量: ${manualAmount}`
+        message: result.simulated ? '🧪 模拟手动silence（未广播）' : '手动silence执行成功',
+        details: result.simulated
+          ? `交易哈希: ${result.txHash}, DAI数量: ${manualAmount}, 预计Gas: ${result.projectedGasCost} MATIC`
+          : `交易哈希: ${result.txHash}, DAI数量: ${manualAmount}`
       })
       
       // 添加历史记录
@@ -357,7 +363,8 @@ export function AkasdaoPage() {
         gasUsed: '0', // 暂时设为0，后续可以从交易收据获取
         gasPrice: '0', // 暂时设为0，后续可以从交易收据获取
         status: 'success',
-        txHash: result.txHash
+        txHash: result.txHash,
+        projectedGasCost: result.projectedGasCost
       })
       
       // 清空输入
@@ -515,7 +522,9 @@ export function AkasdaoPage() {
         addLog({
           level: 'success',
           category: 'service',
-          message: `测试silence调用成功! 交易哈希: ${result.txHash}`
+          message: result.simulated
+            ? `🧪 测试silence模拟成功（未广播），交易哈希: ${result.txHash}, 预计Gas: ${result.projectedGasCost} MATIC`
+            : `测试silence调用成功! 交易哈希: ${result.txHash}`
         })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : '未知错误'
@@ -546,6 +555,7 @@ export function AkasdaoPage() {
     status: 'success' | 'failed'
     txHash?: string
     errorMessage?: string
+    projectedGasCost?: string // 模拟运行时有值
   }) => {
     const newRecord = {
       id: Date.now().toString(),
@@ -564,8 +574,9 @@ export function AkasdaoPage() {
         amount: record.daiAmount,
         tokenAddress: TOKEN_ADDRESSES.DAI,
         txHash: record.txHash,
-        status: 'confirmed',
-        type: 'silence'
+        status: record.projectedGasCost ? 'simulated' : 'pending', // 由交易跟踪更新确认状态
+        type: 'silence',
+        projectedGasCost: record.projectedGasCost
       })
     }
   }
@@ -871,6 +882,8 @@ export function AkasdaoPage() {
           </div>
         )}
 
+        <CustomErrorPanel />
+
         {/* 历史记录 */}
         <div className="mt-8">
           <div className="flex items-center justify-between mb-4">
@@ -951,6 +964,9 @@ export function AkasdaoPage() {
                               失败
                             </span>
                           )}
+                          {record.errorMessage && (
+                            <p className="mt-1 text-xs text-red-300 max-w-xs break-words">{record.errorMessage}</p>
+                          )}
                         </td>
                         <td className="px-4 py-3 text-sm text-gray-300">
                           {parseFloat(record.daiAmount).toFixed(6)} DAI
@@ -0,0 +1,283 @@
+import { useState } from 'react'
+import { ShieldAlert, RefreshCw, Trash2 } from 'lucide-react'
+import { useWalletStore } from '../store/useWalletStore'
+import { blockchainService, BlockchainService } from '../utils/blockchain'
+import { resolveGasPolicy } from '../utils/rescueEngine'
+import { getPrivateKey, isPrivateKeyProtected } from '../utils/encryption'
+import {
+  scanApprovals,
+  getApprovalKey,
+  isRiskyApproval,
+  TokenApproval,
+  DEFAULT_APPROVAL_SCAN_BLOCKS
+} from '../utils/approvals'
+
+const SPENDER_TYPE_LABELS: Record<TokenApproval['spenderType'], string> = {
+  eoa: '普通地址',
+  contract: '合约',
+  unverified: '未验证合约'
+}
+
+// 授权管理 - 扫描钱包的代币和NFT授权，标记高风险授权并批量撤销
+export function ApprovalsPage() {
+  const { config, walletStatus, addressBook, addLog, setError } = useWalletStore()
+  const [approvals, setApprovals] = useState<TokenApproval[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [revokeResults, setRevokeResults] = useState<Record<string, { hash: string; error?: string }>>({})
+  const [scanBlocks, setScanBlocks] = useState(DEFAULT_APPROVAL_SCAN_BLOCKS)
+  const [scanProgress, setScanProgress] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [isScanning, setIsScanning] = useState(false)
+  const [isRevoking, setIsRevoking] = useState(false)
+
+  const address = walletStatus?.address
+  const needsPassword = !config.privateKey && isPrivateKeyProtected()
+
+  const handleScan = async () => {
+    if (!address) return
+
+    try {
+      setIsScanning(true)
+      setError(null)
+      const found = await scanApprovals(blockchainService.getProvider(), address, {
+        blocks: scanBlocks,
+        knownAddresses: addressBook,
+        onProgress: setScanProgress
+      })
+      setApprovals(found)
+      setRevokeResults({})
+      // 默认选中需要关注的授权
+      setSelected(new Set(found.filter(isRiskyApproval).map(getApprovalKey)))
+
+      addLog({
+        level: found.some(isRiskyApproval) ? 'warning' : 'info',
+        category: 'security',
+        message: '授权扫描完成',
+        details: `最近 ${scanBlocks} 个区块，${found.length} 个有效授权，其中 ${found.filter(isRiskyApproval).length} 个需要关注`
+      })
+    } catch (error) {
+      setError(`授权扫描失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsScanning(false)
+      setScanProgress(null)
+    }
+  }
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleRevoke = async () => {
+    const targets = approvals.filter(approval => selected.has(getApprovalKey(approval)))
+    if (targets.length === 0) return
+
+    if (!window.confirm(`确定撤销选中的 ${targets.length} 个授权吗？\n每个授权需要一笔交易，Gas费用按当前Gas策略支付。`)) {
+      return
+    }
+
+    try {
+      setIsRevoking(true)
+      setError(null)
+
+      const privateKey = config.privateKey || getPrivateKey(password)
+      if (!privateKey) {
+        throw new Error(needsPassword ? '密码错误，无法解密私钥' : '未找到私钥，请先在配置页面导入钱包')
+      }
+
+      // 使用独立的服务实例，避免影响正在运行的监控
+      const service = new BlockchainService(blockchainService.getProvider())
+      await service.initializeWallet(privateKey)
+      const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+      const results = await service.revokeApprovals(targets, gasStrategy, customGasConfig)
+
+      const revoked = new Set<string>()
+      const nextResults: Record<string, { hash: string; error?: string }> = {}
+      targets.forEach((approval, index) => {
+        const key = getApprovalKey(approval)
+        const result = results[index]
+        nextResults[key] = { hash: result.hash, error: result.error }
+        if (result.success && !result.simulated) revoked.add(key)
+
+        addLog({
+          level: result.success ? (result.simulated ? 'info' : 'success') : 'error',
+          category: 'security',
+          message: result.simulated ? '🧪 模拟撤销授权（未广播）' : (result.success ? '撤销授权已发送' : '撤销授权失败'),
+          details: `${approval.tokenSymbol || approval.token} -> ${approval.spender}${result.hash ? `, 交易哈希: ${result.hash}` : ''}${result.error ? `, 错误: ${result.error}` : ''}`
+        })
+      })
+
+      setRevokeResults(prev => ({ ...prev, ...nextResults }))
+      setSelected(prev => new Set([...prev].filter(key => !revoked.has(key))))
+    } catch (error) {
+      setError(`撤销授权失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  const riskyCount = approvals.filter(isRiskyApproval).length
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ShieldAlert className="w-6 h-6 mr-2 text-primary-600" />
+            授权管理
+          </h2>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="1000"
+              step="10000"
+              value={scanBlocks}
+              onChange={(e) => setScanBlocks(Math.max(1000, parseInt(e.target.value) || DEFAULT_APPROVAL_SCAN_BLOCKS))}
+              className="w-32 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="扫描最近的区块数"
+            />
+            <button
+              onClick={handleScan}
+              disabled={!address || isScanning}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} />
+              {isScanning ? (scanProgress || '扫描中...') : '扫描授权'}
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          私钥泄露时攻击者通常会同时发出恶意授权。这里根据钱包发出的Approval和ApprovalForAll日志读取当前仍有效的授权，
+          无限授权、授权给普通地址、无法验证的合约以及不在地址簿中的地址会被标记
+        </p>
+
+        {!address ? (
+          <p className="text-sm text-gray-400 text-center py-8">请先在配置页面导入钱包并连接网络</p>
+        ) : approvals.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">暂无有效授权，点击扫描</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-3 text-sm">
+              <span className="text-gray-700">
+                共 {approvals.length} 个有效授权，<span className="text-red-600 font-medium">{riskyCount} 个需要关注</span>
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setSelected(new Set(approvals.filter(isRiskyApproval).map(getApprovalKey)))}
+                  className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  选中需关注
+                </button>
+                <button
+                  onClick={() => setSelected(new Set(approvals.map(getApprovalKey)))}
+                  className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  全选
+                </button>
+                <button
+                  onClick={() => setSelected(new Set())}
+                  className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  清空
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2"></th>
+                    <th className="py-2 pr-4">代币 / 合集</th>
+                    <th className="py-2 pr-4">被授权地址</th>
+                    <th className="py-2 pr-4">额度</th>
+                    <th className="py-2">风险</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {approvals.map(approval => {
+                    const key = getApprovalKey(approval)
+                    const result = revokeResults[key]
+                    return (
+                      <tr key={key} className={`border-b last:border-0 ${isRiskyApproval(approval) ? 'bg-red-50' : ''}`}>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(key)}
+                            onChange={() => toggleSelected(key)}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-2 pr-4">
+                          <p className="font-medium text-gray-900">
+                            {approval.tokenSymbol || (approval.kind === 'operator' ? 'NFT合集' : '未知代币')}
+                          </p>
+                          <p className="text-xs text-gray-500 font-mono">{approval.token}</p>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <p className="text-gray-900">{approval.spenderLabel || SPENDER_TYPE_LABELS[approval.spenderType]}</p>
+                          <p className="text-xs text-gray-500 font-mono">{approval.spender}</p>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-900">{approval.formattedAllowance}</td>
+                        <td className="py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {approval.unlimited && (
+                              <span className="px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded">
+                                {approval.kind === 'operator' ? '全部NFT' : '无限授权'}
+                              </span>
+                            )}
+                            {approval.spenderType !== 'contract' && (
+                              <span className="px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded">
+                                {SPENDER_TYPE_LABELS[approval.spenderType]}
+                              </span>
+                            )}
+                            {!approval.spenderLabel && (
+                              <span className="px-2 py-0.5 text-xs bg-yellow-100 text-yellow-800 rounded">未知地址</span>
+                            )}
+                          </div>
+                          {result && (
+                            <p className={`text-xs mt-1 ${result.error ? 'text-red-600' : 'text-green-600'}`}>
+                              {result.error ? `撤销失败: ${result.error}` : `已发送: ${result.hash.slice(0, 10)}...`}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-end gap-3 mt-4">
+              {needsPassword && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="私钥密码"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <button
+                onClick={handleRevoke}
+                disabled={isRevoking || selected.size === 0 || (needsPassword && !password)}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4" />
+                {isRevoking ? '撤销中...' : `撤销选中 (${selected.size})`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
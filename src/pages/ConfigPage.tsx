@@ -2,6 +2,14 @@ import { useState, useEffect, useCallback } from 'react'
 import { Wallet, Shield, Settings, CheckCircle, AlertCircle, Coins, Lock, Unlock, Key } from 'lucide-react'
 import { useWalletStore } from '../store/useWalletStore'
 import { blockchainService } from '../utils/blockchain'
+import { TOKEN_ADDRESSES } from '../utils/tokens'
+import { FleetWalletManager } from '../components/FleetWalletManager'
+import { RoutingRulesEditor } from '../components/RoutingRulesEditor'
+import { confirmDestination } from '../utils/addressBook'
+import { DEFAULT_CONFIRMATION_DEPTH } from '../utils/transactionTracker'
+import { pruneGasLedger } from '../utils/gasBudget'
+import { congestionTracker, recommendGasStrategy, CongestionSnapshot, PREDICTION_BLOCKS } from '../utils/congestionTracker'
+import { ethers } from 'ethers'
 import { 
   storePrivateKey, 
   getPrivateKey, 
@@ -9,13 +17,18 @@ import {
   isPrivateKeyProtected, 
   getPrivateKeyImportTime,
   clearPrivateKey,
+  storeSponsorPrivateKey,
+  hasStoredSponsorKey,
+  clearSponsorPrivateKey,
   validatePrivateKey, 
   validateAddress, 
-  formatAddress 
+  formatAddress,
+  formatPrivateKey
 } from '../utils/encryption'
 
 export function ConfigPage() {
-  const { config, setConfig, walletStatus, setWalletStatus, addLog, setError, error } = useWalletStore()
+  const { config, setConfig, walletStatus, setWalletStatus, addLog, setError, error, addAddressBookEntry, gasLedger } = useWalletStore()
+  const gasLedgerSpent = pruneGasLedger(gasLedger).reduce((sum, entry) => sum + BigInt(entry.cost), BigInt(0))
   const [privateKey, setPrivateKey] = useState('')
   const [password, setPassword] = useState('')
   const [usePassword, setUsePassword] = useState(false)
@@ -37,7 +50,14 @@ export function ConfigPage() {
   const [keyImportTime, setKeyImportTime] = useState<Date | null>(null)
   const [showSaveSuccess, setShowSaveSuccess] = useState(false)
   const [networkStatus, setNetworkStatus] = useState<'connected' | 'disconnected' | 'checking'>('checking')
+  const [newWatchToken, setNewWatchToken] = useState('')
+  const [isAddingWatchToken, setIsAddingWatchToken] = useState(false)
+  const [sponsorKey, setSponsorKey] = useState('')
+  const [hasSponsorKey, setHasSponsorKey] = useState(hasStoredSponsorKey())
+  const [congestion, setCongestion] = useState<CongestionSnapshot | null>(congestionTracker.getLatest())
 
+  // 订阅网络拥堵趋势，用于Gas策略推荐
+  useEffect(() => congestionTracker.subscribe(setCongestion), [])
 
   useEffect(() => {
     setTargetAddress(config.targetAddress)
@@ -298,6 +318,94 @@ export function ConfigPage() {
     }
   }
 
+  // 添加多资产监控代币（先验证合约可读取代币信息）
+  const handleAddWatchToken = async () => {
+    const address = newWatchToken.trim()
+    const watchTokens = config.watchTokens || []
+
+    if (!validateAddress(address)) {
+      setError('代币合约地址格式无效')
+      return
+    }
+
+    const exists = [...Object.values(TOKEN_ADDRESSES), ...watchTokens]
+      .some(tokenAddress => tokenAddress.toLowerCase() === address.toLowerCase())
+    if (exists) {
+      setError('该代币已在监控列表中')
+      return
+    }
+
+    setIsAddingWatchToken(true)
+    setError(null)
+
+    try {
+      const info = await blockchainService.getTokenInfo(address)
+      setConfig({ watchTokens: [...watchTokens, address] })
+      setNewWatchToken('')
+      addLog({
+        level: 'success',
+        category: 'system',
+        message: '已添加监控代币',
+        details: `${info.name} (${info.symbol}): ${address}`
+      })
+    } catch (error) {
+      setError('无法获取代币信息，请检查合约地址是否正确')
+      addLog({
+        level: 'error',
+        category: 'system',
+        message: '添加监控代币失败',
+        details: error instanceof Error ? error.message : '未知错误'
+      })
+    } finally {
+      setIsAddingWatchToken(false)
+    }
+  }
+
+  const handleRemoveWatchToken = (address: string) => {
+    setConfig({ watchTokens: (config.watchTokens || []).filter(tokenAddress => tokenAddress !== address) })
+  }
+
+  // 保存Gas赞助钱包私钥
+  const handleSaveSponsorKey = () => {
+    if (!validatePrivateKey(sponsorKey)) {
+      setError('赞助钱包私钥格式无效')
+      return
+    }
+
+    try {
+      const sponsorAddress = new ethers.Wallet(formatPrivateKey(sponsorKey)).address
+      if (walletStatus?.address && sponsorAddress.toLowerCase() === walletStatus.address.toLowerCase()) {
+        setError('赞助钱包不能与被监控钱包相同')
+        return
+      }
+
+      storeSponsorPrivateKey(sponsorKey)
+      setConfig({ sponsorAddress })
+      setHasSponsorKey(true)
+      setSponsorKey('')
+      setError(null)
+      addLog({
+        level: 'success',
+        category: 'security',
+        message: 'Gas赞助钱包已保存',
+        details: `赞助钱包地址: ${sponsorAddress}`
+      })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : '赞助钱包保存失败')
+    }
+  }
+
+  const handleClearSponsorKey = () => {
+    clearSponsorPrivateKey()
+    setHasSponsorKey(false)
+    setConfig({ sponsorEnabled: false, sponsorAddress: '' })
+    addLog({
+      level: 'info',
+      category: 'security',
+      message: '已清除Gas赞助钱包'
+    })
+  }
+
   const handleSaveConfig = () => {
     if (!targetAddress.trim()) {
       setError('请输入目标地址')
@@ -330,6 +438,12 @@ export function ConfigPage() {
       return
     }
 
+    // 首次使用的目标地址需要确认并加入地址簿
+    if (!confirmDestination(targetAddress, '安全钱包', addAddressBookEntry)) {
+      setError('目标地址未确认')
+      return
+    }
+
     setError(null)
     
     // 保存配置
@@ -693,6 +807,138 @@ export function ConfigPage() {
             </div>
           )}
 
+          {/* 分账路由 */}
+          <RoutingRulesEditor />
+
+          {/* 多资产转移 */}
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={config.multiAssetSweep || false}
+                onChange={(e) => setConfig({ multiAssetSweep: e.target.checked })}
+                className="w-4 h-4 text-green-600 bg-gray-100 border-gray-300 rounded focus:ring-green-500"
+              />
+              <div>
+                <span className="text-sm font-medium text-green-800">多资产全量转移</span>
+                <p className="text-xs text-green-600">
+                  每个区块检查监控列表中的所有代币，按价值从高到低全部转移，MATIC保留作为Gas最后转移（启用后忽略上方转账类型）
+                </p>
+              </div>
+            </label>
+
+            {config.multiAssetSweep && (
+              <div className="mt-3 space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(TOKEN_ADDRESSES).map(([symbol, address]) => (
+                    <span key={address} className="px-2 py-1 text-xs bg-green-100 text-green-800 rounded" title={address}>
+                      {symbol}
+                    </span>
+                  ))}
+                  {(config.watchTokens || []).map(address => (
+                    <span key={address} className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-green-300 text-green-800 rounded font-mono">
+                      {address.slice(0, 6)}...{address.slice(-4)}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveWatchToken(address)}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={newWatchToken}
+                    onChange={(e) => setNewWatchToken(e.target.value)}
+                    placeholder="添加其他ERC-20代币合约地址"
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddWatchToken}
+                    disabled={isAddingWatchToken || !newWatchToken.trim()}
+                    className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isAddingWatchToken ? '验证中...' : '添加'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* 精确清零 */}
+          <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={config.preciseSweep || false}
+                onChange={(e) => setConfig({ preciseSweep: e.target.checked })}
+                className="w-4 h-4 text-teal-600 bg-gray-100 border-gray-300 rounded focus:ring-teal-500"
+              />
+              <div>
+                <span className="text-sm font-medium text-teal-800">MATIC精确清零</span>
+                <p className="text-xs text-teal-600">
+                  按下一个区块的预期基础费用加小费设置最高Gas费，转出后钱包不留余额；剩余余额仍高于Gas成本时自动再转一次。基础费用上涨时交易需等待其回落才能打包
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {/* Gas赞助钱包 */}
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={config.sponsorEnabled || false}
+                onChange={(e) => setConfig({ sponsorEnabled: e.target.checked })}
+                disabled={!hasSponsorKey}
+                className="w-4 h-4 text-yellow-600 bg-gray-100 border-gray-300 rounded focus:ring-yellow-500"
+              />
+              <div>
+                <span className="text-sm font-medium text-yellow-800">⛽ Gas赞助钱包</span>
+                <p className="text-xs text-yellow-700">
+                  被盗钱包没有MATIC时，由另一个干净钱包按估算结果精确转入Gas费，并立即广播预先签名的代币转账；代币支持EIP-2612 permit时改为被盗钱包离线签名授权，由赞助钱包提交permit和transferFrom，无需转入任何MATIC
+                </p>
+              </div>
+            </label>
+
+            <div className="mt-3">
+              {hasSponsorKey ? (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-yellow-800 font-mono">{config.sponsorAddress || '已保存赞助钱包'}</span>
+                  <button
+                    type="button"
+                    onClick={handleClearSponsorKey}
+                    className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    清除
+                  </button>
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  <input
+                    type="password"
+                    value={sponsorKey}
+                    onChange={(e) => setSponsorKey(e.target.value)}
+                    placeholder="输入赞助钱包私钥（请勿使用被盗钱包）"
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSaveSponsorKey}
+                    disabled={!sponsorKey.trim()}
+                    className="px-4 py-2 text-sm bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    保存
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               目标地址
@@ -718,6 +964,43 @@ export function ConfigPage() {
           <h2 className="text-xl font-semibold text-gray-900">监控参数设置</h2>
         </div>
         
+        {/* 模拟运行开关 */}
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={config.dryRun || false}
+              onChange={(e) => setConfig({ dryRun: e.target.checked })}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <div>
+              <span className="text-sm font-medium text-gray-800">🧪 模拟运行</span>
+              <p className="text-xs text-gray-600">
+                完整执行余额检查、预检查、Gas估算和交易签名，但不广播任何交易（包括授权交易），记录中显示预计Gas费用
+              </p>
+            </div>
+          </label>
+        </div>
+
+        {/* 交易最终确认深度 */}
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <label className="block text-sm font-medium text-gray-800 mb-1">
+            最终确认深度 (区块数)
+          </label>
+          <input
+            type="number"
+            value={config.confirmationDepth || DEFAULT_CONFIRMATION_DEPTH}
+            onChange={(e) => setConfig({ confirmationDepth: parseInt(e.target.value) || DEFAULT_CONFIRMATION_DEPTH })}
+            min="1"
+            max="1000"
+            step="1"
+            className="w-40 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-600 mt-1">
+            转账记录在达到该确认数前持续跟踪，期间发生区块重组会重新标记为待确认
+          </p>
+        </div>
+
         {/* 自动转账开关 */}
         <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
           <label className="flex items-center gap-3">
@@ -812,6 +1095,49 @@ export function ConfigPage() {
                       </p>
                     </div>
                   </div>
+                  <label className="flex items-center gap-3 mt-3">
+                    <input
+                      type="checkbox"
+                      checked={config.presignedSweep || false}
+                      onChange={(e) => setConfig({ presignedSweep: e.target.checked })}
+                      className="w-4 h-4 text-red-600 bg-gray-100 border-gray-300 rounded focus:ring-red-500"
+                    />
+                    <div>
+                      <span className="text-xs font-medium text-red-800">📝 预签名转账阶梯</span>
+                      <p className="text-xs text-red-600">
+                        nonce变化时为下一个nonce预先签好多档金额/Gas的转账，资金到账后直接广播，超出金额档位的余额随后正常转出（仅原生MATIC）
+                      </p>
+                    </div>
+                  </label>
+                  <label className="flex items-center gap-3 mt-3">
+                    <input
+                      type="checkbox"
+                      checked={config.mempoolGuard || false}
+                      onChange={(e) => setConfig({ mempoolGuard: e.target.checked })}
+                      className="w-4 h-4 text-red-600 bg-gray-100 border-gray-300 rounded focus:ring-red-500"
+                    />
+                    <div>
+                      <span className="text-xs font-medium text-red-800">🛡️ 内存池防护</span>
+                      <p className="text-xs text-red-600">
+                        监听钱包发出的待处理交易，发现不是本程序发出的转出交易时，立即用相同nonce和{config.rescueGasMultiplier}倍Gas把资金转到目标地址
+                      </p>
+                    </div>
+                  </label>
+                  {config.mempoolGuard && (
+                    <div className="mt-2 ml-7">
+                      <label className="block text-xs font-medium text-red-700 mb-1">
+                        替换交易费用上限 (Gwei)
+                      </label>
+                      <input
+                        type="number"
+                        value={config.maxReplacementFeeGwei || 500}
+                        onChange={(e) => setConfig({ maxReplacementFeeGwei: parseFloat(e.target.value) || 500 })}
+                        min="1"
+                        step="50"
+                        className="w-40 px-2 py-1 text-sm border border-red-300 rounded focus:outline-none focus:ring-1 focus:ring-red-500"
+                      />
+                    </div>
+                  )}
                   <div className="mt-2 p-2 bg-red-200 rounded text-xs text-red-800">
                     <p className="font-bold mb-1">⚠️ 疯狂抢救模式说明:</p>
                     <ul className="list-disc list-inside space-y-1">
@@ -895,6 +1221,15 @@ export function ConfigPage() {
             <p className="text-xs text-gray-500 mt-1">
               {gasStrategy === 'custom' ? '自定义模式可以设置极高Gas费来抢占交易时间' : '快速模式可以更快完成转账，但费用更高'}
             </p>
+            {congestion && (
+              <p className={`text-xs mt-1 ${congestion.trend === 'rising' ? 'text-red-600' : congestion.trend === 'falling' ? 'text-green-600' : 'text-gray-600'}`}>
+                网络拥堵 {(congestion.smoothedUtilization * 100).toFixed(0)}%，
+                基础费用{congestion.trend === 'rising' ? '上涨' : congestion.trend === 'falling' ? '下降' : '平稳'}
+                （{PREDICTION_BLOCKS}个区块后预计 {parseFloat(ethers.formatUnits(congestion.predictedBaseFees[congestion.predictedBaseFees.length - 1], 'gwei')).toFixed(1)} Gwei，
+                {congestion.changePercent > 0 ? '+' : ''}{congestion.changePercent.toFixed(1)}%），
+                推荐: {{ safe: '安全', standard: '标准', fast: '快速' }[recommendGasStrategy(congestion)]}
+              </p>
+            )}
           </div>
         </div>
         
@@ -927,7 +1262,7 @@ export function ConfigPage() {
                   <span>10x (极限)</span>
                 </div>
                 <p className="text-xs text-orange-600 mt-1">
-                  倍数越高，交易越容易被优先处理
+                  倍数作用于优先费（小费），倍数越高，交易越容易被优先处理
                 </p>
               </div>
               
@@ -962,7 +1297,7 @@ export function ConfigPage() {
                 <div>
                   <span className="text-sm font-medium text-red-800">疯狂模式</span>
                   <p className="text-xs text-red-600">
-                    启用后将使用5-10倍市场价格的极高Gas费，确保交易优先执行
+                    启用后优先费至少为市场标准的5倍，确保交易优先执行
                   </p>
                 </div>
               </label>
@@ -981,6 +1316,114 @@ export function ConfigPage() {
             )}
           </div>
         )}
+
+        {/* 卡单自动加价 */}
+        <div className="mt-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={config.feeEscalationEnabled || false}
+              onChange={(e) => setConfig({ feeEscalationEnabled: e.target.checked })}
+              className="w-4 h-4 text-orange-600 bg-gray-100 border-gray-300 rounded focus:ring-orange-500"
+            />
+            <div>
+              <span className="text-lg font-medium text-orange-800">卡单自动加价</span>
+              <p className="text-xs text-orange-700">
+                转账、AkasaDAO Silence和活期质押广播后长时间未上链时，用相同nonce和更高费用自动重新广播
+              </p>
+            </div>
+          </label>
+          {config.feeEscalationEnabled && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">每次加价 (%)</label>
+                <input
+                  type="number"
+                  value={config.feeEscalationPercent || 25}
+                  onChange={(e) => setConfig({ feeEscalationPercent: parseFloat(e.target.value) || 25 })}
+                  min="10"
+                  step="5"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">节点要求替换交易至少加价10%</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">加价间隔 (区块)</label>
+                <input
+                  type="number"
+                  value={config.feeEscalationBlocks || 2}
+                  onChange={(e) => setConfig({ feeEscalationBlocks: parseInt(e.target.value) || 2 })}
+                  min="1"
+                  step="1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">费用上限 (Gwei)</label>
+                <input
+                  type="number"
+                  value={config.feeEscalationMaxGwei || 300}
+                  onChange={(e) => setConfig({ feeEscalationMaxGwei: parseFloat(e.target.value) || 300 })}
+                  min="1"
+                  step="50"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">达到上限后停止加价，同时受下方Gas支出上限约束</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Gas支出上限 */}
+        <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <h3 className="text-lg font-medium text-amber-800 mb-1">Gas支出上限</h3>
+          <p className="text-xs text-amber-700 mb-4">
+            对普通转账、抢救模式和AkasaDAO silence同样生效，超出上限的交易不会发送并记录到安全日志。留空或0表示不限制
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">单笔最高Gas价格 (Gwei)</label>
+              <input
+                type="number"
+                value={config.maxGasPriceGwei || ''}
+                onChange={(e) => setConfig({ maxGasPriceGwei: parseFloat(e.target.value) || 0 })}
+                placeholder="不限制"
+                min="0"
+                step="50"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Gas费用占转出金额上限 (%)</label>
+              <input
+                type="number"
+                value={config.maxGasCostPercent || ''}
+                onChange={(e) => setConfig({ maxGasCostPercent: parseFloat(e.target.value) || 0 })}
+                placeholder="不限制"
+                min="0"
+                max="100"
+                step="1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">仅检查原生MATIC转账；代币、NFT和合约调用无法按MATIC计价，只受单笔价格和每日预算限制</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">每日Gas预算 (MATIC)</label>
+              <input
+                type="number"
+                value={config.dailyGasBudget || ''}
+                onChange={(e) => setConfig({ dailyGasBudget: e.target.value })}
+                placeholder="不限制"
+                min="0"
+                step="0.1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                最近24小时已支出 {ethers.formatEther(gasLedgerSpent)} MATIC（按费用上限计）
+              </p>
+            </div>
+          </div>
+        </div>
         
         <div className="mt-6">
           <div className="flex items-center gap-3">
@@ -1004,6 +1447,9 @@ export function ConfigPage() {
           </div>
         </div>
       </div>
+
+      {/* 多钱包监控 */}
+      <FleetWalletManager />
     </div>
   )
 }
\ No newline at end of file
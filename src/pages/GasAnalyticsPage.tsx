@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react'
+import { Fuel, AlertTriangle } from 'lucide-react'
+import { ethers } from 'ethers'
+import { useWalletStore, TransferRecord } from '../store/useWalletStore'
+import { analyzeGasSpend, GasBreakdownRow } from '../utils/gasAnalytics'
+
+const TYPE_LABELS: Record<TransferRecord['type'], string> = {
+  auto: '自动转账',
+  manual: '手动转账',
+  deposit: '存入',
+  withdraw: '提取',
+  vortex: '涡旋',
+  silence: 'Silence',
+  demand: '活期质押',
+  sponsor: 'Gas赞助',
+  cancel: '取消交易',
+  permit: 'Permit免Gas'
+}
+
+const STRATEGY_LABELS: Record<string, string> = {
+  safe: '安全',
+  standard: '标准',
+  fast: '快速',
+  custom: '自定义',
+  rescue: '抢救模式',
+  network: '节点默认',
+  unknown: '未记录'
+}
+
+const RANGE_OPTIONS = [
+  { days: 1, label: '最近24小时' },
+  { days: 7, label: '最近7天' },
+  { days: 30, label: '最近30天' },
+  { days: 0, label: '全部' }
+]
+
+function formatMatic(value: bigint): string {
+  return parseFloat(ethers.formatEther(value)).toFixed(6)
+}
+
+function BreakdownTable({ title, rows, total, label }: {
+  title: string
+  rows: GasBreakdownRow[]
+  total: bigint
+  label: (key: string) => string
+}) {
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">暂无数据</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-2 font-medium">分类</th>
+              <th className="py-2 pr-2 font-medium text-right">交易数</th>
+              <th className="py-2 pr-2 font-medium text-right">Gas (MATIC)</th>
+              <th className="py-2 font-medium text-right">占比</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-b last:border-0">
+                <td className="py-2 pr-2 text-gray-900">{label(row.key)}</td>
+                <td className="py-2 pr-2 text-right text-gray-700">{row.count}</td>
+                <td className="py-2 pr-2 text-right font-mono text-gray-700">{formatMatic(row.gasCost)}</td>
+                <td className="py-2 text-right text-gray-500">
+                  {total > BigInt(0) ? `${(Number(row.gasCost * BigInt(1000) / total) / 10).toFixed(1)}%` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+// Gas分析 - 按转账记录中的实际Gas用量和价格统计支出，与转出的MATIC对比
+export function GasAnalyticsPage() {
+  const { transferRecords } = useWalletStore()
+  const [rangeDays, setRangeDays] = useState(7)
+
+  const analytics = useMemo(() => {
+    const since = rangeDays > 0 ? Date.now() - rangeDays * 24 * 60 * 60 * 1000 : 0
+    return analyzeGasSpend(transferRecords.filter(record => new Date(record.timestamp).getTime() >= since))
+  }, [transferRecords, rangeDays])
+
+  const awaitingReceipts = transferRecords.filter(record => record.status === 'pending').length
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Fuel className="w-6 h-6 mr-2 text-primary-600" />
+            Gas分析
+          </h2>
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(parseInt(e.target.value))}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          统计已上链交易的实际Gas费用（Gas用量 × 实际Gas价格），包括执行失败的交易。
+          转出金额只计算成功的MATIC转账，代币和NFT无法按MATIC计价。
+          {awaitingReceipts > 0 && ` 另有 ${awaitingReceipts} 笔交易等待确认，尚未计入。`}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-500">Gas总支出</p>
+            <p className="text-xl font-bold text-gray-900 font-mono">{formatMatic(analytics.totalGasCost)}</p>
+            <p className="text-xs text-gray-500">MATIC · {analytics.transactions} 笔交易</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-500">成功转出</p>
+            <p className="text-xl font-bold text-green-700 font-mono">{formatMatic(analytics.movedNative)}</p>
+            <p className="text-xs text-gray-500">
+              MATIC{analytics.movedNative > BigInt(0) && ` · Gas占 ${(Number(analytics.totalGasCost * BigInt(10000) / analytics.movedNative) / 100).toFixed(2)}%`}
+            </p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-500">平均超出基础费用</p>
+            <p className="text-xl font-bold text-gray-900">
+              {analytics.overpay.averageGwei.toFixed(2)} <span className="text-sm font-normal">Gwei</span>
+            </p>
+            <p className="text-xs text-gray-500">
+              +{analytics.overpay.averagePercent.toFixed(1)}% · 共 {formatMatic(analytics.overpay.totalCost)} MATIC（{analytics.overpay.samples} 笔）
+            </p>
+          </div>
+          <div className={`p-4 rounded-lg ${analytics.flaggedSweeps.length > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+            <p className="text-sm text-gray-500">Gas高于转出金额</p>
+            <p className={`text-xl font-bold ${analytics.flaggedSweeps.length > 0 ? 'text-red-700' : 'text-gray-900'}`}>
+              {analytics.flaggedSweeps.length}
+            </p>
+            <p className="text-xs text-gray-500">笔MATIC转账</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <BreakdownTable
+          title="按类型"
+          rows={analytics.byType}
+          total={analytics.totalGasCost}
+          label={(key) => TYPE_LABELS[key as TransferRecord['type']] || key}
+        />
+        <BreakdownTable
+          title="按Gas策略"
+          rows={analytics.byStrategy}
+          total={analytics.totalGasCost}
+          label={(key) => STRATEGY_LABELS[key] || key}
+        />
+        <BreakdownTable
+          title="按日期"
+          rows={analytics.byDay}
+          total={analytics.totalGasCost}
+          label={(key) => key}
+        />
+      </div>
+
+      {analytics.flaggedSweeps.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h3 className="text-lg font-semibold text-red-700 mb-4 flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            Gas费用高于转出金额的转账
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2 font-medium">时间</th>
+                <th className="py-2 pr-2 font-medium">类型</th>
+                <th className="py-2 pr-2 font-medium text-right">转出 (MATIC)</th>
+                <th className="py-2 pr-2 font-medium text-right">Gas (MATIC)</th>
+                <th className="py-2 font-medium">交易</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.flaggedSweeps.map(({ record, gasCost, value }) => (
+                <tr key={record.id} className="border-b last:border-0 bg-red-50">
+                  <td className="py-2 pr-2 text-gray-700">{new Date(record.timestamp).toLocaleString('zh-CN')}</td>
+                  <td className="py-2 pr-2 text-gray-700">
+                    {TYPE_LABELS[record.type]}{record.status === 'failed' && '（执行失败）'}
+                  </td>
+                  <td className="py-2 pr-2 text-right font-mono text-gray-700">{formatMatic(value)}</td>
+                  <td className="py-2 pr-2 text-right font-mono text-red-700">{formatMatic(gasCost)}</td>
+                  <td className="py-2">
+                    <a
+                      href={`https://polygonscan.com/tx/${record.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-500 hover:text-blue-700 font-mono"
+                    >
+                      {record.txHash.slice(0, 10)}...
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
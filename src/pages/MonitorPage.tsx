@@ -1,13 +1,168 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Activity, Play, Pause, AlertTriangle, Wallet, ArrowRight, RefreshCw, Lock, TrendingUp, X } from 'lucide-react'
-import { useWalletStore } from '../store/useWalletStore'
-import { blockchainService } from '../utils/blockchain'
-import { getPrivateKey, hasStoredPrivateKey, isPrivateKeyProtected } from '../utils/encryption'
+import { ethers } from 'ethers'
+import { Activity, Play, Pause, AlertTriangle, Wallet, ArrowRight, RefreshCw, Lock, TrendingUp, X, FlaskConical, Zap, Ban } from 'lucide-react'
+import { useWalletStore, TransferRecord } from '../store/useWalletStore'
+import { blockchainService, BlockchainService } from '../utils/blockchain'
+import { getPrivateKey, getSponsorPrivateKey, getFleetPrivateKey, hasStoredPrivateKey, isPrivateKeyProtected } from '../utils/encryption'
 import { AkasaDAOService } from '../utils/akasdao'
 import { TOKEN_ADDRESSES } from '../utils/tokens'
 import { validateContractAddress } from '../utils/contractValidation'
-import { TransactionVerifier } from '../utils/transactionVerifier'
 import { rpcOptimizer } from '../utils/rpcOptimizer'
+import { rescueEngine, RescueEngineEvent } from '../utils/rescueEngine'
+import { rescueFleet, RescueFleetEvent } from '../utils/rescueFleet'
+import { DEFAULT_CONFIRMATION_DEPTH } from '../utils/transactionTracker'
+import { NftRescuePanel } from '../components/NftRescuePanel'
+
+let unsubscribeRescueEngine: (() => void) | null = null
+
+// 将抢救引擎事件写入store，页面卸载后引擎仍可继续记录
+function handleRescueEngineEvent(event: RescueEngineEvent) {
+  const { addLog, addTransferRecord, setWalletStatus } = useWalletStore.getState()
+
+  switch (event.type) {
+    case 'balance':
+      setWalletStatus({
+        address: event.address,
+        balance: event.balance,
+        isConnected: true,
+        lastChecked: new Date(),
+        tokenInfo: event.tokenInfo
+      })
+      break
+    case 'sweep': {
+      const { record } = event
+      const isSilence = record.type === 'silence'
+      // 交易状态由后台交易跟踪更新
+      addTransferRecord(record)
+
+      if (record.status === 'simulated') {
+        addLog({
+          level: 'info',
+          category: isSilence ? 'transaction' : 'transfer',
+          message: record.type === 'sponsor'
+            ? '🧪 模拟Gas赞助（未广播）'
+            : record.type === 'permit'
+              ? '🧪 模拟Permit免Gas转移（未广播）'
+              : (isSilence ? '🧪 模拟AkasaDAO Silence（未广播）' : '🧪 模拟转账（未广播）'),
+          details: `区块 ${event.blockNumber}: ${record.amount} ${record.tokenSymbol || 'MATIC'} 到 ${record.toAddress}, 预计Gas: ${record.projectedGasCost} MATIC, 交易哈希: ${record.txHash}`
+        })
+        break
+      }
+
+      if (record.type === 'sponsor') {
+        addLog({
+          level: record.status === 'failed' ? 'error' : 'success',
+          category: 'transfer',
+          message: record.status === 'failed' ? 'Gas赞助发送失败' : 'Gas赞助已发送',
+          details: record.status === 'failed'
+            ? record.error || '未知错误'
+            : `区块 ${event.blockNumber}: 赞助钱包 ${record.fromAddress} 转入 ${record.amount} MATIC, 交易哈希: ${record.txHash}, 关联转账: ${record.linkedRecordId}`
+        })
+        break
+      }
+
+      if (record.type === 'permit') {
+        addLog({
+          level: record.status === 'failed' ? 'error' : 'success',
+          category: 'transfer',
+          message: record.status === 'failed' ? 'Permit免Gas转移失败' : 'Permit免Gas转移已提交',
+          details: record.status === 'failed'
+            ? record.error || '未知错误'
+            : `区块 ${event.blockNumber}: 赞助钱包提交permit和transferFrom，转移 ${record.amount} ${record.tokenSymbol} 到 ${record.toAddress}, 交易哈希: ${record.txHash}`
+        })
+        break
+      }
+
+      addLog({
+        level: record.status === 'failed' ? 'error' : 'success',
+        category: isSilence ? 'transaction' : 'transfer',
+        message: isSilence
+          ? (record.status === 'failed' ? 'AkasaDAO Silence自动调用失败' : 'AkasaDAO Silence自动调用成功')
+          : (record.status === 'failed' ? '自动转账失败' : '自动转账成功'),
+        details: record.status === 'failed'
+          ? record.error || '未知错误'
+          : `区块 ${event.blockNumber}: 转账 ${record.amount} ${record.tokenSymbol} 到 ${record.toAddress}, 交易哈希: ${record.txHash}`
+      })
+      break
+    }
+    case 'replacement': {
+      const target = `nonce ${event.nonce}, 攻击交易: ${event.attackerHash}`
+      const outcomes = {
+        sent: { level: 'warning', message: '🛡️ 检测到攻击交易，已发送替换交易' },
+        failed: { level: 'error', message: '替换交易发送失败' },
+        won: { level: 'success', message: '替换交易抢先上链' },
+        lost: { level: 'error', message: '替换交易未能抢先' }
+      } as const
+      addLog({
+        level: outcomes[event.status].level,
+        category: 'security',
+        message: outcomes[event.status].message,
+        details: [target, event.hash && `替换交易: ${event.hash}`, event.message].filter(Boolean).join(', ')
+      })
+      break
+    }
+    case 'skipped':
+      addLog({
+        level: 'info',
+        category: 'monitoring',
+        message: '跳过自动转账',
+        details: `区块 ${event.blockNumber}: ${event.reason}`
+      })
+      break
+    case 'error':
+      addLog({
+        level: 'error',
+        category: 'monitoring',
+        message: '监控检查失败',
+        details: event.blockNumber ? `区块 ${event.blockNumber}: ${event.message}` : event.message
+      })
+      break
+    case 'stopped':
+      unsubscribeRescueEngine?.()
+      unsubscribeRescueEngine = null
+      break
+  }
+}
+
+let unsubscribeRescueFleet: (() => void) | null = null
+
+// 多钱包监控事件：余额写入各钱包状态，其余沿用单钱包的记录和日志处理
+function handleRescueFleetEvent(event: RescueFleetEvent) {
+  const { fleetWallets, setFleetWalletStatus, addLog } = useWalletStore.getState()
+  const label = fleetWallets.find(wallet => wallet.id === event.walletId)?.label || event.walletId
+
+  switch (event.type) {
+    case 'balance':
+      setFleetWalletStatus(event.walletId, {
+        balance: event.balance,
+        tokenSymbol: event.tokenInfo?.symbol || 'MATIC',
+        blockNumber: event.blockNumber,
+        lastChecked: new Date(),
+        error: null
+      })
+      break
+    case 'sweep':
+      setFleetWalletStatus(event.walletId, {
+        lastEvent: `${event.record.status === 'failed' ? '转账失败' : (event.record.status === 'simulated' ? '模拟转账' : '已转账')} ${event.record.amount} ${event.record.tokenSymbol || 'MATIC'}`
+      })
+      handleRescueEngineEvent(event)
+      break
+    case 'error':
+      setFleetWalletStatus(event.walletId, { error: event.message })
+      addLog({
+        level: 'error',
+        category: 'monitoring',
+        message: `[${label}] 监控检查失败`,
+        details: event.blockNumber ? `区块 ${event.blockNumber}: ${event.message}` : event.message
+      })
+      break
+    case 'started':
+    case 'stopped':
+      break
+    default:
+      handleRescueEngineEvent(event)
+  }
+}
 
 export function MonitorPage() {
   const {
@@ -15,12 +170,15 @@ export function MonitorPage() {
     walletStatus,
     isMonitoring,
     transferRecords,
+    fleetWallets,
+    fleetStatus,
+    isFleetMonitoring,
+    setFleetMonitoring,
     addLog,
     setWalletStatus,
     setMonitoring,
     addTransferRecord,
     updateTransferRecord,
-    setError,
     setConfig,
     clearWalletStatus
   } = useWalletStore()
@@ -28,7 +186,6 @@ export function MonitorPage() {
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [isTransferring, setIsTransferring] = useState(false)
   const [error, setLocalError] = useState<string | null>(null)
-  const [monitoringInterval, setMonitoringInterval] = useState<NodeJS.Timeout | null>(null)
   const [isPageLoading, setIsPageLoading] = useState(true)
   const [password, setPassword] = useState('')
   const [showPasswordInput, setShowPasswordInput] = useState(false)
@@ -37,6 +194,8 @@ export function MonitorPage() {
   const [networkStatus, setNetworkStatus] = useState<'connected' | 'disconnected' | 'checking'>('checking')
   const [akasdaoService, setAkasdaoService] = useState<AkasaDAOService | null>(null)
   const [daiBalance, setDaiBalance] = useState('0')
+  const [recordWalletFilter, setRecordWalletFilter] = useState('all')
+  const [replacingRecordId, setReplacingRecordId] = useState<string | null>(null)
 
   const [contractValidationStatus, setContractValidationStatus] = useState<{
     isValid: boolean
@@ -48,7 +207,6 @@ export function MonitorPage() {
     error?: string
   } | null>(null)
   const [isCheckingContractStatus, setIsCheckingContractStatus] = useState(false)
-  const [transactionVerifier, setTransactionVerifier] = useState<TransactionVerifier | null>(null)
 
   // 页面加载时检查私钥保护状态
   useEffect(() => {
@@ -88,51 +246,11 @@ export function MonitorPage() {
         }
       }
       
-      // 初始化交易验证器
-      setTransactionVerifier(new TransactionVerifier(provider))
     }
 
     initializeServices()
   }, [config.isConfigured, config.privateKey, addLog])
 
-  // 验证转账记录状态
-  const verifyTransferRecord = useCallback(async (recordId: string, txHash: string) => {
-    if (!transactionVerifier) return
-    
-    try {
-      const status = await transactionVerifier.verifyTransaction(txHash)
-      
-      // 更新转账记录状态
-      if (status.isConfirmed) {
-        updateTransferRecord(recordId, {
-          status: 'confirmed',
-          error: null
-        })
-        
-        addLog({
-          level: 'success',
-          category: 'transaction',
-          message: '交易确认成功',
-          details: `交易哈希: ${txHash}, 区块: ${status.blockNumber}`
-        })
-      } else if (status.isFailed) {
-        updateTransferRecord(recordId, {
-          status: 'failed',
-          error: status.error || '交易失败'
-        })
-        
-        addLog({
-          level: 'error',
-          category: 'transaction',
-          message: '交易失败',
-          details: `交易哈希: ${txHash}, 错误: ${status.error}`
-        })
-      }
-    } catch (error) {
-      console.error('验证交易状态失败:', error)
-    }
-  }, [transactionVerifier, updateTransferRecord, addLog])
-
   // 页面加载时自动恢复已存储的私钥（仅在配置完成时执行一次）
   useEffect(() => {
     const autoRestoreWallet = async () => {
@@ -644,24 +762,23 @@ export function MonitorPage() {
         tokenAddress,
         targetAddress: config.targetAddress,
         txHash: result.txHash,
-        status: result.success ? 'pending' : 'failed',
+        status: result.simulated ? 'simulated' : (result.success ? 'pending' : 'failed'),
         timestamp: new Date(),
         type: 'manual',
+        projectedGasCost: result.simulated ? ethers.formatEther(result.projectedGasCost ?? BigInt(0)) : undefined,
+        nonce: result.simulated ? undefined : result.nonce,
+        gasPrice: result.gasPrice?.toString(),
+        maxFeePerGas: result.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: result.maxPriorityFeePerGas?.toString(),
+        gasUsed: result.gasUsed?.toString(),
+        effectiveGasPrice: result.effectiveGasPrice?.toString(),
         error: result.error || null
       })
 
-      // 如果交易成功，验证交易状态
-      if (result.success && result.txHash) {
-        // 延迟验证，给交易一些时间上链
-        setTimeout(() => {
-          verifyTransferRecord(recordId, result.txHash)
-        }, 5000) // 5秒后验证
-      }
-
       addLog({
         level: 'info',
         category: 'transfer',
-        message: '手动转账成功',
+        message: result.simulated ? '🧪 模拟手动转账（未广播）' : '手动转账成功',
         details: `转账 ${currentBalance} ${tokenSymbol} 到 ${config.targetAddress}`
       })
 
@@ -682,6 +799,117 @@ export function MonitorPage() {
     }
   }, [config, addTransferRecord, addLog]) // 移除 walletStatus 依赖
 
+  // 按发送地址找到转账记录对应钱包的私钥（主钱包、Gas赞助钱包或多钱包监控中的钱包）
+  const getRecordPrivateKey = (fromAddress: string): string | null => {
+    const address = fromAddress.toLowerCase()
+    if (config.sponsorEnabled && config.sponsorAddress?.toLowerCase() === address) {
+      return getSponsorPrivateKey()
+    }
+
+    const fleetWallet = fleetWallets.find(wallet => wallet.address.toLowerCase() === address)
+    if (fleetWallet) {
+      return getFleetPrivateKey(fleetWallet.id)
+    }
+
+    return getStoredPrivateKey()
+  }
+
+  // 加速或取消待确认的转账：使用记录中的nonce，费用比原交易至少高10%
+  const handleReplaceTransfer = async (record: TransferRecord, mode: 'speedup' | 'cancel') => {
+    if (record.nonce === undefined) return
+
+    const action = mode === 'speedup' ? '加速' : '取消'
+    if (mode === 'cancel' && !window.confirm(`确定取消这笔转账吗？\n将以相同nonce (${record.nonce}) 发送一笔0金额的自转账覆盖原交易。`)) {
+      return
+    }
+
+    try {
+      setReplacingRecordId(record.id)
+      setLocalError(null)
+
+      const privateKey = getRecordPrivateKey(record.fromAddress)
+      if (!privateKey) {
+        throw new Error('未找到发送钱包的私钥')
+      }
+
+      // 使用独立的服务实例，避免切换正在监控的钱包
+      const service = new BlockchainService(blockchainService.getProvider())
+      const address = await service.initializeWallet(privateKey)
+      if (address.toLowerCase() !== record.fromAddress.toLowerCase()) {
+        throw new Error('私钥与转账记录的发送地址不匹配')
+      }
+
+      const result = await service.replaceTransaction({
+        hash: record.txHash,
+        nonce: record.nonce,
+        toAddress: record.toAddress,
+        amount: record.amount,
+        tokenAddress: record.tokenAddress,
+        nftTokenIds: record.nftTokenIds,
+        gasPrice: record.gasPrice ? BigInt(record.gasPrice) : undefined,
+        maxFeePerGas: record.maxFeePerGas ? BigInt(record.maxFeePerGas) : undefined,
+        maxPriorityFeePerGas: record.maxPriorityFeePerGas ? BigInt(record.maxPriorityFeePerGas) : undefined
+      }, mode)
+
+      if (!result.success) {
+        throw new Error(result.error || `${action}失败`)
+      }
+
+      if (result.simulated) {
+        addLog({
+          level: 'info',
+          category: 'transaction',
+          message: `🧪 模拟${action}交易（未广播）`,
+          details: `nonce ${record.nonce}, 预计Gas: ${ethers.formatEther(result.projectedGasCost ?? BigInt(0))} MATIC`
+        })
+        return
+      }
+
+      const recordId = Date.now().toString() + Math.random().toString(36).substr(2, 5)
+      updateTransferRecord(record.id, { status: 'replaced', replacedBy: result.hash })
+      addTransferRecord({
+        id: recordId,
+        fromAddress: record.fromAddress,
+        toAddress: mode === 'cancel' ? record.fromAddress : record.toAddress,
+        targetAddress: record.targetAddress,
+        amount: mode === 'cancel' ? '0' : record.amount,
+        tokenSymbol: mode === 'cancel' ? undefined : record.tokenSymbol,
+        tokenAddress: mode === 'cancel' ? undefined : record.tokenAddress,
+        nftTokenIds: mode === 'cancel' ? undefined : record.nftTokenIds,
+        txHash: result.hash,
+        status: 'pending',
+        timestamp: new Date(),
+        type: mode === 'cancel' ? 'cancel' : record.type,
+        linkedRecordId: record.id,
+        groupId: record.groupId,
+        nonce: result.nonce,
+        gasPrice: result.gasPrice?.toString(),
+        maxFeePerGas: result.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: result.maxPriorityFeePerGas?.toString(),
+        gasStrategy: record.gasStrategy,
+        error: null
+      })
+
+      addLog({
+        level: 'success',
+        category: 'transaction',
+        message: `${action}交易已发送`,
+        details: `nonce ${record.nonce}, 原交易: ${record.txHash}, 替换交易: ${result.hash}`
+      })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : `${action}失败`
+      setLocalError(errorMessage)
+      addLog({
+        level: 'error',
+        category: 'transaction',
+        message: `${action}交易失败`,
+        details: errorMessage
+      })
+    } finally {
+      setReplacingRecordId(null)
+    }
+  }
+
   // 验证配置
   const validateConfig = useCallback(() => {
     if (!config.isConfigured) {
@@ -703,336 +931,139 @@ export function MonitorPage() {
     }
   }, [config])
 
-  // 切换监控状态
-  const handleToggleMonitoring = useCallback(() => {
-      if (isMonitoring) {
-        // 停止监控
-        if (monitoringInterval) {
-          clearInterval(monitoringInterval)
-          setMonitoringInterval(null)
-        }
-        setMonitoring(false)
-        addLog({
-          level: 'info',
-        category: 'monitoring',
-        message: '监控已停止',
-        details: '用户手动停止监控'
-        })
-      } else {
-      // 验证配置
-      try {
-        validateConfig()
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : '配置验证失败'
-        setLocalError(errorMessage)
-        addLog({
-          level: 'error',
-          category: 'monitoring',
-          message: '监控启动失败',
-          details: errorMessage
-        })
-        return
-      }
-
-      // 开始监控时强制刷新DAI余额
-      if (config.akasdaoEnabled && akasdaoService) {
-        console.log('🚀 监控启动时强制刷新DAI余额...')
-        refreshDaiBalance().catch(error => {
-          console.warn('监控启动时DAI余额刷新失败:', error)
-        })
-      }
-      
-      // 开始监控
+  // 切换监控状态 - 页面只负责启动和停止抢救引擎
+  const handleToggleMonitoring = useCallback(async () => {
+    if (isMonitoring) {
+      // 停止监控
+      rescueEngine.stop()
+      setMonitoring(false)
       addLog({
         level: 'info',
         category: 'monitoring',
-        message: '监控已启动',
-        details: `检查间隔: ${config.rescueMode ? `${config.rescueInterval}毫秒` : `${config.checkInterval || 3}秒`}`
+        message: '监控已停止',
+        details: '用户手动停止监控'
       })
-      
-      const interval = setInterval(async () => {
-        try {
-          if (!config.isConfigured) return
-
-          // 立即刷新余额，获取最新状态
-          console.log('🚀 监控检查 - 立即刷新余额...')
-          
-        addLog({
-          level: 'info',
-            category: 'monitoring',
-            message: '监控检查开始',
-            details: '立即刷新余额获取最新状态'
-        })
-
-        await refreshBalance()
-
-          const currentWalletStatus = useWalletStore.getState().walletStatus
-          const currentBalance = currentWalletStatus?.balance || '0'
-          
-          console.log(`🔍 监控检查 - 当前余额: ${currentBalance}`)
-          
-          if (!currentBalance || currentBalance === '0') {
-            console.log('⚠️ 余额为0，跳过本次检查')
-              addLog({
-                level: 'info',
-                category: 'monitoring',
-              message: '监控检查完成',
-              details: '余额为0，跳过自动转账'
-            })
-            return
-          }
+      return
+    }
 
-          // 检查是否启用了自动转账
-          if (!config.autoTransfer) {
+    // 验证配置
+    try {
+      validateConfig()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '配置验证失败'
+      setLocalError(errorMessage)
       addLog({
-              level: 'info',
+        level: 'error',
         category: 'monitoring',
-              message: '监控检查完成',
-              details: '自动转账已禁用，跳过转账'
-            })
+        message: '监控启动失败',
+        details: errorMessage
+      })
       return
     }
 
-          const balance = parseFloat(currentBalance)
-          const minAmount = parseFloat(config.minTransferAmount)
-
-          console.log(`🔍 检查余额: ${balance} >= ${minAmount} ? ${balance >= minAmount}`)
-
-          // 检查AkasaDAO Silence协议
-          if (config.akasdaoEnabled && akasdaoService) {
-            try {
-              console.log('🔍 检查AkasaDAO Silence协议...')
-              
-              // 强制刷新DAI余额，确保获取最新数据
-              await refreshDaiBalance()
-              
-              // 获取最新的DAI余额状态
-              const daiBalanceNum = parseFloat(daiBalance)
-              const akasdaoMinAmount = parseFloat(config.akasdaoMinAmount || '0')
-              
-              console.log(`🔍 检查DAI余额: ${daiBalanceNum} >= ${akasdaoMinAmount} ? ${daiBalanceNum >= akasdaoMinAmount}`)
-              
-              if (daiBalanceNum >= akasdaoMinAmount) {
-                console.log('🚀 执行AkasaDAO Silence调用...')
-                
-                const privateKey = getStoredPrivateKey()
+    try {
+      const privateKey = getStoredPrivateKey()
       if (!privateKey) {
         throw new Error('未找到私钥')
       }
 
-                await akasdaoService.initializeWallet(privateKey)
-                const walletAddress = akasdaoService.getWalletAddress()
-      
-                if (!walletAddress) {
-        throw new Error('无法获取钱包地址')
+      unsubscribeRescueEngine?.()
+      unsubscribeRescueEngine = rescueEngine.subscribe(handleRescueEngineEvent)
+      const sponsorPrivateKey = config.sponsorEnabled ? getSponsorPrivateKey() : null
+      if (config.sponsorEnabled && !sponsorPrivateKey) {
+        throw new Error('已启用Gas赞助，但未找到赞助钱包私钥')
       }
 
-                // 调用Silence函数，传递gas配置
-                const gasConfig = {
-                  gasLimit: config.gasLimit,
-                  gasStrategy: config.gasStrategy,
-                  gasMultiplier: config.gasMultiplier,
-                  rescueMode: config.rescueMode,
-                  rescueGasMultiplier: config.rescueGasMultiplier
-                }
-                // 使用最新刷新的DAI余额
-                const result = await akasdaoService.silence(daiBalance, gasConfig)
-
-                // 添加转账记录 - AkasaDAO silence调用成功
-                addTransferRecord({
-                  id: Date.now().toString(),
-                  fromAddress: walletAddress,
-                  toAddress: 'AkasaDAO Turbine',
-                  amount: daiBalance,
-                  tokenAddress: TOKEN_ADDRESSES.DAI,
-                  tokenSymbol: 'DAI',
-                  txHash: result.txHash,
-                  status: 'confirmed',
-                  timestamp: new Date(),
-                  type: 'silence',
-                  error: null
-                })
-
-                addLog({
-                  level: 'success',
-                  category: 'transaction',
-                  message: 'AkasaDAO Silence自动调用成功',
-                  details: `金额: ${daiBalance} DAI, 交易哈希: ${result.txHash}`
-                })
-
-                // 刷新DAI余额
-                await refreshDaiBalance()
-              }
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : 'AkasaDAO Silence调用失败'
-              addLog({
-                level: 'error',
-                category: 'transaction',
-                message: 'AkasaDAO Silence自动调用失败',
-                details: errorMessage
-              })
-            }
-          }
-
-          // 检查是否需要执行自动转账
-          if (balance >= minAmount) {
-            // 立即执行自动转账
-        addLog({
-              level: 'success',
-              category: 'monitoring',
-              message: '🚀 立即触发自动转账',
-              details: `余额 ${balance} >= 最小金额 ${minAmount}，立即执行转账`
-            })
-            
-            const privateKey = getStoredPrivateKey()
-            if (!privateKey) {
-              throw new Error('未找到私钥')
-            }
-
-            await blockchainService.initializeWallet(privateKey)
-            
-            let result: any
-            let tokenSymbol = 'MATIC'
-            let tokenAddress = undefined
-
-            // 根据配置决定转账类型
-            if (config.transferType === 'token' && config.tokenAddress) {
-              // ERC20代币转账
-              result = await blockchainService.transferToken(
-          config.tokenAddress,
-          config.targetAddress,
-                currentBalance,
-                privateKey,
-                config.rescueMode ? 'custom' : config.gasStrategy,
-                config.rescueMode ? {
-                  gasMultiplier: config.rescueGasMultiplier,
-                  crazyMode: true
-                } : (config.gasStrategy === 'custom' ? {
-                  gasMultiplier: config.gasMultiplier || 1,
-                  crazyMode: config.crazyMode || false
-                } : undefined)
-              )
-              tokenSymbol = currentWalletStatus?.tokenInfo?.symbol || 'TOKEN'
-              tokenAddress = config.tokenAddress
-      } else {
-              // 原生代币转账
-              result = await blockchainService.transfer(
-                config.targetAddress,
-                currentBalance,
-                privateKey,
-                config.rescueMode ? 'custom' : config.gasStrategy,
-                config.rescueMode ? {
-                  gasMultiplier: config.rescueGasMultiplier,
-                  crazyMode: true
-                } : (config.gasStrategy === 'custom' ? {
-          gasMultiplier: config.gasMultiplier || 1,
-          crazyMode: config.crazyMode || false
-                } : undefined)
-              )
-            }
-
-            // 记录转账 - 先设置为pending状态
-            const recordId = Date.now().toString()
-      addTransferRecord({
-              id: recordId,
-              fromAddress: currentWalletStatus?.address || '',
-        toAddress: config.targetAddress,
-              amount: currentBalance,
-              tokenSymbol,
-              tokenAddress,
-              targetAddress: config.targetAddress,
-              txHash: result.txHash,
-              status: result.success ? 'pending' : 'failed',
-        timestamp: new Date(),
-              type: 'auto',
-              error: result.error || null
-            })
+      await rescueEngine.start({ config, privateKey, akasdaoService, sponsorPrivateKey })
+      setMonitoring(true)
 
-            // 如果交易成功，验证交易状态
-            if (result.success && result.txHash) {
-              // 延迟验证，给交易一些时间上链
-              setTimeout(() => {
-                verifyTransferRecord(recordId, result.txHash)
-              }, 5000) // 5秒后验证
-            }
+      // 计算实际使用的Gas倍数
+      const actualGasMultiplier = config.rescueMode 
+        ? config.rescueGasMultiplier 
+        : (config.gasStrategy === 'custom' ? (config.gasMultiplier || 1) : 1)
 
       addLog({
-              level: 'info',
-        category: 'transfer',
-              message: '自动转账成功',
-              details: `转账 ${currentBalance} ${tokenSymbol} 到 ${config.targetAddress}`
+        level: 'info',
+        category: 'monitoring',
+        message: `${config.rescueMode ? '🚨 疯狂抢救模式已启动' : '⚡ 极速监控已启动'}${config.dryRun ? '（模拟运行）' : ''}`,
+        details: config.rescueMode 
+          ? `区块轮询间隔: ${config.rescueInterval}毫秒, Gas倍数: ${config.rescueGasMultiplier}倍, 最小转账金额: ${config.minTransferAmount}`
+          : `区块轮询间隔: ${Math.max(100, (config.checkInterval || 0.5) * 1000)}毫秒, Gas倍数: ${actualGasMultiplier}倍, 最小转账金额: ${config.minTransferAmount}`
       })
-
-      // 刷新余额
-      await refreshBalance()
-            
-            addLog({
-              level: 'success',
-              category: 'monitoring',
-              message: '自动转账完成',
-              details: `转账 ${currentBalance} ${tokenSymbol} 到 ${config.targetAddress}`
-            })
-            
-            // 转账完成后立即再次检查余额，确保没有遗漏
-            setTimeout(async () => {
-              try {
-                console.log('🔄 转账完成后立即再次检查余额...')
-                await refreshBalance()
-                const newWalletStatus = useWalletStore.getState().walletStatus
-                const newBalance = parseFloat(newWalletStatus?.balance || '0')
-                
-                if (newBalance >= minAmount) {
-                  addLog({
-                    level: 'warning',
-                    category: 'monitoring',
-                    message: '检测到仍有余额',
-                    details: `转账后余额: ${newBalance}，可能还有待转账的金额`
-                  })
-                }
     } catch (error) {
-                console.warn('转账后余额检查失败:', error)
-              }
-            }, 2000) // 2秒后立即检查
-          } else {
-            // 余额不足，不执行转账
-            addLog({
-              level: 'info',
-              category: 'monitoring',
-              message: '监控检查完成',
-              details: `余额 ${balance} < 最小金额 ${minAmount}，跳过自动转账`
-            })
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : '自动转账失败'
-          setError(errorMessage)
-          
+      unsubscribeRescueEngine?.()
+      unsubscribeRescueEngine = null
+      const errorMessage = error instanceof Error ? error.message : '监控启动失败'
+      setLocalError(errorMessage)
       addLog({
         level: 'error',
-        category: 'transfer',
-            message: '自动转账失败',
+        category: 'monitoring',
+        message: '监控启动失败',
         details: errorMessage
       })
-        }
-      }, config.rescueMode ? config.rescueInterval : Math.max(100, (config.checkInterval || 0.5) * 1000)) // 使用配置的检查间隔，最小100毫秒
+    }
+  }, [isMonitoring, config, akasdaoService, validateConfig, setMonitoring, addLog])
+
+  // 切换多钱包监控
+  const handleToggleFleetMonitoring = useCallback(async () => {
+    if (isFleetMonitoring) {
+      rescueFleet.stop()
+      unsubscribeRescueFleet?.()
+      unsubscribeRescueFleet = null
+      setFleetMonitoring(false)
+      return
+    }
 
-      setMonitoringInterval(interval)
-      setMonitoring(true)
-      
-      // 计算实际使用的Gas倍数
-      const actualGasMultiplier = config.rescueMode 
-        ? config.rescueGasMultiplier 
-        : (config.gasStrategy === 'custom' ? (config.gasMultiplier || 1) : 1)
-      
+    const members = fleetWallets
+      .filter(wallet => wallet.enabled)
+      .map(wallet => ({ wallet, privateKey: getFleetPrivateKey(wallet.id) }))
+
+    const missingKeys = members.filter(member => !member.privateKey)
+    if (missingKeys.length > 0) {
+      setLocalError(`未找到以下钱包的私钥: ${missingKeys.map(member => member.wallet.label).join(', ')}`)
+      return
+    }
+
+    if (members.length === 0) {
+      setLocalError('没有启用的监控钱包')
+      return
+    }
+
+    unsubscribeRescueFleet?.()
+    unsubscribeRescueFleet = rescueFleet.subscribe(handleRescueFleetEvent)
+
+    const sponsorPrivateKey = config.sponsorEnabled ? getSponsorPrivateKey() : null
+    const failures = await rescueFleet.start(
+      members.map(member => ({ wallet: member.wallet, privateKey: member.privateKey as string })),
+      config,
+      sponsorPrivateKey
+    )
+
+    failures.forEach(failure => {
+      const label = fleetWallets.find(wallet => wallet.id === failure.walletId)?.label || failure.walletId
       addLog({
-        level: 'info',
+        level: 'error',
         category: 'monitoring',
-        message: config.rescueMode ? '🚨 疯狂抢救模式已启动' : '⚡ 极速监控已启动',
-        details: config.rescueMode 
-          ? `检查间隔: ${config.rescueInterval}毫秒, Gas倍数: ${config.rescueGasMultiplier}倍, 最小转账金额: ${config.minTransferAmount}`
-          : `检查间隔: ${Math.max(100, (config.checkInterval || 0.5) * 1000)}毫秒, Gas倍数: ${actualGasMultiplier}倍, 最小转账金额: ${config.minTransferAmount}`
+        message: `[${label}] 监控启动失败`,
+        details: failure.error
       })
+    })
+
+    if (!rescueFleet.isRunning()) {
+      unsubscribeRescueFleet?.()
+      unsubscribeRescueFleet = null
+      setLocalError('所有钱包监控均启动失败')
+      return
     }
-  }, [isMonitoring, monitoringInterval, config, setMonitoring, addTransferRecord, addLog, setError])
+
+    setFleetMonitoring(true)
+    addLog({
+      level: 'info',
+      category: 'monitoring',
+      message: '⚡ 多钱包监控已启动',
+      details: `监控 ${rescueFleet.getRunningWalletIds().length}/${members.length} 个钱包`
+    })
+  }, [isFleetMonitoring, fleetWallets, config, setFleetMonitoring, addLog])
 
   // 检查网络连接状态
   const checkNetworkStatus = useCallback(async () => {
@@ -1058,19 +1089,16 @@ export function MonitorPage() {
     initializePage()
   }, [checkNetworkStatus])
 
-  // 清理监控定时器
+  // 订阅抢救引擎事件，更新页面本地状态
   useEffect(() => {
-    return () => {
-      if (monitoringInterval) {
-        clearInterval(monitoringInterval)
-        setMonitoringInterval(null)
+    return rescueEngine.subscribe((event) => {
+      if (event.type === 'balance') {
+        setLastBalanceUpdate(new Date())
+      } else if (event.type === 'daiBalance') {
+        setDaiBalance(event.balance)
       }
-      // 页面卸载时停止监控（不影响协议监控）
-      if (isMonitoring) {
-        setMonitoring(false)
-      }
-    }
-  }, [monitoringInterval, isMonitoring, setMonitoring])
+    })
+  }, [])
 
   // 格式化时间
   const formatTime = (date: Date) => {
@@ -1096,6 +1124,14 @@ export function MonitorPage() {
     )
   }
 
+  // 按钱包筛选转账记录（Gas赞助记录的接收方是被监控钱包）
+  const filteredRecords = recordWalletFilter === 'all'
+    ? transferRecords
+    : transferRecords.filter(record =>
+        record.fromAddress.toLowerCase() === recordWalletFilter ||
+        (record.type === 'sponsor' && record.toAddress.toLowerCase() === recordWalletFilter)
+      )
+
   return (
     <div className="space-y-6">
       {/* 密码输入对话框 */}
@@ -1154,6 +1190,19 @@ export function MonitorPage() {
         </div>
       )}
 
+      {/* 模拟运行提示 */}
+      {config.dryRun && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-blue-500" />
+            <span className="text-sm font-medium text-blue-800">模拟运行中</span>
+          </div>
+          <p className="text-sm text-blue-700 mt-1">
+            所有交易只构建和签名，不会广播。转账记录标记为“模拟”，并显示预计Gas费用。
+          </p>
+        </div>
+      )}
+
       {/* 钱包状态 */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex items-center justify-between mb-6">
@@ -1417,21 +1466,106 @@ export function MonitorPage() {
 
 
 
+      {/* NFT抢救 */}
+      {config.isConfigured && <NftRescuePanel getPrivateKey={getStoredPrivateKey} />}
+
+      {/* 多钱包监控 */}
+      {fleetWallets.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">多钱包监控</h2>
+            <button
+              onClick={handleToggleFleetMonitoring}
+              disabled={!isFleetMonitoring && networkStatus === 'disconnected'}
+              className={`flex items-center gap-2 text-white px-4 py-2 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                isFleetMonitoring ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+              }`}
+            >
+              {isFleetMonitoring ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {isFleetMonitoring ? '停止全部' : '全部开始'}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">钱包</th>
+                  <th className="py-2 pr-4">余额</th>
+                  <th className="py-2 pr-4">最后检查</th>
+                  <th className="py-2">状态</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fleetWallets.map(wallet => {
+                  const status = fleetStatus[wallet.id]
+                  const running = isFleetMonitoring && wallet.enabled
+
+                  return (
+                    <tr key={wallet.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <p className="font-medium text-gray-900">{wallet.label}</p>
+                        <p className="text-xs text-gray-500 font-mono">{wallet.address.slice(0, 8)}...{wallet.address.slice(-6)}</p>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {status ? `${parseFloat(status.balance).toFixed(6)} ${status.tokenSymbol || 'MATIC'}` : '-'}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-500">
+                        {status ? `${formatTime(status.lastChecked)}${status.blockNumber ? ` (#${status.blockNumber})` : ''}` : '-'}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-2">
+                          <div className={`w-2 h-2 rounded-full ${
+                            status?.error ? 'bg-red-500' : running ? 'bg-green-500 animate-pulse' : 'bg-gray-400'
+                          }`} />
+                          <span className={status?.error ? 'text-red-600' : 'text-gray-700'}>
+                            {status?.error || status?.lastEvent || (running ? '监控中' : wallet.enabled ? '已停止' : '已禁用')}
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* 转账记录 */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-gray-900">转账记录</h2>
-          <span className="text-sm text-gray-500">
-            共 {transferRecords.length} 条记录
-            ({transferRecords.filter((t: any) => t.status === 'confirmed').length} 已确认, 
-             {transferRecords.filter((t: any) => t.status === 'pending').length} 待确认, 
-             {transferRecords.filter((t: any) => t.status === 'failed').length} 失败)
-          </span>
+          <div className="flex items-center gap-3">
+            {fleetWallets.length > 0 && (
+              <select
+                value={recordWalletFilter}
+                onChange={(e) => setRecordWalletFilter(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">全部钱包</option>
+                {walletStatus?.address && (
+                  <option value={walletStatus.address.toLowerCase()}>主钱包</option>
+                )}
+                {fleetWallets.map(wallet => (
+                  <option key={wallet.id} value={wallet.address.toLowerCase()}>{wallet.label}</option>
+                ))}
+              </select>
+            )}
+            <span className="text-sm text-gray-500">
+              共 {filteredRecords.length} 条记录
+              ({filteredRecords.filter((t: any) => t.status === 'confirmed').length} 已确认, 
+               {filteredRecords.filter((t: any) => t.status === 'pending').length} 待确认, 
+               {filteredRecords.filter((t: any) => t.status === 'failed').length} 失败
+               {filteredRecords.some((t: any) => t.status === 'simulated') && `, ${filteredRecords.filter((t: any) => t.status === 'simulated').length} 模拟`}
+               {filteredRecords.some((t: any) => t.status === 'replaced') && `, ${filteredRecords.filter((t: any) => t.status === 'replaced').length} 已替换`})
+            </span>
+          </div>
         </div>
         
         <div className="space-y-3">
-          {transferRecords.length > 0 ? (
-            transferRecords
+          {filteredRecords.length > 0 ? (
+            filteredRecords
               .slice(0, 10)
               .map((transfer: any) => {
                 const getStatusInfo = (status: string) => {
@@ -1442,6 +1576,10 @@ export function MonitorPage() {
                       return { color: 'bg-yellow-500', text: '待确认', textColor: 'text-yellow-600' }
                     case 'failed':
                       return { color: 'bg-red-500', text: '失败', textColor: 'text-red-600' }
+                    case 'simulated':
+                      return { color: 'bg-blue-500', text: '模拟', textColor: 'text-blue-600' }
+                    case 'replaced':
+                      return { color: 'bg-gray-400', text: '已替换', textColor: 'text-gray-500' }
                     default:
                       return { color: 'bg-gray-500', text: '未知', textColor: 'text-gray-600' }
                   }
@@ -1457,15 +1595,50 @@ export function MonitorPage() {
                     <div>
                       <p className="font-medium text-gray-900">
                         {transfer.amount} {transfer.tokenSymbol || 'MATIC'}
+                        {transfer.nftTokenIds && (
+                          <span className="ml-2 text-sm font-normal text-gray-500">#{transfer.nftTokenIds.join(', #')}</span>
+                        )}
                       </p>
                       <p className="text-sm text-gray-500">
                         {formatTime(transfer.timestamp)}
+                        {transfer.nonce !== undefined && ` · nonce ${transfer.nonce}`}
+                        {transfer.type === 'cancel' && ' · 取消交易'}
+                        {transfer.type === 'permit' && ' · Permit免Gas'}
                       </p>
+                          {transfer.projectedGasCost && (
+                            <p className="text-xs text-blue-500 mt-1">
+                              预计Gas: {transfer.projectedGasCost} MATIC
+                            </p>
+                          )}
+                          {transfer.blockNumber !== undefined && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              区块 #{transfer.blockNumber} · {transfer.stage === 'finalized'
+                                ? '已最终确认'
+                                : `${transfer.confirmations || 1}/${config.confirmationDepth || DEFAULT_CONFIRMATION_DEPTH} 确认`}
+                              {transfer.effectiveGasPrice && ` · ${parseFloat(ethers.formatUnits(transfer.effectiveGasPrice, 'gwei')).toFixed(2)} Gwei`}
+                            </p>
+                          )}
+                          {transfer.feeBumps > 0 && (
+                            <p className="text-xs text-orange-600 mt-1">
+                              已自动加价 {transfer.feeBumps} 次
+                              {transfer.status === 'pending' && transfer.gasPrice && ` · 当前出价 ${parseFloat(ethers.formatUnits(transfer.gasPrice, 'gwei')).toFixed(2)} Gwei`}
+                            </p>
+                          )}
                           {transfer.error && (
                             <p className="text-xs text-red-500 mt-1">
                               错误: {transfer.error}
                             </p>
                           )}
+                          {transfer.replacedBy && (
+                            <a
+                              href={`https://polygonscan.com/tx/${transfer.replacedBy}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-gray-500 hover:text-gray-700 mt-1 inline-block"
+                            >
+                              已被替换，查看替换交易
+                            </a>
+                          )}
                     </div>
                   </div>
                   
@@ -1473,7 +1646,7 @@ export function MonitorPage() {
                         <p className={`text-sm font-medium ${statusInfo.textColor}`}>
                           {statusInfo.text}
                     </p>
-                    {transfer.txHash && (
+                    {transfer.txHash && transfer.status !== 'simulated' && (
                       <a
                         href={`https://polygonscan.com/tx/${transfer.txHash}`}
                         target="_blank"
@@ -1484,6 +1657,28 @@ export function MonitorPage() {
                         <ArrowRight className="w-3 h-3" />
                       </a>
                     )}
+                    {transfer.status === 'pending' && transfer.nonce !== undefined && (
+                      <div className="flex items-center justify-end gap-2 mt-2">
+                        <button
+                          onClick={() => handleReplaceTransfer(transfer, 'speedup')}
+                          disabled={replacingRecordId !== null}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-orange-100 text-orange-700 rounded hover:bg-orange-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Zap className="w-3 h-3" />
+                          加速
+                        </button>
+                        {transfer.type !== 'cancel' && (
+                          <button
+                            onClick={() => handleReplaceTransfer(transfer, 'cancel')}
+                            disabled={replacingRecordId !== null}
+                            className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <Ban className="w-3 h-3" />
+                            取消
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
                   </div>
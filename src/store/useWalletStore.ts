@@ -1,6 +1,45 @@
+import { ethers } from 'ethers'
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { DataBackup } from '../utils/dataBackup'
+import { addressGuard } from '../utils/addressBook'
+import { dryRun } from '../utils/dryRun'
+import { revertRegistry } from '../utils/revertRegistry'
+import { gasBudget, pruneGasLedger, GasSpendEntry } from '../utils/gasBudget'
+import { transactionTracker, DEFAULT_CONFIRMATION_DEPTH } from '../utils/transactionTracker'
+import { feeEscalator } from '../utils/feeEscalation'
+
+// 地址簿条目（校验和地址）
+export interface AddressBookEntry {
+  address: string
+  label: string
+  addedAt: Date
+}
+
+// 回滚解码适用的AkasaDAO合约，all表示对所有合约生效
+export type RevertContract = 'turbine' | 'demand' | 'asToken' | 'sasToken' | 'all'
+
+// 用户补充的合约自定义错误签名（规范化后的完整格式，如 error Foo(uint256 amount)）
+export interface CustomErrorEntry {
+  signature: string
+  contract: RevertContract
+  addedAt: Date
+}
+
+// 分账路由：目的地址及比例
+export interface RoutingDestination {
+  address: string
+  percentage: number // 0-100
+  minAmount?: string // 低于该数额时不转账，份额并入零头
+}
+
+// 分账路由规则：asset为'native'、代币合约地址或'*'（所有资产）
+export interface RoutingRule {
+  id: string
+  asset: string
+  destinations: RoutingDestination[]
+  dustAddress: string // 取整零头和低于最小额的份额转到此地址
+}
 
 export interface WalletConfig {
   privateKey: string
@@ -15,10 +54,35 @@ export interface WalletConfig {
   tokenAddress?: string
   transferType: 'native' | 'token'
   checkInterval?: number
+  dryRun?: boolean // 模拟运行：完整执行检查、估算和签名，但不广播交易
+  confirmationDepth?: number // 交易达到该确认数后视为最终确认
+  // 分账路由：按比例把资金分配到多个地址（未匹配规则时转到targetAddress）
+  routingEnabled?: boolean
+  routingRules?: RoutingRule[]
+  // 多资产转移：同时监控内置代币和用户添加的代币
+  multiAssetSweep?: boolean
+  watchTokens?: string[]
+  // 精确清零：按下一个区块的基础费用+小费设置maxFeePerGas，转出后不留余额
+  preciseSweep?: boolean
   // 疯狂抢救模式配置
   rescueMode: boolean
   rescueInterval: number
   rescueGasMultiplier: number
+  presignedSweep?: boolean // 预签名转账阶梯（仅原生MATIC）
+  mempoolGuard?: boolean // 内存池防护：替换攻击者的待处理转出交易
+  maxReplacementFeeGwei?: number
+  // Gas赞助钱包（私钥单独加密存储，这里只保存地址）
+  sponsorEnabled?: boolean
+  sponsorAddress?: string
+  // 卡单自动加价：每隔N个区块未上链将优先费提高X%，不超过上限
+  feeEscalationEnabled?: boolean
+  feeEscalationPercent?: number
+  feeEscalationBlocks?: number
+  feeEscalationMaxGwei?: number
+  // Gas支出上限（0或空表示不限制）
+  maxGasPriceGwei?: number
+  maxGasCostPercent?: number
+  dailyGasBudget?: string // MATIC，滚动24小时
   // AkasaDAO配置
   akasdaoEnabled: boolean
   akasdaoMinAmount: string
@@ -37,6 +101,37 @@ export interface WalletStatus {
   }
 }
 
+// 多钱包监控中的单个钱包（私钥按id单独加密存储）
+export interface FleetWallet {
+  id: string
+  label: string
+  address: string
+  targetAddress: string
+  transferType: 'native' | 'token'
+  tokenAddress?: string
+  minTransferAmount: string
+  gasStrategy: WalletConfig['gasStrategy']
+  gasMultiplier?: number
+  rescueMode: boolean
+  rescueGasMultiplier: number
+  // 转移和防护策略按钱包单独设置，不沿用全局配置（分账路由在多钱包监控中不启用）
+  multiAssetSweep?: boolean
+  preciseSweep?: boolean
+  presignedSweep?: boolean
+  mempoolGuard?: boolean
+  enabled: boolean
+}
+
+// 多钱包监控的实时状态（不持久化）
+export interface FleetWalletStatus {
+  balance: string
+  tokenSymbol?: string
+  blockNumber?: number
+  lastChecked: Date
+  lastEvent?: string
+  error?: string | null
+}
+
 export interface TransferRecord {
   id: string
   fromAddress: string
@@ -45,13 +140,38 @@ export interface TransferRecord {
   amount: string
   txHash: string
   timestamp: Date
-  status: 'pending' | 'confirmed' | 'failed'
-  type: 'auto' | 'manual' | 'deposit' | 'withdraw' | 'vortex' | 'silence' | 'demand'
+  status: 'pending' | 'confirmed' | 'failed' | 'simulated' | 'replaced' // simulated: 模拟运行，已签名未广播；replaced: 已被加速或取消交易替换
+  type: 'auto' | 'manual' | 'deposit' | 'withdraw' | 'vortex' | 'silence' | 'demand' | 'sponsor' | 'cancel' | 'permit' // permit: 被盗钱包签署permit，由赞助钱包提交transferFrom
   tokenSymbol?: string
-  tokenAddress?: string
+  tokenAddress?: string // 代币或NFT合约地址
+  nftTokenIds?: string[] // NFT转移的tokenId（批量转移时有多个）
+  linkedRecordId?: string // 关联记录（如Gas赞助与对应的代币转账）
+  groupId?: string // 分账转账的同组记录共用此id
+  projectedGasCost?: string // 模拟运行时的预计Gas费用（MATIC）
+  // 发送时使用的nonce和费用（wei），待确认时据此加速或取消
+  nonce?: number
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  replacedBy?: string // 替换本交易的交易哈希（加速或取消）
+  // 卡单自动加价：txHash和费用字段为最新一笔加价交易，escalatedFrom为之前广播过的哈希
+  feeBumps?: number
+  escalatedFrom?: string[]
+  // 生命周期跟踪：submitted → included → confirmed → finalized，或dropped/replaced
+  stage?: 'submitted' | 'included' | 'confirmed' | 'finalized' | 'dropped' | 'replaced'
+  confirmations?: number
+  blockNumber?: number
+  blockHash?: string
+  gasUsed?: string
+  effectiveGasPrice?: string // wei
+  baseFeePerGas?: string // 打包区块的基础费用（wei），用于计算超出基础费用的部分
+  gasStrategy?: RecordGasStrategy // 发送时使用的Gas策略
   error?: string | null
 }
 
+// 转账记录的Gas策略：rescue为抢救模式的倍数策略，network为未指定费用、由节点决定（活期质押）
+export type RecordGasStrategy = WalletConfig['gasStrategy'] | 'rescue' | 'network'
+
 export interface LogEntry {
   id: string
   timestamp: Date
@@ -80,6 +200,32 @@ interface WalletStore {
   isProtocolMonitoring: boolean
   setProtocolMonitoring: (monitoring: boolean) => void
   
+  // 多钱包监控
+  fleetWallets: FleetWallet[]
+  fleetStatus: Record<string, FleetWalletStatus>
+  isFleetMonitoring: boolean
+  addFleetWallet: (wallet: FleetWallet) => void
+  updateFleetWallet: (id: string, updates: Partial<FleetWallet>) => void
+  removeFleetWallet: (id: string) => void
+  setFleetWalletStatus: (id: string, status: Partial<FleetWalletStatus>) => void
+  setFleetMonitoring: (monitoring: boolean) => void
+  
+  // 地址簿与白名单
+  addressBook: AddressBookEntry[]
+  allowlistOnly: boolean
+  addAddressBookEntry: (entry: AddressBookEntry) => void
+  removeAddressBookEntry: (address: string) => void
+  setAllowlistOnly: (enabled: boolean) => void
+  
+  // Gas支出记录（滚动24小时，用于每日预算）
+  gasLedger: GasSpendEntry[]
+  addGasSpend: (entry: GasSpendEntry) => void
+  
+  // 合约自定义错误签名
+  customErrors: CustomErrorEntry[]
+  addCustomError: (entry: CustomErrorEntry) => void
+  removeCustomError: (signature: string, contract: RevertContract) => void
+  
   // 转账记录
   transferRecords: TransferRecord[]
   addTransferRecord: (record: TransferRecord) => void
@@ -109,10 +255,29 @@ const initialConfig: WalletConfig = {
   tokenAddress: '',
   transferType: 'native',
   checkInterval: 0.5, // 默认0.5秒检查一次，更激进
+  dryRun: false,
+  confirmationDepth: DEFAULT_CONFIRMATION_DEPTH,
+  routingEnabled: false,
+  routingRules: [],
+  multiAssetSweep: false,
+  preciseSweep: false,
+  watchTokens: [],
   // 疯狂抢救模式配置
   rescueMode: false,
   rescueInterval: 100, // 100毫秒检查一次
   rescueGasMultiplier: 3, // 抢救模式默认3倍gas
+  presignedSweep: false,
+  mempoolGuard: false,
+  maxReplacementFeeGwei: 500,
+  sponsorEnabled: false,
+  sponsorAddress: '',
+  feeEscalationEnabled: false,
+  feeEscalationPercent: 25,
+  feeEscalationBlocks: 2,
+  feeEscalationMaxGwei: 300,
+  maxGasPriceGwei: 0,
+  maxGasCostPercent: 0,
+  dailyGasBudget: '',
   // AkasaDAO配置
   akasdaoEnabled: false,
   akasdaoMinAmount: '10',
@@ -204,16 +369,143 @@ export const useWalletStore = create<WalletStore>()(persist(
       })
     },
     
+    // 多钱包监控
+    fleetWallets: [],
+    fleetStatus: {},
+    isFleetMonitoring: false,
+    addFleetWallet: (wallet) => {
+      set((state) => ({
+        fleetWallets: [...state.fleetWallets, wallet]
+      }))
+      get().addLog({
+        level: 'info',
+        category: 'system',
+        message: `已添加监控钱包: ${wallet.label}`,
+        details: `地址: ${wallet.address}, 目标地址: ${wallet.targetAddress}`
+      })
+    },
+    updateFleetWallet: (id, updates) => {
+      set((state) => ({
+        fleetWallets: state.fleetWallets.map(wallet =>
+          wallet.id === id ? { ...wallet, ...updates } : wallet
+        )
+      }))
+    },
+    removeFleetWallet: (id) => {
+      const wallet = get().fleetWallets.find(item => item.id === id)
+      set((state) => {
+        const fleetStatus = { ...state.fleetStatus }
+        delete fleetStatus[id]
+        return {
+          fleetWallets: state.fleetWallets.filter(item => item.id !== id),
+          fleetStatus
+        }
+      })
+      if (wallet) {
+        get().addLog({
+          level: 'info',
+          category: 'system',
+          message: `已移除监控钱包: ${wallet.label}`,
+          details: `地址: ${wallet.address}`
+        })
+      }
+    },
+    setFleetWalletStatus: (id, status) => {
+      set((state) => ({
+        fleetStatus: {
+          ...state.fleetStatus,
+          [id]: state.fleetStatus[id]
+            ? { ...state.fleetStatus[id], ...status }
+            : {
+                balance: '0',
+                lastChecked: new Date(),
+                ...status
+              }
+        }
+      }))
+    },
+    setFleetMonitoring: (monitoring) => {
+      set({ isFleetMonitoring: monitoring })
+      get().addLog({
+        level: 'info',
+        category: 'monitoring',
+        message: monitoring ? '开始多钱包监控' : '停止多钱包监控'
+      })
+    },
+    
+    // 地址簿与白名单 - 所有变更记录到安全日志
+    addressBook: [],
+    allowlistOnly: false,
+    addAddressBookEntry: (entry) => {
+      if (get().addressBook.some(item => item.address.toLowerCase() === entry.address.toLowerCase())) return
+      set((state) => ({
+        addressBook: [...state.addressBook, entry]
+      }))
+      get().addLog({
+        level: 'warning',
+        category: 'security',
+        message: `地址簿新增地址: ${entry.label}`,
+        details: `地址: ${entry.address}`
+      })
+    },
+    removeAddressBookEntry: (address) => {
+      const entry = get().addressBook.find(item => item.address.toLowerCase() === address.toLowerCase())
+      if (!entry) return
+      set((state) => ({
+        addressBook: state.addressBook.filter(item => item !== entry)
+      }))
+      get().addLog({
+        level: 'warning',
+        category: 'security',
+        message: `地址簿移除地址: ${entry.label}`,
+        details: `地址: ${entry.address}`
+      })
+    },
+    setAllowlistOnly: (enabled) => {
+      set({ allowlistOnly: enabled })
+      get().addLog({
+        level: 'warning',
+        category: 'security',
+        message: enabled ? '已启用白名单模式' : '已关闭白名单模式',
+        details: enabled ? `只允许向地址簿中的 ${get().addressBook.length} 个地址发送资金` : '允许向任意地址发送资金'
+      })
+    },
+    
+    // Gas支出记录
+    gasLedger: [],
+    addGasSpend: (entry) => {
+      set((state) => ({
+        gasLedger: [...pruneGasLedger(state.gasLedger), entry]
+      }))
+    },
+    
+    // 合约自定义错误签名
+    customErrors: [],
+    addCustomError: (entry) => {
+      if (get().customErrors.some(item => item.signature === entry.signature && item.contract === entry.contract)) return
+      set((state) => ({
+        customErrors: [...state.customErrors, entry]
+      }))
+    },
+    removeCustomError: (signature, contract) => {
+      set((state) => ({
+        customErrors: state.customErrors.filter(item => !(item.signature === signature && item.contract === contract))
+      }))
+    },
+    
     // 转账记录
     transferRecords: [],
     addTransferRecord: (record) => {
+      // 未注明Gas策略的记录按当前配置发送
+      const { config } = get()
+      const gasStrategy = record.gasStrategy ?? (config.rescueMode ? 'rescue' : config.gasStrategy)
       set((state) => ({
-        transferRecords: [record, ...state.transferRecords]
+        transferRecords: [{ ...record, gasStrategy }, ...state.transferRecords]
       }))
       get().addLog({
         level: 'info',
         category: 'transaction',
-        message: `新增转账记录: ${record.amount} MATIC`,
+        message: `新增转账记录: ${record.amount} ${record.tokenSymbol || 'MATIC'}`,
         details: `交易哈希: ${record.txHash}`
       })
     },
@@ -271,6 +563,11 @@ export const useWalletStore = create<WalletStore>()(persist(
         ...state.config,
         privateKey: '' // 不持久化私钥到localStorage
       },
+      fleetWallets: state.fleetWallets,
+      addressBook: state.addressBook,
+      allowlistOnly: state.allowlistOnly,
+      customErrors: state.customErrors,
+      gasLedger: state.gasLedger,
       transferRecords: state.transferRecords,
       logs: state.logs.slice(0, 100) // 只持久化最新100条日志
       // 注意：walletStatus 不持久化，避免余额缓存问题
@@ -286,6 +583,21 @@ export const useWalletStore = create<WalletStore>()(persist(
           }))
         }
         
+        // 恢复地址簿中的日期对象
+        if (state.addressBook) {
+          state.addressBook = state.addressBook.map(entry => ({
+            ...entry,
+            addedAt: new Date(entry.addedAt)
+          }))
+        }
+        
+        if (state.customErrors) {
+          state.customErrors = state.customErrors.map(entry => ({
+            ...entry,
+            addedAt: new Date(entry.addedAt)
+          }))
+        }
+        
         // 恢复日志中的日期对象
         if (state.logs) {
           state.logs = state.logs.map(log => ({
@@ -296,4 +608,101 @@ export const useWalletStore = create<WalletStore>()(persist(
       }
     }
   }
-))
\ No newline at end of file
+))
+
+// 地址白名单守卫从store读取地址簿
+addressGuard.setSource(() => {
+  const { addressBook, allowlistOnly } = useWalletStore.getState()
+  return { allowlistOnly, entries: addressBook }
+})
+
+// 回滚解码使用store中用户补充的错误签名
+revertRegistry.setSource(() => useWalletStore.getState().customErrors)
+
+// Gas预算守卫读取配置中的上限和支出记录，拦截和支出写回store
+gasBudget.setSource(() => {
+  const { config, gasLedger } = useWalletStore.getState()
+  return {
+    limits: {
+      maxGasPriceGwei: config.maxGasPriceGwei,
+      maxGasCostPercent: config.maxGasCostPercent,
+      dailyGasBudget: config.dailyGasBudget
+    },
+    ledger: gasLedger
+  }
+})
+gasBudget.subscribe((event) => {
+  const { addGasSpend, addLog } = useWalletStore.getState()
+  if (event.type === 'spent') {
+    addGasSpend(event.entry)
+    return
+  }
+  addLog({
+    level: 'warning',
+    category: 'security',
+    message: `Gas上限拦截: ${event.action}`,
+    details: event.reason
+  })
+})
+
+// 模拟运行开关从store读取配置
+dryRun.setSource(() => useWalletStore.getState().config.dryRun || false)
+
+// 交易生命周期跟踪读取转账记录，状态变化写回记录和日志
+transactionTracker.setSource(() => {
+  const { transferRecords, config } = useWalletStore.getState()
+  return {
+    records: transferRecords,
+    confirmationDepth: config.confirmationDepth || DEFAULT_CONFIRMATION_DEPTH
+  }
+})
+transactionTracker.subscribe(({ recordId, updates, log }) => {
+  const { updateTransferRecord, addLog } = useWalletStore.getState()
+  updateTransferRecord(recordId, updates)
+  if (log) addLog(log)
+})
+
+// 卡单自动加价读取配置中的策略，加价后更新对应转账记录并写入日志
+feeEscalator.setSource(() => {
+  const { config } = useWalletStore.getState()
+  return {
+    enabled: config.feeEscalationEnabled || false,
+    bumpPercent: config.feeEscalationPercent || 25,
+    everyBlocks: config.feeEscalationBlocks || 2,
+    maxFeeGwei: config.feeEscalationMaxGwei || 300
+  }
+})
+feeEscalator.subscribe((event) => {
+  const { transferRecords, updateTransferRecord, addLog } = useWalletStore.getState()
+
+  if (event.type === 'stopped') {
+    addLog({
+      level: 'warning',
+      category: 'transaction',
+      message: `停止自动加价: ${event.label}`,
+      details: `nonce ${event.nonce}, 交易哈希: ${event.hash}, ${event.reason}`
+    })
+    return
+  }
+
+  // 等待确认后才创建记录的交易（Silence、活期质押）此时还没有记录，确认后直接使用最终哈希
+  const record = transferRecords.find(item => item.txHash === event.previousHash)
+  if (record) {
+    updateTransferRecord(record.id, {
+      txHash: event.hash,
+      gasPrice: event.gasPrice.toString(),
+      maxFeePerGas: event.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: event.maxPriorityFeePerGas?.toString(),
+      amount: event.value !== undefined ? ethers.formatEther(event.value) : record.amount,
+      feeBumps: event.bumps,
+      escalatedFrom: [...(record.escalatedFrom || []), event.previousHash]
+    })
+  }
+
+  addLog({
+    level: 'info',
+    category: 'transaction',
+    message: `自动加价 #${event.bumps}: ${event.label}`,
+    details: `nonce ${event.nonce}, ${ethers.formatUnits(event.gasPrice, 'gwei')} Gwei, 原交易: ${event.previousHash}, 新交易: ${event.hash}`
+  })
+})
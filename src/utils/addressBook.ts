@@ -0,0 +1,76 @@
+import { ethers } from 'ethers'
+import type { AddressBookEntry } from '../store/useWalletStore'
+
+interface AddressGuardState {
+  allowlistOnly: boolean
+  entries: AddressBookEntry[]
+}
+
+// 转为校验和地址；混合大小写但校验和不匹配的地址会被拒绝（常见于手误或仿冒地址）
+export function toChecksumAddress(address: string): string {
+  try {
+    return ethers.getAddress(address.trim())
+  } catch {
+    throw new Error(`地址无效或校验和不匹配: ${address}`)
+  }
+}
+
+// 地址白名单守卫 - 白名单模式下拒绝向地址簿以外的地址发送资金
+class AddressGuard {
+  private getState: () => AddressGuardState = () => ({ allowlistOnly: false, entries: [] })
+
+  // 注册地址簿数据来源（由store在创建时注册）
+  setSource(source: () => AddressGuardState): void {
+    this.getState = source
+  }
+
+  isAllowlistOnly(): boolean {
+    return this.getState().allowlistOnly
+  }
+
+  findEntry(address: string): AddressBookEntry | null {
+    const normalized = address.toLowerCase()
+    return this.getState().entries.find(entry => entry.address.toLowerCase() === normalized) || null
+  }
+
+  // 白名单模式下目标地址不在地址簿中时抛出错误
+  assertAllowed(address: string, action: string): void {
+    if (!this.isAllowlistOnly()) return
+
+    if (!this.findEntry(address)) {
+      throw new Error(`白名单模式: ${action}目标地址 ${address} 不在地址簿中，已拒绝发送`)
+    }
+  }
+}
+
+// 导出单例实例
+export const addressGuard = new AddressGuard()
+
+// 首次使用的目的地址需要用户核对确认，确认后通过onConfirmed加入地址簿
+// 返回false表示地址无效或用户取消
+export function confirmDestination(
+  address: string,
+  label: string,
+  onConfirmed: (entry: AddressBookEntry) => void
+): boolean {
+  let checksumAddress: string
+  try {
+    checksumAddress = toChecksumAddress(address)
+  } catch (error) {
+    window.alert(error instanceof Error ? error.message : '地址无效')
+    return false
+  }
+
+  if (addressGuard.findEntry(checksumAddress)) return true
+
+  const confirmed = window.confirm(
+    `首次使用的目的地址（${label}）:\n\n${checksumAddress}\n\n` +
+    '请逐字符核对该地址，确认无误后将加入地址簿。是否继续？'
+  )
+
+  if (confirmed) {
+    onConfirmed({ address: checksumAddress, label, addedAt: new Date() })
+  }
+
+  return confirmed
+}
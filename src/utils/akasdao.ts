@@ -1,5 +1,13 @@
 import { ethers } from 'ethers'
 import { TOKEN_ADDRESSES } from './tokens'
+import { addressGuard } from './addressBook'
+import { dryRun, signWithoutBroadcast } from './dryRun'
+import { nonceManager } from './nonceManager'
+import { assertSimulationPasses } from './simulation'
+import { revertRegistry } from './revertRegistry'
+import { gasOracle, GasTierName } from './gasOracle'
+import { gasBudget } from './gasBudget'
+import { feeEscalator, waitForEscalatedReceipt } from './feeEscalation'
 import { 
   validateContractAddress, 
   storeValidatedContract, 
@@ -173,10 +181,18 @@ export class AkasaDAOService {
       const amountWei = ethers.parseUnits(amount, tokenInfo.decimals)
       const currentAllowance = await tokenContract.allowance(this.wallet.address, AKASDAO_CONFIG.TURBINE_CONTRACT)
       
-      // 如果授权不足，进行授权
+      // 如果授权不足，进行授权（模拟运行时不发送授权交易）
       if (currentAllowance < amountWei) {
+        if (dryRun.isEnabled()) {
+          console.log('模拟运行: 授权不足，跳过授权交易')
+          return false
+        }
+
         console.log('授权不足，正在授权...')
-        const approveTx = await tokenContract.approve(AKASDAO_CONFIG.TURBINE_CONTRACT, amountWei)
+        const approveTx = await nonceManager.send(
+          this.wallet,
+          nonce => tokenContract.approve(AKASDAO_CONFIG.TURBINE_CONTRACT, amountWei, { nonce })
+        )
         await approveTx.wait()
         console.log('授权成功')
         return true
@@ -199,6 +215,8 @@ export class AkasaDAOService {
     }
 
     try {
+      addressGuard.assertAllowed(AKASDAO_CONFIG.TURBINE_CONTRACT, 'AkasaDAO涡旋')
+
       console.log('开始涡旋到Turbine...')
       console.log('代币地址:', tokenAddress)
       console.log('涡旋金额:', amount)
@@ -228,11 +246,14 @@ export class AkasaDAOService {
       const deadline = Math.floor(Date.now() / 1000) + 3600
       
       console.log('调用Turbine合约silence函数...')
-      const tx = await this.turbineContract.silence(
-        this.wallet.address, // _recipient: 接收者地址
+      const turbineContract = this.turbineContract
+      const recipient = this.wallet.address
+      const tx = await nonceManager.send(this.wallet, nonce => turbineContract.silence(
+        recipient,           // _recipient: 接收者地址
         amountWei,           // _usdtAmount: USDT金额
-        deadline             // deadline: 截止时间
-      )
+        deadline,            // deadline: 截止时间
+        { nonce }
+      ))
       console.log('交易已发送，等待确认...')
       await tx.wait()
       console.log('涡旋成功!')
@@ -254,12 +275,14 @@ export class AkasaDAOService {
     gasMultiplier?: number;
     rescueMode?: boolean;
     rescueGasMultiplier?: number;
-  }): Promise<{ txHash: string }> {
+  }): Promise<{ txHash: string; simulated?: boolean; projectedGasCost?: string }> {
     if (!this.wallet || !this.turbineContract) {
       throw new Error('钱包或合约未初始化')
     }
 
     try {
+      addressGuard.assertAllowed(AKASDAO_CONFIG.TURBINE_CONTRACT, 'AkasaDAO Silence')
+
       console.log('开始执行silence操作...')
       console.log('钱包地址:', this.wallet.address)
 
@@ -356,26 +379,58 @@ export class AkasaDAOService {
         deadline
       ]);
       console.log('编码数据:', encodedData);
+
+      // Gas上限检查：DAI无法按MATIC计价，只检查Gas价格和每日预算
+      // 未指定费用时由节点补全，按预言机标准档位估算
+      const capGasPrice: bigint = txOptions.maxFeePerGas ?? txOptions.gasPrice
+        ?? (await gasOracle.getFees(this.provider, 'standard')).gasPrice
+      const capGasCost = BigInt(txOptions.gasLimit) * capGasPrice
+      gasBudget.assertWithinBudget({ action: 'AkasaDAO Silence', gasPrice: capGasPrice, gasCost: capGasCost })
+
+      // 广播前在pending区块上执行完全相同的调用，回滚时给出解码后的具体原因
+      const populated = await this.turbineContract.silence.populateTransaction(
+        this.wallet.address,
+        amountWei,
+        deadline,
+        { ...txOptions }
+      )
+      await assertSimulationPasses(this.provider, { ...populated, from: this.wallet.address }, {
+        abi: revertRegistry.getAbi('turbine')
+      })
+
+      // 模拟运行：签名后停止，返回预计的交易哈希和Gas费用
+      if (dryRun.isEnabled()) {
+        const simulated = await signWithoutBroadcast(this.wallet, populated)
+        return {
+          txHash: simulated.hash,
+          simulated: true,
+          projectedGasCost: ethers.formatEther(simulated.projectedGasCost)
+        }
+      }
       
-      // 调用silence函数 - 使用覆盖选项传递交易参数
-      const tx = await this.turbineContract.silence(
-        this.wallet.address, // _recipient: 接收者地址
+      // 调用silence函数 - 使用覆盖选项传递交易参数（nonce由共享nonce管理器分配）
+      const turbineContract = this.turbineContract
+      const recipient = this.wallet.address
+      const tx = await nonceManager.send(this.wallet, nonce => turbineContract.silence(
+        recipient,           // _recipient: 接收者地址
         amountWei,           // _usdtAmount: DAI金额
         deadline,            // deadline: 截止时间
-        { ...txOptions }     // 交易选项作为覆盖选项
-      )
+        { ...txOptions, nonce } // 交易选项作为覆盖选项
+      ))
       
       console.log('交易已发送，等待确认...')
       console.log('交易哈希:', tx.hash)
+      gasBudget.recordSpend('AkasaDAO Silence', capGasCost, tx.hash)
+      feeEscalator.watch(this.wallet, tx, 'AkasaDAO Silence')
       
-      // 等待交易确认
-      const receipt = await tx.wait()
+      // 等待交易确认（被自动加价替换时返回替换交易的回执）
+      const receipt = await waitForEscalatedReceipt(tx)
       console.log('交易确认成功!')
       console.log('Gas使用量:', receipt.gasUsed.toString())
       console.log('区块号:', receipt.blockNumber)
       
       return {
-        txHash: tx.hash
+        txHash: receipt.hash
       }
     } catch (error) {
       console.error('Silence调用失败:', error)
@@ -384,16 +439,9 @@ export class AkasaDAOService {
       let errorMessage = 'Silence失败: '
       
       if (error instanceof Error) {
-        if (error.message.includes('execution reverted')) {
-          errorMessage += '合约执行被回滚，可能的原因：\n'
-          errorMessage += '1. 合约状态不允许silence操作\n'
-          errorMessage += '2. 参数验证失败\n'
-          errorMessage += '3. 余额或授权不足\n'
-          errorMessage += '4. 截止时间已过期\n'
-          errorMessage += '5. 合约暂停或维护中\n'
-          errorMessage += '6. 接收者地址无效\n'
-          errorMessage += '7. 金额超出合约限制\n'
-          errorMessage += '\n原始错误: ' + error.message
+        const revertReason = revertRegistry.describe(error, 'turbine')
+        if (revertReason) {
+          errorMessage += `合约执行被回滚: ${revertReason}`
         } else if (error.message.includes('insufficient funds')) {
           errorMessage += '余额不足，无法支付Gas费用'
         } else if (error.message.includes('nonce')) {
@@ -433,16 +481,14 @@ export class AkasaDAOService {
         deadline
       )
       
-      // 获取费用数据
-      const feeData = await this.provider.getFeeData()
-      
-      // 计算gas倍数
-      let multiplier = 1
-      if (gasConfig.rescueMode && gasConfig.rescueGasMultiplier) {
-        multiplier = gasConfig.rescueGasMultiplier
-      } else if (gasConfig.gasMultiplier) {
-        multiplier = gasConfig.gasMultiplier
-      }
+      // 抢救模式按抢救倍数在标准档位上加价，否则使用配置的Gas策略档位
+      const fees = gasConfig.rescueMode && gasConfig.rescueGasMultiplier
+        ? await gasOracle.getFees(this.provider, 'custom', { gasMultiplier: gasConfig.rescueGasMultiplier, crazyMode: false })
+        : await gasOracle.getFees(
+            this.provider,
+            gasConfig.gasStrategy || 'standard',
+            { gasMultiplier: gasConfig.gasMultiplier || 1, crazyMode: false }
+          )
       
       // 使用自定义gas限制或估算值
       const finalGasLimit = gasConfig.gasLimit 
@@ -450,23 +496,17 @@ export class AkasaDAOService {
         : estimatedGasLimit
       
       // 支持EIP-1559的动态费用
-      if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
-        const maxFeePerGas = BigInt(Math.floor(Number(feeData.maxFeePerGas) * multiplier))
-        const maxPriorityFeePerGas = BigInt(Math.floor(Number(feeData.maxPriorityFeePerGas) * multiplier))
-        
+      if (fees.maxFeePerGas && fees.maxPriorityFeePerGas) {
         return {
           gasLimit: finalGasLimit,
-          maxFeePerGas,
-          maxPriorityFeePerGas
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas
         }
       } else {
         // 传统gas价格
-        const baseGasPrice = feeData.gasPrice || BigInt(0)
-        const gasPrice = BigInt(Math.floor(Number(baseGasPrice) * multiplier))
-        
         return {
           gasLimit: finalGasLimit,
-          gasPrice
+          gasPrice: fees.gasPrice
         }
       }
     } catch (error) {
@@ -494,7 +534,7 @@ export class AkasaDAOService {
     return tokenInfoMap[tokenAddress] || null
   }
 
-  // 获取抢跑Gas配置
+  // 获取抢跑Gas配置（预言机rush档位：采样区块小费90分位）
   async getRushGasConfig(): Promise<{
     gasStrategy: string
     gasMultiplier: number
@@ -502,26 +542,10 @@ export class AkasaDAOService {
     maxPriorityFeePerGas: string
     maxFeePerGas: string
   }> {
-    const feeData = await this.provider.getFeeData()
-    const currentGasPrice = feeData.gasPrice || ethers.parseUnits('30', 'gwei')
-    const currentGasGwei = parseFloat(ethers.formatUnits(currentGasPrice, 'gwei'))
-    
-    // 计算抢跑Gas价格 - 比当前价格高50-100%
-    const rushGasPrice = Math.ceil(currentGasGwei * 1.8) // 提高80%
-    
-    console.log(`当前网络Gas价格: ${currentGasGwei} Gwei`)
-    console.log(`抢跑Gas价格: ${rushGasPrice} Gwei`)
-    
-    return {
-      gasStrategy: 'rush',
-      gasMultiplier: 2.0,
-      customGasPrice: rushGasPrice.toString(),
-      maxPriorityFeePerGas: Math.ceil(rushGasPrice * 0.8).toString(), // 设置优先费用
-      maxFeePerGas: (rushGasPrice * 1.2).toString() // 设置最大费用
-    }
+    return this.getTierGasConfig('rush')
   }
 
-  // 获取超高速Gas配置
+  // 获取超高速Gas配置（预言机ultraRush档位：采样窗口内最高的90分位小费）
   async getUltraRushGasConfig(): Promise<{
     gasStrategy: string
     gasMultiplier: number
@@ -529,22 +553,24 @@ export class AkasaDAOService {
     maxPriorityFeePerGas: string
     maxFeePerGas: string
   }> {
-    const feeData = await this.provider.getFeeData()
-    const currentGasPrice = feeData.gasPrice || ethers.parseUnits('30', 'gwei')
-    const currentGasGwei = parseFloat(ethers.formatUnits(currentGasPrice, 'gwei'))
-    
-    // 计算超高速Gas价格 - 比当前价格高100-200%
-    const ultraRushGasPrice = Math.ceil(currentGasGwei * 2.5) // 提高150%
-    
-    console.log(`当前网络Gas价格: ${currentGasGwei} Gwei`)
-    console.log(`超高速Gas价格: ${ultraRushGasPrice} Gwei`)
-    
+    return this.getTierGasConfig('ultraRush')
+  }
+
+  // 预言机档位转为Gas配置，倍数为相对标准档位的费用比例（单位Gwei）
+  private async getTierGasConfig(tierName: GasTierName) {
+    const snapshot = await gasOracle.getSnapshot(this.provider)
+    const tier = snapshot.tiers[tierName]
+    const standardFee = Number(snapshot.tiers.standard.maxFeePerGas)
+    const toGwei = (value: bigint) => ethers.formatUnits(value, 'gwei')
+
+    console.log(`${tier.label}Gas: 最大费用 ${toGwei(tier.maxFeePerGas)} Gwei, 小费 ${toGwei(tier.maxPriorityFeePerGas)} Gwei, 预计下一区块打包概率 ${(tier.inclusionProbability * 100).toFixed(0)}%`)
+
     return {
       gasStrategy: 'rush',
-      gasMultiplier: 3.0,
-      customGasPrice: ultraRushGasPrice.toString(),
-      maxPriorityFeePerGas: Math.ceil(ultraRushGasPrice * 0.9).toString(),
-      maxFeePerGas: (ultraRushGasPrice * 1.5).toString()
+      gasMultiplier: standardFee > 0 ? Math.round(Number(tier.maxFeePerGas) / standardFee * 100) / 100 : 1,
+      customGasPrice: toGwei(tier.maxFeePerGas),
+      maxPriorityFeePerGas: toGwei(tier.maxPriorityFeePerGas),
+      maxFeePerGas: toGwei(tier.maxFeePerGas)
     }
   }
 }
\ No newline at end of file
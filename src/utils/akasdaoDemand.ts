@@ -7,6 +7,11 @@ import {
   getValidatedContractInfo,
   ContractValidationResult 
 } from './contractValidation'
+import { addressGuard } from './addressBook'
+import { dryRun, signWithoutBroadcast } from './dryRun'
+import { nonceManager } from './nonceManager'
+import { feeEscalator, waitForEscalatedReceipt } from './feeEscalation'
+import { revertRegistry } from './revertRegistry'
 
 // AkasaDAO 活期质押协议配置
 export const AKASDAO_DEMAND_CONFIG = {
@@ -72,6 +77,8 @@ export interface DemandRecord {
 export class AkasaDAODemandService {
   private provider: ethers.JsonRpcProvider
   private wallet: ethers.Wallet | null = null
+  // 已发送、等待确认的交易（按哈希）
+  private pendingTransactions = new Map<string, ethers.TransactionResponse>()
   private demandContract: ethers.Contract | null = null
   private asTokenContract: ethers.Contract | null = null
   private sAsTokenContract: ethers.Contract | null = null
@@ -265,11 +272,19 @@ export class AkasaDAODemandService {
       )
 
       if (allowance < amountWei) {
+        // 模拟运行时不发送授权交易
+        if (dryRun.isEnabled()) {
+          console.log('模拟运行: 授权不足，跳过授权交易')
+          return
+        }
+
         console.log('授权AS Token...')
-        const approveTx = await this.asTokenContract.approve(
+        const asTokenContract = this.asTokenContract
+        const approveTx = await nonceManager.send(this.wallet, nonce => asTokenContract.approve(
           AKASDAO_DEMAND_CONFIG.DEMAND_CONTRACT,
-          ethers.MaxUint256 // 授权最大数量
-        )
+          ethers.MaxUint256, // 授权最大数量
+          { nonce }
+        ))
         await approveTx.wait()
         console.log('AS Token授权成功')
       } else {
@@ -277,17 +292,20 @@ export class AkasaDAODemandService {
       }
     } catch (error) {
       console.error('AS Token授权失败:', error)
-      throw new Error(`AS Token授权失败: ${error instanceof Error ? error.message : '未知错误'}`)
+      const revertReason = revertRegistry.describe(error, 'asToken')
+      throw new Error(`AS Token授权失败: ${revertReason ? `合约执行被回滚: ${revertReason}` : (error instanceof Error ? error.message : '未知错误')}`)
     }
   }
 
   // 质押AS Token
-  async stake(amount: string): Promise<{ txHash: string }> {
+  async stake(amount: string): Promise<{ txHash: string; simulated?: boolean; projectedGasCost?: string }> {
     if (!this.demandContract || !this.wallet) {
       throw new Error('服务未初始化')
     }
 
     try {
+      addressGuard.assertAllowed(AKASDAO_DEMAND_CONFIG.DEMAND_CONTRACT, 'AkasaDAO活期质押')
+
       console.log('开始质押AS Token...')
       console.log('质押金额:', amount)
       console.log('钱包地址:', this.wallet.address)
@@ -306,16 +324,42 @@ export class AkasaDAODemandService {
 
       const amountWei = ethers.parseUnits(amount, 18)
       console.log('质押金额(Wei):', amountWei.toString())
+
+      // 模拟运行：签名质押交易后停止
+      // 授权交易未发送时估算会失败，此时使用固定的Gas限制
+      if (dryRun.isEnabled()) {
+        let gasLimit: bigint
+        try {
+          gasLimit = await this.demandContract.stake.estimateGas(amountWei)
+        } catch (error) {
+          console.error('Gas估算失败，使用默认值:', error)
+          gasLimit = BigInt(300000)
+        }
+        const populated = await this.demandContract.stake.populateTransaction(amountWei, { gasLimit })
+        const simulated = await signWithoutBroadcast(this.wallet, populated)
+        return {
+          txHash: simulated.hash,
+          simulated: true,
+          projectedGasCost: ethers.formatEther(simulated.projectedGasCost)
+        }
+      }
       
       console.log('调用活期质押合约stake函数...')
-      const tx = await this.demandContract.stake(amountWei)
+      const demandContract = this.demandContract
+      const tx = await nonceManager.send(this.wallet, nonce => demandContract.stake(amountWei, { nonce }))
       console.log('质押交易已发送，等待确认...')
+      feeEscalator.watch(this.wallet, tx, '活期质押')
+      this.pendingTransactions.set(tx.hash, tx)
       
       return {
         txHash: tx.hash
       }
     } catch (error) {
       console.error('质押失败:', error)
+      const revertReason = revertRegistry.describe(error, 'demand')
+      if (revertReason) {
+        throw new Error(`质押失败: 合约执行被回滚: ${revertReason}`)
+      }
       throw new Error(`质押失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
   }
@@ -335,7 +379,8 @@ export class AkasaDAODemandService {
       console.log('解质押金额(Wei):', amountWei.toString())
       
       console.log('调用活期质押合约unstake函数...')
-      const tx = await this.demandContract.unstake(amountWei)
+      const demandContract = this.demandContract
+      const tx = await nonceManager.send(this.wallet, nonce => demandContract.unstake(amountWei, { nonce }))
       console.log('解质押交易已发送，等待确认...')
       
       return {
@@ -366,7 +411,8 @@ export class AkasaDAODemandService {
       }
 
       console.log('调用活期质押合约claimReward函数...')
-      const tx = await this.demandContract.claimReward()
+      const demandContract = this.demandContract
+      const tx = await nonceManager.send(this.wallet, nonce => demandContract.claimReward({ nonce }))
       console.log('领取奖励交易已发送，等待确认...')
       
       return {
@@ -386,7 +432,12 @@ export class AkasaDAODemandService {
 
     try {
       console.log('等待交易确认:', txHash)
-      const receipt = await this.provider.waitForTransaction(txHash)
+      // 本服务发出的交易可能被自动加价替换，按原交易跟踪替换交易的回执
+      const pending = this.pendingTransactions.get(txHash)
+      const receipt = pending
+        ? await waitForEscalatedReceipt(pending)
+        : await this.provider.waitForTransaction(txHash)
+      this.pendingTransactions.delete(txHash)
       if (receipt) {
         console.log('交易确认成功，区块号:', receipt.blockNumber)
         return receipt
@@ -395,6 +446,7 @@ export class AkasaDAODemandService {
       }
     } catch (error) {
       console.error('等待交易确认失败:', error)
+      this.pendingTransactions.delete(txHash)
       throw new Error(`交易确认失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
   }
@@ -0,0 +1,145 @@
+import { ethers } from 'ethers'
+import { rpcOptimizer } from './rpcOptimizer'
+import { validateContractAddress } from './contractValidation'
+import { AKASDAO_CONFIG } from './akasdao'
+import { AKASDAO_DEMAND_CONFIG } from './akasdaoDemand'
+
+export const DEFAULT_APPROVAL_SCAN_BLOCKS = 500000 // 默认扫描最近的区块数（Polygon约12天）
+const LOG_CHUNK_SIZE = 5000
+
+// 超过该值视为无限授权（常见做法为MaxUint256，部分合约会在使用后递减）
+const UNLIMITED_ALLOWANCE_THRESHOLD = ethers.MaxUint256 / BigInt(2)
+
+const approvalInterface = new ethers.Interface([
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)'
+])
+const APPROVAL_TOPIC = approvalInterface.getEvent('Approval')!.topicHash
+const APPROVAL_FOR_ALL_TOPIC = approvalInterface.getEvent('ApprovalForAll')!.topicHash
+
+// 本程序自身使用的合约，授权给它们属于正常操作
+const KNOWN_SPENDERS: Record<string, string> = {
+  [AKASDAO_CONFIG.TURBINE_CONTRACT.toLowerCase()]: 'AkasaDAO Turbine',
+  [AKASDAO_DEMAND_CONFIG.DEMAND_CONTRACT.toLowerCase()]: 'AkasaDAO活期质押'
+}
+
+// 当前仍有效的授权
+export interface TokenApproval {
+  token: string
+  kind: 'erc20' | 'operator' // operator: ERC-721/ERC-1155的setApprovalForAll
+  spender: string
+  allowance: string // ERC-20原始数量，operator授权为空
+  formattedAllowance: string
+  tokenSymbol?: string
+  unlimited: boolean
+  spenderLabel?: string // 地址簿或已知合约中的名称
+  spenderType: 'eoa' | 'contract' | 'unverified' // unverified: 有代码但无法识别类型
+}
+
+export interface ApprovalScanOptions {
+  blocks?: number
+  knownAddresses?: { address: string; label: string }[] // 地址簿中的地址视为已知
+  onProgress?: (message: string) => void
+}
+
+export function getApprovalKey(approval: Pick<TokenApproval, 'token' | 'spender'>): string {
+  return `${approval.token.toLowerCase()}:${approval.spender.toLowerCase()}`
+}
+
+// 授权是否需要关注：无限授权、授权给普通地址或无法识别的合约、且不在已知列表中
+export function isRiskyApproval(approval: TokenApproval): boolean {
+  return approval.unlimited || approval.spenderType !== 'contract' || !approval.spenderLabel
+}
+
+// 扫描钱包发出的Approval和ApprovalForAll日志，再读取当前授权额度，只返回仍有效的授权
+// ERC-721的单个tokenId授权（Approval事件带4个topic）在转移后自动失效，不在扫描范围内
+export async function scanApprovals(
+  provider: ethers.JsonRpcProvider,
+  owner: string,
+  options: ApprovalScanOptions = {}
+): Promise<TokenApproval[]> {
+  const totalBlocks = options.blocks || DEFAULT_APPROVAL_SCAN_BLOCKS
+  const latestBlock = await provider.getBlockNumber()
+  const startBlock = Math.max(0, latestBlock - totalBlocks + 1)
+  const ownerTopic = ethers.zeroPadValue(owner, 32)
+
+  const candidates = new Map<string, Pick<TokenApproval, 'token' | 'kind' | 'spender'>>()
+
+  for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += LOG_CHUNK_SIZE) {
+    const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock)
+    const logs = await provider.getLogs({ fromBlock, toBlock, topics: [[APPROVAL_TOPIC, APPROVAL_FOR_ALL_TOPIC], ownerTopic] })
+
+    for (const log of logs) {
+      const isOperator = log.topics[0] === APPROVAL_FOR_ALL_TOPIC
+      if (!isOperator && log.topics.length !== 3) continue
+
+      const candidate = {
+        token: ethers.getAddress(log.address),
+        kind: isOperator ? 'operator' as const : 'erc20' as const,
+        spender: ethers.getAddress(ethers.dataSlice(log.topics[2], 12))
+      }
+      candidates.set(getApprovalKey(candidate), candidate)
+    }
+
+    options.onProgress?.(`已扫描 ${toBlock - startBlock + 1}/${latestBlock - startBlock + 1} 个区块`)
+  }
+
+  if (candidates.size === 0) return []
+
+  // 当前额度和代币精度在一次Multicall3调用中读取
+  const list = [...candidates.values()]
+  const tokens = [...new Set(list.filter(candidate => candidate.kind === 'erc20').map(candidate => candidate.token))]
+  const values = await rpcOptimizer.batchRead([
+    ...list.map(candidate => candidate.kind === 'erc20'
+      ? { kind: 'allowance' as const, token: candidate.token, owner, spender: candidate.spender }
+      : { kind: 'isApprovedForAll' as const, token: candidate.token, owner, operator: candidate.spender }
+    ),
+    ...tokens.map(token => ({ kind: 'decimals' as const, token }))
+  ])
+  const decimalsByToken = new Map(tokens.map((token, index) => [token, values[list.length + index]]))
+
+  const active = list.flatMap((candidate, index) => {
+    const value = values[index]
+    if (candidate.kind === 'operator') {
+      return value === true ? [{ ...candidate, allowance: '', formattedAllowance: '全部', unlimited: true }] : []
+    }
+    if (typeof value !== 'bigint' || value === BigInt(0)) return []
+
+    const decimals = decimalsByToken.get(candidate.token)
+    const unlimited = value >= UNLIMITED_ALLOWANCE_THRESHOLD
+    return [{
+      ...candidate,
+      allowance: value.toString(),
+      formattedAllowance: unlimited ? '无限' : ethers.formatUnits(value, typeof decimals === 'number' ? decimals : 18),
+      unlimited
+    }]
+  })
+
+  options.onProgress?.(`正在核验 ${active.length} 个授权的被授权地址`)
+
+  // 被授权地址核验：普通地址、可识别的合约或无法识别的合约
+  const known = new Map(Object.entries(KNOWN_SPENDERS))
+  options.knownAddresses?.forEach(entry => known.set(entry.address.toLowerCase(), entry.label))
+
+  const spenders = [...new Set(active.map(approval => approval.spender))]
+  const validations = await Promise.all(spenders.map(spender => validateContractAddress(spender, provider)))
+  const spenderTypes = new Map(spenders.map((spender, index) => {
+    const validation = validations[index]
+    const type: TokenApproval['spenderType'] = !validation.isValid
+      ? (validation.error === '地址不是合约' ? 'eoa' : 'unverified')
+      : (validation.contractType === 'Unknown' ? 'unverified' : 'contract')
+    return [spender, type]
+  }))
+
+  const symbols = await Promise.all(active.map(approval => approval.kind === 'erc20'
+    ? rpcOptimizer.getTokenInfo(approval.token).then(info => info.symbol).catch(() => undefined)
+    : Promise.resolve(undefined)
+  ))
+
+  return active.map((approval, index) => ({
+    ...approval,
+    tokenSymbol: symbols[index],
+    spenderLabel: known.get(approval.spender.toLowerCase()),
+    spenderType: spenderTypes.get(approval.spender) || 'unverified'
+  }))
+}
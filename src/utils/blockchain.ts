@@ -1,6 +1,18 @@
 import { ethers } from 'ethers'
 import { formatPrivateKey, formatAddress } from './encryption'
 import { rpcOptimizer } from './rpcOptimizer'
+import { splitByRule, validateRoutingRule, RouteLeg } from './routing'
+import { addressGuard } from './addressBook'
+import { dryRun, describeSignedTransaction, signWithoutBroadcast, SimulatedTransaction } from './dryRun'
+import { nonceManager } from './nonceManager'
+import { ERC721_ABI, ERC1155_ABI, NftHolding } from './nft'
+import { simulateTransaction, assertSimulationPasses, describeRevertError } from './simulation'
+import { gasOracle, OracleFees } from './gasOracle'
+import { gasBudget } from './gasBudget'
+import { congestionTracker, recommendGasStrategy, CongestionTrend } from './congestionTracker'
+import { feeEscalator, waitForEscalatedReceipt } from './feeEscalation'
+import type { TokenApproval } from './approvals'
+import type { RoutingRule } from '../store/useWalletStore'
 
 // Polygon网络配置
 const POLYGON_RPC_URL = 'https://polygon-rpc.com'
@@ -31,6 +43,24 @@ const ERC20_ABI = [
   'event Approval(address indexed owner, address indexed spender, uint256 value)'
 ]
 
+// ERC-721/ERC-1155的全部授权
+const SET_APPROVAL_FOR_ALL_ABI = ['function setApprovalForAll(address operator, bool approved)']
+
+// EIP-2612 permit及DAI式permit（holder/nonce/expiry/allowed）
+const PERMIT_ABI = [
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function nonces(address owner) view returns (uint256)',
+  'function PERMIT_TYPEHASH() view returns (bytes32)',
+  'function version() view returns (string)',
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function permit(address holder, address spender, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)'
+]
+const DAI_PERMIT_TYPEHASH = ethers.id('Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)')
+const PERMIT_DEADLINE = 30 * 60 // permit签名有效期（秒）
+// permit上链前无法估算transferFrom的Gas，使用固定上限（EIP-1559只按实际使用量扣费）
+const PERMIT_TRANSFER_GAS_LIMIT = BigInt(150000)
+
 // ERC-20代币信息接口
 export interface TokenInfo {
   address: string
@@ -47,14 +77,6 @@ export interface TokenBalance {
   tokenInfo: TokenInfo
 }
 
-// Gas费策略配置
-const GAS_STRATEGIES = {
-  fast: 1.5,
-  standard: 1.2,
-  safe: 1.0,
-  custom: 1.0 // 自定义策略的基础倍数，实际倍数由用户设置
-}
-
 // 自定义Gas配置接口
 export interface CustomGasConfig {
   gasMultiplier: number // Gas价格倍数 (1-10)
@@ -75,19 +97,133 @@ export interface TransactionResult {
   success: boolean
   gasUsed?: bigint
   gasPrice?: bigint
+  effectiveGasPrice?: bigint // 回执中的实际Gas价格，未等待确认时为空
   error?: string
+  simulated?: boolean // 模拟运行：交易已签名但未广播
+  projectedGasCost?: bigint // 模拟运行时按Gas上限估算的费用（wei）
+  // 已广播交易的nonce和EIP-1559费用，用于加速或取消
+  nonce?: number
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+}
+
+// 加速或取消时需要的原交易信息（来自转账记录）
+export interface ReplaceableTransaction {
+  hash: string
+  nonce: number
+  toAddress: string
+  amount: string
+  tokenAddress?: string
+  nftTokenIds?: string[] // NFT转移（无法从记录重建）
+  gasPrice?: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+}
+
+// 预签名转账交易（针对下一个nonce）
+export interface PresignedSweep {
+  nonce: number
+  amount: bigint
+  gasLimit: bigint
+  gasPrice: bigint // EIP-1559交易为maxFeePerGas
+  maxPriorityFeePerGas?: bigint
+  totalCost: bigint
+  rawTransaction: string
+}
+
+// 分账转账中每一笔的结果
+export interface RoutedTransferLeg {
+  to: string
+  amount: string
+  isDust: boolean
+  result: TransactionResult
+}
+
+// 精确清零转账的单次转账（余额高于Gas成本时会自动补扫，产生多次）
+export interface PreciseSweepPass {
+  amount: string
+  result: TransactionResult
+}
+
+// 代币的permit支持情况：style区分EIP-2612与DAI式permit，domain已与链上DOMAIN_SEPARATOR核对
+export interface PermitSupport {
+  style: 'eip2612' | 'dai'
+  domain: ethers.TypedDataDomain
+  nonce: bigint
+}
+
+// permit免Gas代币转移结果（被盗钱包离线签名，提交钱包发送permit和transferFrom）
+export interface PermitTokenSweepResult {
+  submitterAddress: string
+  amount: string
+  permit: TransactionResult
+  sweep: TransactionResult // transferFrom
+}
+
+// NFT转移结果：批量模式下同一ERC-1155合约的多个token合并为一笔交易
+export interface NftTransferResult {
+  holdings: NftHolding[]
+  result: TransactionResult
+}
+
+// Gas赞助代币转账结果（赞助钱包先补足Gas，再广播预签名的代币转账）
+export interface SponsoredTokenSweepResult {
+  sponsorAddress: string
+  amount: string // 转移的代币数量
+  fundedAmount: string // 赞助的MATIC数量，余额已足够时为0
+  funding: TransactionResult | null
+  sweep: TransactionResult
+}
+
+// 模拟运行的交易结果（哈希为签名后的交易哈希，不会出现在链上）
+function toSimulatedResult(simulated: SimulatedTransaction): TransactionResult {
+  return {
+    hash: simulated.hash,
+    success: true,
+    simulated: true,
+    gasPrice: simulated.gasPrice,
+    projectedGasCost: simulated.projectedGasCost
+  }
 }
 
-class BlockchainService {
+// 已广播交易的nonce和费用字段
+function sentFeeFields(tx: ethers.TransactionResponse): Pick<TransactionResult, 'nonce' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+  return {
+    nonce: tx.nonce,
+    maxFeePerGas: tx.maxFeePerGas ?? undefined,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? undefined
+  }
+}
+
+// 替换交易的费用需比原交易高至少10%
+function bumpReplacementFee(value: bigint): bigint {
+  return value * BigInt(11) / BigInt(10) + BigInt(1)
+}
+
+// 精确清零转账最多执行的次数（首笔 + 剩余余额高于Gas成本时的补扫）
+const PRECISE_SWEEP_MAX_PASSES = 2
+// 精确清零交易的maxFeePerGas没有预留基础费用上涨的余量，约3个区块未打包时按最新费用替换
+const PRECISE_SWEEP_STUCK_TIMEOUT = 6000
+const PRECISE_SWEEP_MAX_REPLACEMENTS = 5
+const PRECISE_SWEEP_FINAL_TIMEOUT = 120000 // 替换次数用完后继续等待的时间
+const RECEIPT_POLL_INTERVAL = 1000
+
+// 按预言机费用和Gas限制组装估算结果，EIP-1559交易按maxFeePerGas计算总费用上限
+function toGasEstimate(gasLimit: bigint, fees: OracleFees): GasEstimate {
+  return { gasLimit, ...fees, totalCost: gasLimit * fees.gasPrice }
+}
+
+export class BlockchainService {
   private provider: ethers.JsonRpcProvider
   private wallet: ethers.Wallet | null = null
   private lastRequestTime = 0
   private requestCount = 0
   private rateLimitResetTime = 0
 
-  constructor() {
+  // 传入provider时与其他实例共享连接（多钱包监控）
+  constructor(provider?: ethers.JsonRpcProvider) {
     // 使用优化的RPC提供者
-    this.provider = new ethers.JsonRpcProvider(POLYGON_RPC_URL)
+    this.provider = provider || new ethers.JsonRpcProvider(POLYGON_RPC_URL)
   }
 
 
@@ -303,54 +439,22 @@ class BlockchainService {
 
       const value = ethers.parseEther(amount)
       
-      // 并行获取Gas限制和费用数据
-      const [gasLimit, feeData] = await Promise.all([
+      // 并行获取Gas限制和预言机费用
+      const [gasLimit, fees] = await Promise.all([
         this.provider.estimateGas({
           from: this.wallet.address,
           to: formatAddress(to),
           value
         }),
-        this.provider.getFeeData()
+        gasOracle.getFees(this.provider, gasStrategy, customGasConfig)
       ])
 
-      // 计算Gas倍数
-      let multiplier = GAS_STRATEGIES[gasStrategy]
-      if (gasStrategy === 'custom' && customGasConfig) {
-        multiplier = customGasConfig.crazyMode 
-          ? Math.max(customGasConfig.gasMultiplier, 5) // 疯狂模式最少5倍
-          : customGasConfig.gasMultiplier
-      }
-
       // 使用自定义Gas限制（如果提供）
       const finalGasLimit = (gasStrategy === 'custom' && customGasConfig?.gasLimit) 
         ? customGasConfig.gasLimit 
         : gasLimit
 
-      // 支持EIP-1559的动态费用
-      if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
-        const maxFeePerGas = BigInt(Math.floor(Number(feeData.maxFeePerGas) * multiplier))
-        const maxPriorityFeePerGas = BigInt(Math.floor(Number(feeData.maxPriorityFeePerGas) * multiplier))
-        const totalCost = finalGasLimit * maxFeePerGas
-
-        return {
-          gasLimit: finalGasLimit,
-          gasPrice: maxFeePerGas,
-          maxFeePerGas,
-          maxPriorityFeePerGas,
-          totalCost
-        }
-      } else {
-        // 传统Gas价格
-        const baseGasPrice = feeData.gasPrice || BigInt(0)
-        const gasPrice = BigInt(Math.floor(Number(baseGasPrice) * multiplier))
-        const totalCost = finalGasLimit * gasPrice
-
-        return {
-          gasLimit: finalGasLimit,
-          gasPrice,
-          totalCost
-        }
-      }
+      return toGasEstimate(finalGasLimit, fees)
     })
   }
 
@@ -371,50 +475,18 @@ class BlockchainService {
       const tokenInfo = await this.getTokenInfo(tokenAddress)
       const value = ethers.parseUnits(amount, tokenInfo.decimals)
       
-      // 并行获取Gas限制和费用数据
-      const [gasLimit, feeData] = await Promise.all([
+      // 并行获取Gas限制和预言机费用
+      const [gasLimit, fees] = await Promise.all([
         contract.transfer.estimateGas(formatAddress(to), value),
-        this.provider.getFeeData()
+        gasOracle.getFees(this.provider, gasStrategy, customGasConfig)
       ])
 
-      // 计算Gas倍数
-      let multiplier = GAS_STRATEGIES[gasStrategy]
-      if (gasStrategy === 'custom' && customGasConfig) {
-        multiplier = customGasConfig.crazyMode 
-          ? Math.max(customGasConfig.gasMultiplier, 5) // 疯狂模式最少5倍
-          : customGasConfig.gasMultiplier
-      }
-
       // 使用自定义Gas限制（如果提供）
       const finalGasLimit = (gasStrategy === 'custom' && customGasConfig?.gasLimit) 
         ? customGasConfig.gasLimit 
         : gasLimit
 
-      // 支持EIP-1559的动态费用
-      if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
-        const maxFeePerGas = BigInt(Math.floor(Number(feeData.maxFeePerGas) * multiplier))
-        const maxPriorityFeePerGas = BigInt(Math.floor(Number(feeData.maxPriorityFeePerGas) * multiplier))
-        const totalCost = finalGasLimit * maxFeePerGas
-
-        return {
-          gasLimit: finalGasLimit,
-          gasPrice: maxFeePerGas,
-          maxFeePerGas,
-          maxPriorityFeePerGas,
-          totalCost
-        }
-      } else {
-        // 传统Gas价格
-        const baseGasPrice = feeData.gasPrice || BigInt(0)
-        const gasPrice = BigInt(Math.floor(Number(baseGasPrice) * multiplier))
-        const totalCost = finalGasLimit * gasPrice
-
-        return {
-          gasLimit: finalGasLimit,
-          gasPrice,
-          totalCost
-        }
-      }
+      return toGasEstimate(finalGasLimit, fees)
     } catch (error) {
       console.error('代币Gas估算失败:', error)
       throw new Error('代币Gas费用估算失败')
@@ -425,69 +497,27 @@ class BlockchainService {
   async getOptimalGasStrategy(): Promise<{
     recommended: 'fast' | 'standard' | 'safe'
     estimates: Record<string, GasEstimate>
+    trend: CongestionTrend
   }> {
     try {
-      const feeData = await this.provider.getFeeData()
-      const baseGasPrice = feeData.gasPrice || BigInt(0)
-      
       const estimates: Record<string, GasEstimate> = {}
       const strategies: Array<'fast' | 'standard' | 'safe'> = ['safe', 'standard', 'fast']
+      const gasLimit = BigInt(21000) // 基础转账Gas限制
       
       for (const strategy of strategies) {
-        const multiplier = GAS_STRATEGIES[strategy]
-        const gasPrice = BigInt(Math.floor(Number(baseGasPrice) * multiplier))
-        const gasLimit = BigInt(21000) // 基础转账Gas限制
-        
-        estimates[strategy] = {
-          gasLimit,
-          gasPrice,
-          totalCost: gasLimit * gasPrice
-        }
+        estimates[strategy] = toGasEstimate(gasLimit, await gasOracle.getFees(this.provider, strategy))
       }
       
-      // 根据网络拥堵情况推荐策略
-      const networkCongestion = await this.getNetworkCongestion()
-      let recommended: 'fast' | 'standard' | 'safe' = 'standard'
-      
-      if (networkCongestion > 0.8) {
-        recommended = 'fast'
-      } else if (networkCongestion < 0.3) {
-        recommended = 'safe'
-      }
+      // 根据最近多个区块平滑后的拥堵程度和基础费用趋势推荐策略
+      const congestion = await congestionTracker.getSnapshot(this.provider)
       
-      return { recommended, estimates }
+      return { recommended: recommendGasStrategy(congestion), estimates, trend: congestion?.trend ?? 'stable' }
     } catch (error) {
       console.error('获取最优Gas策略失败:', error)
       throw new Error('获取最优Gas策略失败')
     }
   }
 
-  // 获取网络拥堵程度 - 新增功能
-  private async getNetworkCongestion(): Promise<number> {
-    try {
-      const [currentBlock, gasPrice] = await Promise.all([
-        this.provider.getBlock('latest'),
-        this.provider.getFeeData()
-      ])
-      
-      if (!currentBlock || !gasPrice.gasPrice) {
-        return 0.5 // 默认中等拥堵
-      }
-      
-      // 基于Gas使用率和价格计算拥堵程度
-      const gasUsedRatio = Number(currentBlock.gasUsed) / Number(currentBlock.gasLimit)
-      const gasPriceGwei = Number(ethers.formatUnits(gasPrice.gasPrice, 'gwei'))
-      
-      // 简单的拥堵算法：Gas使用率 * Gas价格权重
-      const congestion = Math.min(gasUsedRatio * (gasPriceGwei / 50), 1)
-      
-      return congestion
-    } catch (error) {
-      console.error('获取网络拥堵程度失败:', error)
-      return 0.5
-    }
-  }
-
   // 交易预检查 - 新增功能
   private async preflightTransaction(
     to: string,
@@ -529,14 +559,6 @@ class BlockchainService {
       
       if (isContract) {
         warnings.push(`目标地址是合约地址: ${to}`)
-        
-        // 检查合约是否支持接收ETH
-        try {
-          const contract = new ethers.Contract(to, ['function receive() external payable'], this.provider)
-          await contract.receive.staticCall({ value: BigInt(1) })
-        } catch (error) {
-          warnings.push('合约可能不支持接收ETH转账')
-        }
       }
 
       // 5. 获取Gas估算
@@ -546,6 +568,24 @@ class BlockchainService {
         // 对于合约地址，增加Gas限制
         gasEstimate.gasLimit = BigInt(Math.floor(Number(gasEstimate.gasLimit) * 1.2))
         warnings.push(`已为合约地址增加20% Gas限制`)
+
+        // 在pending区块上执行完全相同的转账，确认合约能够接收MATIC
+        const simulation = await simulateTransaction(this.provider, {
+          from: this.wallet.address,
+          to,
+          value,
+          gasLimit: gasEstimate.gasLimit,
+          ...(gasEstimate.maxFeePerGas && gasEstimate.maxPriorityFeePerGas
+            ? { type: 2, maxFeePerGas: gasEstimate.maxFeePerGas, maxPriorityFeePerGas: gasEstimate.maxPriorityFeePerGas }
+            : { gasPrice: gasEstimate.gasPrice })
+        })
+        if (!simulation.success) {
+          errors.push(`交易模拟失败: ${simulation.revert ? simulation.revert.reason : simulation.error}`)
+          return { isValid: false, warnings, errors, gasEstimate }
+        }
+        if (simulation.inconclusive) {
+          warnings.push('交易模拟未完成，无法确认合约能否接收MATIC')
+        }
       }
 
       // 6. 检查余额
@@ -639,14 +679,19 @@ class BlockchainService {
   }
 
   // 发送交易 - 优化版本，增强错误处理
+  // waitForConfirmation为false时广播后立即返回（批量发送由nonce管理器保证顺序）
   async sendTransaction(
     to: string,
     amount: string,
     gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
-    customGasConfig?: CustomGasConfig
+    customGasConfig?: CustomGasConfig,
+    waitForConfirmation: boolean = true
   ): Promise<TransactionResult> {
     return this.retryTransaction(async () => {
       try {
+        // 白名单模式下拒绝发送到地址簿以外的地址
+        addressGuard.assertAllowed(to, 'MATIC转账')
+
         // 执行预检查
         const preflight = await this.preflightTransaction(to, amount, gasStrategy, customGasConfig)
         
@@ -685,18 +730,45 @@ class BlockchainService {
           gasPrice: transaction.gasPrice ? ethers.formatUnits(transaction.gasPrice, 'gwei') + ' gwei' : 'EIP-1559'
         })
 
-        // 发送交易
-        const txResponse = await this.wallet!.sendTransaction(transaction)
+        // Gas上限检查（模拟运行同样执行，便于提前发现被拦截的转账）
+        gasBudget.assertWithinBudget({
+          action: 'MATIC转账',
+          gasPrice: gasEstimate.gasPrice,
+          gasCost: gasEstimate.totalCost,
+          value
+        })
+
+        // 模拟运行：签名后停止
+        if (dryRun.isEnabled()) {
+          return toSimulatedResult(await signWithoutBroadcast(this.wallet!, transaction))
+        }
+
+        // 发送交易（nonce由共享nonce管理器分配）
+        const wallet = this.wallet!
+        const txResponse = await nonceManager.send(wallet, nonce => wallet.sendTransaction({ ...transaction, nonce }))
         
         console.log(`📝 交易已发送，哈希: ${txResponse.hash}`)
+        gasBudget.recordSpend('MATIC转账', gasEstimate.totalCost, txResponse.hash)
+        feeEscalator.watch(wallet, txResponse, 'MATIC转账')
+
+        if (!waitForConfirmation) {
+          return {
+            hash: txResponse.hash,
+            success: true,
+            gasPrice: gasEstimate.gasPrice,
+            ...sentFeeFields(txResponse)
+          }
+        }
         
-        // 等待交易确认（最多等待3个确认）
-        const receipt = await txResponse.wait(1)
+        // 等待交易确认（被自动加价替换时返回替换交易的回执）
+        const receipt = await waitForEscalatedReceipt(txResponse)
         
         if (!receipt) {
           throw new Error('交易确认失败')
         }
 
+        nonceManager.markConfirmed(wallet.address, txResponse.nonce)
+
         if (receipt.status === 0) {
           throw new Error('交易执行失败，可能被回滚')
         }
@@ -704,10 +776,12 @@ class BlockchainService {
         console.log(`✅ 交易确认成功，Gas使用: ${receipt.gasUsed.toString()}`)
 
         return {
-          hash: txResponse.hash,
+          hash: receipt.hash,
           success: receipt.status === 1,
           gasUsed: receipt.gasUsed,
-          gasPrice: receipt.gasPrice || gasEstimate.gasPrice
+          effectiveGasPrice: receipt.gasPrice,
+          gasPrice: receipt.gasPrice || gasEstimate.gasPrice,
+          ...sentFeeFields(txResponse)
         }
       } catch (error) {
         console.error('❌ 交易发送失败:', error)
@@ -748,20 +822,16 @@ class BlockchainService {
     privateKey?: string,
     gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
     customGasConfig?: CustomGasConfig
-  ): Promise<{ txHash: string; success: boolean; error?: string }> {
+  ): Promise<Omit<TransactionResult, 'hash'> & { txHash: string }> {
     try {
       // 如果提供了私钥，重新初始化钱包
       if (privateKey) {
         await this.initializeWallet(privateKey)
       }
 
-      const result = await this.sendTransaction(to, amount, gasStrategy, customGasConfig)
+      const { hash, ...result } = await this.sendTransaction(to, amount, gasStrategy, customGasConfig)
       
-      return {
-        txHash: result.hash,
-        success: result.success,
-        error: result.error
-      }
+      return { txHash: hash, ...result }
     } catch (error) {
       console.error('转账失败:', error)
       return {
@@ -780,20 +850,16 @@ class BlockchainService {
     privateKey?: string,
     gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
     customGasConfig?: CustomGasConfig
-  ): Promise<{ txHash: string; success: boolean; error?: string }> {
+  ): Promise<Omit<TransactionResult, 'hash'> & { txHash: string }> {
     try {
       // 如果提供了私钥，重新初始化钱包
       if (privateKey) {
         await this.initializeWallet(privateKey)
       }
 
-      const result = await this.sendTokenTransaction(tokenAddress, to, amount, gasStrategy, customGasConfig)
+      const { hash, ...result } = await this.sendTokenTransaction(tokenAddress, to, amount, gasStrategy, customGasConfig)
       
-      return {
-        txHash: result.hash,
-        success: result.success,
-        error: result.error
-      }
+      return { txHash: hash, ...result }
     } catch (error) {
       console.error('代币转账失败:', error)
       return {
@@ -810,7 +876,8 @@ class BlockchainService {
     to: string,
     amount: string,
     gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
-    customGasConfig?: CustomGasConfig
+    customGasConfig?: CustomGasConfig,
+    waitForConfirmation: boolean = true
   ): Promise<TransactionResult> {
     return this.retryTransaction(async () => {
       try {
@@ -828,6 +895,8 @@ class BlockchainService {
           throw new Error('无效的目标地址')
         }
 
+        addressGuard.assertAllowed(to, '代币转账')
+
         // 验证代币合约是否存在
         const contractCode = await this.provider.getCode(tokenAddress)
         if (contractCode === '0x') {
@@ -895,18 +964,51 @@ class BlockchainService {
           gasPrice: txOptions.gasPrice ? ethers.formatUnits(txOptions.gasPrice, 'gwei') + ' gwei' : 'EIP-1559'
         })
 
-        // 发送代币转账交易
-        const txResponse = await contract.transfer(formatAddress(to), value, txOptions)
+        // 广播前在pending区块上模拟，回滚时给出解码后的原因
+        const populated = await contract.transfer.populateTransaction(formatAddress(to), value, txOptions)
+        await assertSimulationPasses(this.provider, { ...populated, from: this.wallet.address })
+
+        // Gas上限检查：代币无法按MATIC计价，只检查Gas价格和每日预算
+        gasBudget.assertWithinBudget({
+          action: `${tokenInfo.symbol}转账`,
+          gasPrice: gasEstimate.gasPrice,
+          gasCost: gasEstimate.totalCost
+        })
+
+        // 模拟运行：签名后停止
+        if (dryRun.isEnabled()) {
+          return toSimulatedResult(await signWithoutBroadcast(this.wallet, populated))
+        }
+
+        // 发送代币转账交易（nonce由共享nonce管理器分配）
+        const wallet = this.wallet
+        const txResponse: ethers.ContractTransactionResponse = await nonceManager.send(
+          wallet,
+          nonce => contract.transfer(formatAddress(to), value, { ...txOptions, nonce })
+        )
         
         console.log(`📝 代币转账已发送，哈希: ${txResponse.hash}`)
+        gasBudget.recordSpend(`${tokenInfo.symbol}转账`, gasEstimate.totalCost, txResponse.hash)
+        feeEscalator.watch(wallet, txResponse, `${tokenInfo.symbol}转账`)
+
+        if (!waitForConfirmation) {
+          return {
+            hash: txResponse.hash,
+            success: true,
+            gasPrice: gasEstimate.gasPrice,
+            ...sentFeeFields(txResponse)
+          }
+        }
         
-        // 等待交易确认
-        const receipt = await txResponse.wait(1)
+        // 等待交易确认（被自动加价替换时返回替换交易的回执）
+        const receipt = await waitForEscalatedReceipt(txResponse)
         
         if (!receipt) {
           throw new Error('交易确认失败')
         }
 
+        nonceManager.markConfirmed(wallet.address, txResponse.nonce)
+
         if (receipt.status === 0) {
           throw new Error('代币转账执行失败，可能被回滚')
         }
@@ -914,10 +1016,12 @@ class BlockchainService {
         console.log(`✅ 代币转账确认成功，Gas使用: ${receipt.gasUsed.toString()}`)
 
         return {
-          hash: txResponse.hash,
+          hash: receipt.hash,
           success: receipt.status === 1,
           gasUsed: receipt.gasUsed,
-          gasPrice: receipt.gasPrice || gasEstimate.gasPrice
+          effectiveGasPrice: receipt.gasPrice,
+          gasPrice: receipt.gasPrice || gasEstimate.gasPrice,
+          ...sentFeeFields(txResponse)
         }
       } catch (error) {
         console.error('❌ 代币转账失败:', error)
@@ -950,6 +1054,7 @@ class BlockchainService {
   }
 
   // 批量发送交易 - 新增功能
+  // nonce在本地连续分配，逐笔广播后不等待确认
   async sendBatchTransactions(
     transactions: Array<{ to: string; amount: string }>,
     gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
@@ -959,16 +1064,13 @@ class BlockchainService {
     
     for (const tx of transactions) {
       try {
-        const result = await this.sendTransaction(tx.to, tx.amount, gasStrategy, customGasConfig)
+        const result = await this.sendTransaction(tx.to, tx.amount, gasStrategy, customGasConfig, false)
         results.push(result)
         
         // 如果交易失败，停止后续交易
         if (!result.success) {
           break
         }
-        
-        // 交易间隔，避免nonce冲突
-        await new Promise(resolve => setTimeout(resolve, 1000))
       } catch (error) {
         results.push({
           hash: '',
@@ -982,7 +1084,7 @@ class BlockchainService {
     return results
   }
 
-  // 批量发送代币交易
+  // 批量发送代币交易（同样不等待确认）
   async sendBatchTokenTransactions(
     tokenAddress: string,
     transactions: Array<{ to: string; amount: string }>,
@@ -993,16 +1095,13 @@ class BlockchainService {
     
     for (const tx of transactions) {
       try {
-        const result = await this.sendTokenTransaction(tokenAddress, tx.to, tx.amount, gasStrategy, customGasConfig)
+        const result = await this.sendTokenTransaction(tokenAddress, tx.to, tx.amount, gasStrategy, customGasConfig, false)
         results.push(result)
         
         // 如果交易失败，停止后续交易
         if (!result.success) {
           break
         }
-        
-        // 交易间隔，避免nonce冲突
-        await new Promise(resolve => setTimeout(resolve, 1000))
       } catch (error) {
         results.push({
           hash: '',
@@ -1112,15 +1211,254 @@ class BlockchainService {
     }
   }
 
+  // 精确清零的费用：maxFeePerGas固定为下一个区块的预期基础费用+小费
+  // 实际扣费（基础费用+小费）与预留的Gas费用一致，不会因多预留的费用退回而在钱包中留下余额
+  // 基础费用上涨后交易无法打包，由waitForExactSweep按最新费用替换
+  private async estimateExactSweepFee(
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<{ gasPrice: bigint; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint }> {
+    const [fees, snapshot, pendingBlock] = await Promise.all([
+      gasOracle.getFees(this.provider, gasStrategy, customGasConfig),
+      gasOracle.getSnapshot(this.provider),
+      this.provider.getBlock('pending').catch(() => null)
+    ])
+
+    if (snapshot.legacy || !fees.maxPriorityFeePerGas) {
+      // 传统交易按gasPrice全额扣费，本身不会留下余额
+      return { gasPrice: fees.gasPrice }
+    }
+
+    // 优先使用节点给出的待打包区块基础费用，不支持时使用预言机根据最新区块推算的值
+    const baseFee = pendingBlock?.baseFeePerGas ?? snapshot.nextBaseFee
+    const maxPriorityFeePerGas = fees.maxPriorityFeePerGas
+    const maxFeePerGas = baseFee + maxPriorityFeePerGas
+    return { gasPrice: maxFeePerGas, maxFeePerGas, maxPriorityFeePerGas }
+  }
+
+  // 精确清零转账（单次）：转出余额减去按实际费率计算的Gas费用，余额不足以支付Gas时返回null
+  private async sendExactNativeSweep(
+    to: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<PreciseSweepPass | null> {
+    const wallet = this.wallet!
+    const target = formatAddress(to)
+
+    const [balance, gasLimit, fee] = await Promise.all([
+      this.provider.getBalance(wallet.address),
+      this.provider.estimateGas({ from: wallet.address, to: target, value: BigInt(1) }),
+      this.estimateExactSweepFee(gasStrategy, customGasConfig)
+    ])
+
+    const gasCost = gasLimit * fee.gasPrice
+    const value = balance - gasCost
+    if (value <= BigInt(0)) {
+      return null
+    }
+
+    const amount = ethers.formatEther(value)
+    const transaction: ethers.TransactionRequest = { to: target, value, gasLimit }
+    if (fee.maxFeePerGas && fee.maxPriorityFeePerGas) {
+      transaction.maxFeePerGas = fee.maxFeePerGas
+      transaction.maxPriorityFeePerGas = fee.maxPriorityFeePerGas
+      transaction.type = 2
+    } else {
+      transaction.gasPrice = fee.gasPrice
+    }
+
+    console.log(`🧹 精确清零转账: ${amount} MATIC，Gas费用 ${ethers.formatEther(gasCost)} MATIC（${ethers.formatUnits(fee.gasPrice, 'gwei')} gwei）`)
+
+    try {
+      gasBudget.assertWithinBudget({ action: 'MATIC精确清零', gasPrice: fee.gasPrice, gasCost, value })
+
+      if (dryRun.isEnabled()) {
+        return { amount, result: toSimulatedResult(await signWithoutBroadcast(wallet, transaction)) }
+      }
+
+      const txResponse = await nonceManager.send(wallet, nonce => wallet.sendTransaction({ ...transaction, nonce }))
+      console.log(`📝 交易已发送，哈希: ${txResponse.hash}`)
+      gasBudget.recordSpend('MATIC精确清零', gasCost, txResponse.hash)
+
+      // 等待打包后才能确定是否还有剩余余额需要补扫（替换交易的转出数额按替换时的费用重新计算）
+      const { receipt, sent } = await this.waitForExactSweep(txResponse, gasStrategy, customGasConfig)
+      nonceManager.markConfirmed(wallet.address, txResponse.nonce)
+
+      return {
+        amount: ethers.formatEther(sent.value),
+        result: {
+          hash: receipt.hash,
+          success: receipt.status === 1,
+          error: receipt.status === 1 ? undefined : '交易执行失败，可能被回滚',
+          gasUsed: receipt.gasUsed,
+          effectiveGasPrice: receipt.gasPrice,
+          gasPrice: receipt.gasPrice || (sent.maxFeePerGas ?? sent.gasPrice),
+          ...sentFeeFields(sent)
+        }
+      }
+    } catch (error) {
+      console.error('❌ 精确清零转账失败:', error)
+      return {
+        amount,
+        result: { hash: '', success: false, error: error instanceof Error ? error.message : '未知错误' }
+      }
+    }
+  }
+
+  // 等待精确清零交易上链，超时未打包时以相同nonce按最新费用替换（两项费用至少加价10%），不依赖卡单自动加价
+  // 返回上链交易的回执及对应的已发送交易
+  private async waitForExactSweep(
+    first: ethers.TransactionResponse,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<{ receipt: ethers.TransactionReceipt; sent: ethers.TransactionResponse }> {
+    const sent = [first]
+
+    for (let replacements = 0; ; replacements++) {
+      const finalWait = replacements >= PRECISE_SWEEP_MAX_REPLACEMENTS
+      const mined = await this.waitForAnyReceipt(sent, finalWait ? PRECISE_SWEEP_FINAL_TIMEOUT : PRECISE_SWEEP_STUCK_TIMEOUT)
+      if (mined) return mined
+      if (finalWait) {
+        throw new Error(`精确清零交易 (nonce ${first.nonce}) 长时间未上链`)
+      }
+
+      try {
+        const replacement = await this.replaceExactSweep(sent[sent.length - 1], gasStrategy, customGasConfig)
+        if (replacement) sent.push(replacement)
+      } catch (error) {
+        // 替换前原交易可能已上链，或被Gas上限拦截，继续等待已发送的交易
+        console.warn('精确清零交易替换失败:', error)
+      }
+    }
+  }
+
+  // 轮询已发送交易的回执，任一上链即返回，超时返回null
+  private async waitForAnyReceipt(
+    sent: ethers.TransactionResponse[],
+    timeout: number
+  ): Promise<{ receipt: ethers.TransactionReceipt; sent: ethers.TransactionResponse } | null> {
+    const deadline = Date.now() + timeout
+    do {
+      const receipts = await Promise.all(sent.map(tx => this.provider.getTransactionReceipt(tx.hash)))
+      const index = receipts.findIndex(receipt => receipt !== null)
+      if (index >= 0) {
+        return { receipt: receipts[index]!, sent: sent[index] }
+      }
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL))
+    } while (Date.now() < deadline)
+    return null
+  }
+
+  // 按最新的基础费用重新计算精确清零交易并以相同nonce替换，余额不足以支付新费用时返回null
+  private async replaceExactSweep(
+    current: ethers.TransactionResponse,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<ethers.TransactionResponse | null> {
+    const wallet = this.wallet!
+    const max = (a: bigint, b: bigint) => (a > b ? a : b)
+    const [balance, fee] = await Promise.all([
+      this.provider.getBalance(wallet.address),
+      this.estimateExactSweepFee(gasStrategy, customGasConfig)
+    ])
+
+    const transaction: ethers.TransactionRequest = {
+      to: current.to,
+      gasLimit: current.gasLimit,
+      nonce: current.nonce,
+      chainId: POLYGON_CHAIN_ID
+    }
+    let previousPrice: bigint
+    let gasPrice: bigint
+
+    if (current.maxFeePerGas !== null && current.maxPriorityFeePerGas !== null) {
+      const baseFee = fee.maxFeePerGas && fee.maxPriorityFeePerGas ? fee.maxFeePerGas - fee.maxPriorityFeePerGas : fee.gasPrice
+      const priorityFee = max(fee.maxPriorityFeePerGas ?? BigInt(0), bumpReplacementFee(current.maxPriorityFeePerGas))
+      gasPrice = max(baseFee + priorityFee, bumpReplacementFee(current.maxFeePerGas))
+      transaction.type = 2
+      transaction.maxFeePerGas = gasPrice
+      transaction.maxPriorityFeePerGas = priorityFee
+      previousPrice = current.maxFeePerGas
+    } else {
+      gasPrice = max(fee.gasPrice, bumpReplacementFee(current.gasPrice))
+      transaction.type = 0
+      transaction.gasPrice = gasPrice
+      previousPrice = current.gasPrice
+    }
+
+    // 原交易尚未上链，余额仍完整
+    const value = balance - current.gasLimit * gasPrice
+    if (value <= BigInt(0)) {
+      console.warn('余额不足以支付精确清零替换交易的Gas费用，继续等待原交易')
+      return null
+    }
+    transaction.value = value
+
+    // 原交易的费用已计入Gas预算，替换只计入新增部分
+    const extraCost = current.gasLimit * (gasPrice - previousPrice)
+    gasBudget.assertWithinBudget({ action: 'MATIC精确清零替换', gasPrice, gasCost: extraCost })
+
+    const replacement = await wallet.sendTransaction(transaction)
+    nonceManager.markSent(wallet.address, current.nonce, replacement.hash)
+    gasBudget.recordSpend('MATIC精确清零替换', extraCost, replacement.hash)
+    console.log(`🔁 精确清零交易未打包，已按 ${ethers.formatUnits(gasPrice, 'gwei')} Gwei 替换 (nonce ${current.nonce})，哈希: ${replacement.hash}`)
+    return replacement
+  }
+
+  // 精确清零转账：首笔转账后如果剩余余额仍高于Gas成本（基础费用下降、Gas未用完等），自动再转一次
+  async executePreciseNativeSweep(
+    to: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig
+  ): Promise<PreciseSweepPass[]> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化，请先导入私钥')
+    }
+    if (!ethers.isAddress(to)) {
+      throw new Error('目标地址格式无效，请检查地址是否正确')
+    }
+    if (to.toLowerCase() === this.wallet.address.toLowerCase()) {
+      throw new Error('不能转账到自己的地址')
+    }
+
+    // 白名单模式下拒绝发送到地址簿以外的地址
+    addressGuard.assertAllowed(to, 'MATIC转账')
+
+    const passes: PreciseSweepPass[] = []
+    while (passes.length < PRECISE_SWEEP_MAX_PASSES) {
+      const pass = await this.sendExactNativeSweep(to, gasStrategy, customGasConfig)
+      if (!pass) break
+
+      passes.push(pass)
+      // 模拟运行不会改变余额，失败时不再补扫
+      if (!pass.result.success || pass.result.simulated) break
+    }
+
+    return passes
+  }
+
   // 执行最大数额转账 - 新增功能
   async executeMaxTransfer(
     to: string,
     transferType: 'native' | 'token' = 'native',
     tokenAddress?: string,
     gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
-    customGasConfig?: CustomGasConfig
-  ): Promise<TransactionResult> {
+    customGasConfig?: CustomGasConfig,
+    routingRule?: RoutingRule | null
+  ): Promise<TransactionResult & { legs?: RoutedTransferLeg[] }> {
     try {
+      // 配置了分账规则时按比例拆分到多个地址
+      if (routingRule) {
+        const legs = await this.executeRoutedTransfer(routingRule, transferType, tokenAddress, gasStrategy, customGasConfig)
+        const failed = legs.find(leg => !leg.result.success)
+        return {
+          hash: legs[0]?.result.hash || '',
+          success: !failed,
+          error: failed?.result.error,
+          legs
+        }
+      }
+
       // 执行前的安全检查
       console.log(`开始执行最大数额转账: ${transferType === 'token' ? '代币' : 'MATIC'} -> ${to}`)
       
@@ -1205,55 +1543,991 @@ class BlockchainService {
     }
   }
 
-  // 监听地址余额变化 - 优化版本
-  async monitorBalance(
-    address: string,
-    callback: (balance: string, blockNumber?: number) => void,
-    interval: number = 3000
-  ): Promise<() => void> {
-    let isMonitoring = true
-    let lastBalance = '0'
-    let lastBlockNumber = 0
+  // 按分账规则转移全部余额，每个目的地址一笔交易
+  // 原生MATIC按最多笔数预留Gas，实际笔数较少时多出的预留并入零头
+  async executeRoutedTransfer(
+    rule: RoutingRule,
+    transferType: 'native' | 'token' = 'native',
+    tokenAddress?: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig
+  ): Promise<RoutedTransferLeg[]> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化，请先导入私钥')
+    }
 
-    const monitor = async () => {
-      if (!isMonitoring) return
+    const ruleError = validateRoutingRule(rule)
+    if (ruleError) {
+      throw new Error(`分账规则无效: ${ruleError}`)
+    }
 
-      try {
-        const [currentBalance, blockNumber] = await Promise.all([
-          this.getBalance(address),
-          this.provider.getBlockNumber()
-        ])
-        
-        // 只有在余额变化或新区块时才触发回调
-        if (currentBalance !== lastBalance || blockNumber > lastBlockNumber) {
-          lastBalance = currentBalance
-          lastBlockNumber = blockNumber
-          callback(currentBalance, blockNumber)
-        }
-      } catch (error) {
-        console.error('余额监控错误:', error)
-        // 网络错误时延长检查间隔
-        if (isMonitoring) {
-          setTimeout(monitor, interval * 2)
-          return
-        }
+    const fromAddress = this.wallet.address.toLowerCase()
+    const destinations = [...rule.destinations.map(destination => destination.address), rule.dustAddress]
+    if (destinations.some(address => address.toLowerCase() === fromAddress)) {
+      throw new Error('不能转账到自己的地址')
+    }
+
+    let legs: RouteLeg[]
+    let decimals = 18
+
+    if (transferType === 'token') {
+      if (!tokenAddress) {
+        throw new Error('代币地址不能为空')
       }
 
-      if (isMonitoring) {
-        setTimeout(monitor, interval)
+      const tokenBalance = await this.getTokenBalance(tokenAddress)
+      decimals = tokenBalance.tokenInfo.decimals
+      legs = splitByRule(BigInt(tokenBalance.balance), rule, decimals)
+
+      if (legs.length === 0) {
+        throw new Error(`${tokenBalance.tokenInfo.symbol} 余额为0，无需转移`)
+      }
+
+      const [gasEstimate, nativeBalance] = await Promise.all([
+        this.estimateTokenGas(tokenAddress, legs[0].to, '0.000001', gasStrategy, customGasConfig),
+        this.provider.getBalance(this.wallet.address)
+      ])
+
+      if (nativeBalance < gasEstimate.totalCost * BigInt(legs.length)) {
+        throw new Error(`MATIC余额不足以支付${legs.length}笔分账转账的Gas费用`)
+      }
+    } else {
+      const [balance, gasEstimate] = await Promise.all([
+        this.provider.getBalance(this.wallet.address),
+        this.estimateGas(rule.dustAddress, '0', gasStrategy, customGasConfig)
+      ])
+
+      const maxLegs = BigInt(rule.destinations.length + 1)
+      const distributable = balance - gasEstimate.totalCost * maxLegs
+      if (distributable <= BigInt(0)) {
+        throw new Error('余额不足以支付分账转账的Gas费用')
       }
+
+      legs = splitByRule(distributable, rule, decimals)
+      const unusedReserve = gasEstimate.totalCost * (maxLegs - BigInt(legs.length))
+      const dustLeg = legs.find(leg => leg.isDust) || legs[legs.length - 1]
+      dustLeg.amount += unusedReserve
     }
 
-    // 立即执行一次
-    monitor()
+    console.log(`开始分账转账: ${legs.length} 笔`)
 
-    // 返回停止监控的函数
-    return () => {
-      isMonitoring = false
+    // 各笔分账连续广播，不等待前一笔确认
+    const results: RoutedTransferLeg[] = []
+    for (const leg of legs) {
+      const amount = ethers.formatUnits(leg.amount, decimals)
+      const result = transferType === 'token' && tokenAddress
+        ? await this.sendTokenTransaction(tokenAddress, leg.to, amount, gasStrategy, customGasConfig, false)
+        : await this.sendTransaction(leg.to, amount, gasStrategy, customGasConfig, false)
+
+      results.push({ to: leg.to, amount, isDust: leg.isDust, result })
     }
+
+    return results
   }
 
-  // 监听ERC-20代币余额变化
+  // 构建预签名转账阶梯 - 为指定nonce（默认下一个nonce）签好多个Gas价格和金额档位的交易
+  async buildSweepLadder(
+    to: string,
+    amounts: bigint[],
+    gasSteps: number[],
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig,
+    nonce?: number
+  ): Promise<PresignedSweep[]> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化')
+    }
+
+    if (!ethers.isAddress(to)) {
+      throw new Error('无效的目标地址')
+    }
+
+    addressGuard.assertAllowed(to, '预签名转账')
+
+    if (amounts.length === 0 || gasSteps.length === 0) {
+      return []
+    }
+
+    // 基础Gas估算只做一次（按0金额估算，钱包尚无余额时也能签名），各档位按倍数放大
+    const [baseEstimate, ladderNonce] = await Promise.all([
+      this.estimateGas(to, '0', gasStrategy, customGasConfig),
+      nonce ?? nonceManager.peek(this.provider, this.wallet.address)
+    ])
+
+    const ladder: PresignedSweep[] = []
+    const scale = (value: bigint, step: number) => BigInt(Math.floor(Number(value) * step))
+
+    for (const step of gasSteps) {
+      const gasPrice = scale(baseEstimate.gasPrice, step)
+      const maxPriorityFeePerGas = baseEstimate.maxPriorityFeePerGas
+        ? scale(baseEstimate.maxPriorityFeePerGas, step)
+        : undefined
+      const totalCost = baseEstimate.gasLimit * gasPrice
+
+      for (const amount of amounts) {
+        // 超出Gas上限的档位不签名，广播时也就不会选中
+        if (gasBudget.getViolation({ action: '预签名转账', gasPrice, gasCost: totalCost, value: amount })) continue
+
+        const transaction: ethers.TransactionRequest = {
+          to: formatAddress(to),
+          value: amount,
+          nonce: ladderNonce,
+          gasLimit: baseEstimate.gasLimit,
+          chainId: POLYGON_CHAIN_ID
+        }
+
+        if (maxPriorityFeePerGas !== undefined) {
+          transaction.type = 2
+          transaction.maxFeePerGas = gasPrice
+          transaction.maxPriorityFeePerGas = maxPriorityFeePerGas
+        } else {
+          transaction.type = 0
+          transaction.gasPrice = gasPrice
+        }
+
+        ladder.push({
+          nonce: ladderNonce,
+          amount,
+          gasLimit: baseEstimate.gasLimit,
+          gasPrice,
+          maxPriorityFeePerGas,
+          totalCost,
+          rawTransaction: await this.wallet.signTransaction(transaction)
+        })
+      }
+    }
+
+    return ladder
+  }
+
+  // 使用赞助钱包补足Gas后转移全部代币
+  // 代币转账先签名，赞助资金发出后立即广播，争取与赞助交易进入同一区块
+  async sponsoredTokenSweep(
+    sponsorPrivateKey: string,
+    tokenAddress: string,
+    to: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig
+  ): Promise<SponsoredTokenSweepResult> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化')
+    }
+
+    if (!ethers.isAddress(tokenAddress)) {
+      throw new Error('无效的代币合约地址')
+    }
+
+    if (!ethers.isAddress(to)) {
+      throw new Error('无效的目标地址')
+    }
+
+    addressGuard.assertAllowed(to, '代币转账')
+
+    const sponsor = new ethers.Wallet(formatPrivateKey(sponsorPrivateKey), this.provider)
+    if (sponsor.address.toLowerCase() === this.wallet.address.toLowerCase()) {
+      throw new Error('赞助钱包不能与被监控钱包相同')
+    }
+
+    const tokenBalance = await this.getTokenBalance(tokenAddress)
+    const amount = BigInt(tokenBalance.balance)
+    if (amount <= BigInt(0)) {
+      throw new Error(`${tokenBalance.tokenInfo.symbol} 余额为0，无需转移`)
+    }
+
+    // 按实际转账数量估算Gas，赞助金额即为Gas费用与现有余额的差额
+    const [gasEstimate, nativeBalance] = await Promise.all([
+      this.estimateTokenGas(tokenAddress, to, tokenBalance.formattedBalance, gasStrategy, customGasConfig),
+      this.provider.getBalance(this.wallet.address)
+    ])
+
+    const sweepTransaction: ethers.TransactionRequest = {
+      to: tokenAddress,
+      data: new ethers.Interface(ERC20_ABI).encodeFunctionData('transfer', [formatAddress(to), amount]),
+      gasLimit: gasEstimate.gasLimit,
+      chainId: POLYGON_CHAIN_ID
+    }
+    const fundingFees: ethers.TransactionRequest = {}
+
+    if (gasEstimate.maxFeePerGas && gasEstimate.maxPriorityFeePerGas) {
+      sweepTransaction.type = 2
+      sweepTransaction.maxFeePerGas = gasEstimate.maxFeePerGas
+      sweepTransaction.maxPriorityFeePerGas = gasEstimate.maxPriorityFeePerGas
+      fundingFees.maxFeePerGas = gasEstimate.maxFeePerGas
+      fundingFees.maxPriorityFeePerGas = gasEstimate.maxPriorityFeePerGas
+    } else {
+      sweepTransaction.type = 0
+      sweepTransaction.gasPrice = gasEstimate.gasPrice
+      fundingFees.gasPrice = gasEstimate.gasPrice
+    }
+
+    // 赞助资金到账前钱包余额不足以支付Gas，模拟时用状态覆盖补足余额
+    await assertSimulationPasses(
+      this.provider,
+      { ...sweepTransaction, from: this.wallet.address },
+      { stateOverrides: { [this.wallet.address]: { balance: gasEstimate.totalCost } } }
+    )
+
+    const result: SponsoredTokenSweepResult = {
+      sponsorAddress: sponsor.address,
+      amount: tokenBalance.formattedBalance,
+      fundedAmount: '0',
+      funding: null,
+      sweep: { hash: '', success: false }
+    }
+
+    // Gas上限检查：赞助交易和代币转账合计计入，避免赞助资金发出后代币转账被拦截
+    const deficit = gasEstimate.totalCost - nativeBalance
+    const fundingGasLimit = BigInt(21000)
+    gasBudget.assertWithinBudget({
+      action: 'Gas赞助代币转移',
+      gasPrice: gasEstimate.gasPrice,
+      gasCost: gasEstimate.totalCost + (deficit > BigInt(0) ? fundingGasLimit * gasEstimate.gasPrice : BigInt(0))
+    })
+
+    // 代币转账的nonce由共享nonce管理器分配，未成功广播时归还
+    const address = this.wallet.address
+    const nonce = await nonceManager.reserve(this.provider, address)
+    try {
+      const rawSweep = await this.wallet.signTransaction({ ...sweepTransaction, nonce })
+      await this.fundAndBroadcastSweep(sponsor, rawSweep, deficit, fundingFees, gasEstimate.gasPrice, result)
+    } catch (error) {
+      nonceManager.release(address, nonce, error)
+      throw error
+    }
+
+    if (result.sweep.success && !result.sweep.simulated) {
+      nonceManager.markSent(address, nonce, result.sweep.hash)
+    } else {
+      nonceManager.release(address, nonce, result.sweep.error)
+    }
+
+    return result
+  }
+
+  // 赞助资金不足部分后广播已签名的代币转账，结果写入result
+  private async fundAndBroadcastSweep(
+    sponsor: ethers.Wallet,
+    rawSweep: string,
+    deficit: bigint,
+    fundingFees: ethers.TransactionRequest,
+    gasPrice: bigint,
+    result: SponsoredTokenSweepResult
+  ): Promise<void> {
+    if (deficit > BigInt(0)) {
+      const fundingTransaction: ethers.TransactionRequest = {
+        to: this.wallet!.address,
+        value: deficit,
+        gasLimit: BigInt(21000),
+        ...fundingFees
+      }
+
+      if (dryRun.isEnabled()) {
+        result.fundedAmount = ethers.formatEther(deficit)
+        result.funding = toSimulatedResult(await signWithoutBroadcast(sponsor, fundingTransaction))
+        result.sweep = await this.broadcastSignedTransaction(rawSweep, 'Gas赞助代币转移')
+        return
+      }
+
+      try {
+        const fundingTx = await nonceManager.send(sponsor, nonce => sponsor.sendTransaction({ ...fundingTransaction, nonce }))
+        console.log(`⛽ 赞助Gas已发送: ${ethers.formatEther(deficit)} MATIC，哈希: ${fundingTx.hash}`)
+        gasBudget.recordSpend('Gas赞助', BigInt(21000) * gasPrice, fundingTx.hash)
+        result.fundedAmount = ethers.formatEther(deficit)
+        result.funding = { hash: fundingTx.hash, success: true, gasPrice, ...sentFeeFields(fundingTx) }
+      } catch (error) {
+        result.funding = {
+          hash: '',
+          success: false,
+          error: error instanceof Error ? error.message : '赞助Gas发送失败'
+        }
+        result.sweep.error = '赞助Gas发送失败，未广播代币转账'
+        return
+      }
+    }
+
+    result.sweep = await this.broadcastSignedTransaction(rawSweep, 'Gas赞助代币转移')
+
+    // 节点可能因赞助资金尚未上链而拒绝，等待赞助交易确认后再次广播
+    if (!result.sweep.success && result.funding?.success) {
+      try {
+        await this.provider.waitForTransaction(result.funding.hash, 1, 30000)
+        result.sweep = await this.broadcastSignedTransaction(rawSweep, 'Gas赞助代币转移')
+      } catch (error) {
+        result.sweep = {
+          hash: '',
+          success: false,
+          error: error instanceof Error ? error.message : '等待赞助交易确认超时'
+        }
+      }
+    }
+  }
+
+  // 按Gas策略计算交易费用字段，gasPrice为EIP-1559交易的maxFeePerGas
+  private async buildFeeOverrides(
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<{ fees: ethers.TransactionRequest; gasPrice: bigint }> {
+    const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = await gasOracle.getFees(this.provider, gasStrategy, customGasConfig)
+
+    if (maxFeePerGas && maxPriorityFeePerGas) {
+      return { fees: { type: 2, maxFeePerGas, maxPriorityFeePerGas }, gasPrice }
+    }
+    return { fees: { gasPrice }, gasPrice }
+  }
+
+  // 转移NFT到目标地址：单个使用safeTransferFrom
+  // batch为true时同一ERC-1155合约的token合并为一笔safeBatchTransferFrom；ERC-721没有批量接口，逐个发送
+  async transferNfts(
+    holdings: NftHolding[],
+    to: string,
+    batch: boolean = true,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig
+  ): Promise<NftTransferResult[]> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化')
+    }
+
+    if (!ethers.isAddress(to)) {
+      throw new Error('无效的目标地址')
+    }
+
+    addressGuard.assertAllowed(to, 'NFT转移')
+
+    const groups: NftHolding[][] = []
+    if (batch) {
+      const erc1155ByContract = new Map<string, NftHolding[]>()
+      for (const holding of holdings) {
+        if (holding.standard === 'erc721') {
+          groups.push([holding])
+          continue
+        }
+        const key = holding.contract.toLowerCase()
+        const group = erc1155ByContract.get(key)
+        if (group) {
+          group.push(holding)
+        } else {
+          const created = [holding]
+          erc1155ByContract.set(key, created)
+          groups.push(created)
+        }
+      }
+    } else {
+      holdings.forEach(holding => groups.push([holding]))
+    }
+
+    // 各笔交易无需等待确认，nonce由共享nonce管理器连续分配
+    const results: NftTransferResult[] = []
+    for (const group of groups) {
+      results.push({ holdings: group, result: await this.sendNftTransfer(group, to, gasStrategy, customGasConfig) })
+    }
+    return results
+  }
+
+  private async sendNftTransfer(
+    group: NftHolding[],
+    to: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<TransactionResult> {
+    const wallet = this.wallet!
+    const [first] = group
+    const target = formatAddress(to)
+
+    try {
+      let data: string
+      if (first.standard === 'erc721') {
+        data = new ethers.Interface(ERC721_ABI).encodeFunctionData('safeTransferFrom', [wallet.address, target, first.tokenId])
+      } else if (group.length === 1) {
+        data = new ethers.Interface(ERC1155_ABI).encodeFunctionData(
+          'safeTransferFrom',
+          [wallet.address, target, first.tokenId, first.amount, '0x']
+        )
+      } else {
+        data = new ethers.Interface(ERC1155_ABI).encodeFunctionData(
+          'safeBatchTransferFrom',
+          [wallet.address, target, group.map(holding => holding.tokenId), group.map(holding => holding.amount), '0x']
+        )
+      }
+
+      console.log(`🖼️ 转移NFT ${first.contract} #${group.map(holding => holding.tokenId).join(', #')} -> ${target}`)
+      return await this.sendContractCall(first.contract, data, 'NFT转移', gasStrategy, customGasConfig)
+    } catch (error) {
+      console.error('❌ NFT转移失败:', error)
+      return {
+        hash: '',
+        success: false,
+        error: error instanceof Error ? error.message : 'NFT转移失败'
+      }
+    }
+  }
+
+  // 按Gas策略发送合约调用（不等待确认），模拟运行时只签名
+  private async sendContractCall(
+    to: string,
+    data: string,
+    action: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: CustomGasConfig
+  ): Promise<TransactionResult> {
+    const wallet = this.wallet!
+    const [{ fees, gasPrice }, gasLimit] = await Promise.all([
+      this.buildFeeOverrides(gasStrategy, customGasConfig),
+      this.provider.estimateGas({ from: wallet.address, to, data }).catch(error => {
+        const reason = describeRevertError(error)
+        throw reason ? new Error(`交易模拟失败，已阻止广播: ${reason}`) : error
+      })
+    ])
+    const transaction: ethers.TransactionRequest = { to, data, gasLimit, ...fees }
+    await assertSimulationPasses(this.provider, { ...transaction, from: wallet.address })
+    gasBudget.assertWithinBudget({ action, gasPrice, gasCost: gasLimit * gasPrice })
+
+    if (dryRun.isEnabled()) {
+      return toSimulatedResult(await signWithoutBroadcast(wallet, transaction))
+    }
+
+    const txResponse = await nonceManager.send(wallet, nonce => wallet.sendTransaction({ ...transaction, nonce }))
+    console.log(`📝 交易已发送，哈希: ${txResponse.hash}`)
+    gasBudget.recordSpend(action, gasLimit * gasPrice, txResponse.hash)
+    return { hash: txResponse.hash, success: true, gasPrice, ...sentFeeFields(txResponse) }
+  }
+
+  // 批量撤销授权：ERC-20授权额度设为0，NFT全部授权设为false
+  // 各笔交易连续广播不等待确认，单笔失败不影响其他授权
+  async revokeApprovals(
+    approvals: Pick<TokenApproval, 'token' | 'kind' | 'spender'>[],
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig
+  ): Promise<TransactionResult[]> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化')
+    }
+
+    const results: TransactionResult[] = []
+    for (const approval of approvals) {
+      try {
+        const data = approval.kind === 'erc20'
+          ? new ethers.Interface(ERC20_ABI).encodeFunctionData('approve', [approval.spender, BigInt(0)])
+          : new ethers.Interface(SET_APPROVAL_FOR_ALL_ABI).encodeFunctionData('setApprovalForAll', [approval.spender, false])
+        console.log(`🛡️ 撤销授权 ${approval.token} -> ${approval.spender}`)
+        results.push(await this.sendContractCall(approval.token, data, '撤销授权', gasStrategy, customGasConfig))
+      } catch (error) {
+        console.error('❌ 撤销授权失败:', error)
+        results.push({
+          hash: '',
+          success: false,
+          error: error instanceof Error ? error.message : '撤销授权失败'
+        })
+      }
+    }
+    return results
+  }
+
+  // 检测代币是否支持permit（DOMAIN_SEPARATOR和nonces），并确定签名所用的EIP-712域
+  // 不支持或无法确定域（名称、版本与链上域分隔符不一致）时返回null
+  async getPermitSupport(tokenAddress: string, owner?: string): Promise<PermitSupport | null> {
+    const ownerAddress = owner || this.wallet?.address
+    if (!ownerAddress) {
+      throw new Error('未指定地址且钱包未初始化')
+    }
+
+    const contract = new ethers.Contract(tokenAddress, PERMIT_ABI, this.provider)
+
+    let domainSeparator: string
+    let nonce: bigint
+    try {
+      [domainSeparator, nonce] = await Promise.all([
+        contract.DOMAIN_SEPARATOR(),
+        contract.nonces(ownerAddress)
+      ])
+    } catch (error) {
+      return null
+    }
+
+    // 优先使用EIP-5267声明的域，否则用代币名称尝试常见版本号
+    const [declared, version, typehash] = await Promise.all([
+      contract.eip712Domain().catch(() => null),
+      contract.version().catch(() => null),
+      contract.PERMIT_TYPEHASH().catch(() => null)
+    ])
+    const name: string = declared ? declared.name : (await this.getTokenInfo(tokenAddress)).name
+    const versions = [declared?.version, version, '1', '2'].filter((value): value is string => typeof value === 'string')
+
+    for (const candidate of new Set(versions)) {
+      const domain: ethers.TypedDataDomain = {
+        name,
+        version: candidate,
+        chainId: POLYGON_CHAIN_ID,
+        verifyingContract: tokenAddress
+      }
+      if (ethers.TypedDataEncoder.hashDomain(domain) === domainSeparator) {
+        return { style: typehash === DAI_PERMIT_TYPEHASH ? 'dai' : 'eip2612', domain, nonce }
+      }
+    }
+
+    console.warn(`代币 ${tokenAddress} 的EIP-712域无法确定，不使用permit`)
+    return null
+  }
+
+  // 免Gas转移代币：被盗钱包离线签署permit，由提交钱包支付Gas发送permit和transferFrom
+  // 被盗钱包全程不需要MATIC；代币不支持permit或permit无法使用（签名或估算失败）时返回null
+  async permitTokenSweep(
+    submitterPrivateKey: string,
+    tokenAddress: string,
+    to: string,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom' = 'fast',
+    customGasConfig?: CustomGasConfig
+  ): Promise<PermitTokenSweepResult | null> {
+    if (!this.wallet) {
+      throw new Error('钱包未初始化')
+    }
+
+    if (!ethers.isAddress(tokenAddress)) {
+      throw new Error('无效的代币合约地址')
+    }
+
+    if (!ethers.isAddress(to)) {
+      throw new Error('无效的目标地址')
+    }
+
+    addressGuard.assertAllowed(to, '代币转账')
+
+    const submitter = new ethers.Wallet(formatPrivateKey(submitterPrivateKey), this.provider)
+    if (submitter.address.toLowerCase() === this.wallet.address.toLowerCase()) {
+      throw new Error('提交钱包不能与被监控钱包相同')
+    }
+
+    const support = await this.getPermitSupport(tokenAddress)
+    if (!support) {
+      return null
+    }
+
+    const tokenBalance = await this.getTokenBalance(tokenAddress)
+    const amount = BigInt(tokenBalance.balance)
+    if (amount <= BigInt(0)) {
+      throw new Error(`${tokenBalance.tokenInfo.symbol} 余额为0，无需转移`)
+    }
+
+    const owner = this.wallet.address
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE)
+    const tokenInterface = new ethers.Interface([...PERMIT_ABI, ...ERC20_ABI])
+
+    // 非标准permit（签名格式或参数不同）在签名或估算时失败，视为不可用，由调用方改用其他方式
+    let permitData: string
+    let permitGasLimit: bigint
+    try {
+      if (support.style === 'dai') {
+        const signature = ethers.Signature.from(await this.wallet.signTypedData(
+          support.domain,
+          {
+            Permit: [
+              { name: 'holder', type: 'address' },
+              { name: 'spender', type: 'address' },
+              { name: 'nonce', type: 'uint256' },
+              { name: 'expiry', type: 'uint256' },
+              { name: 'allowed', type: 'bool' }
+            ]
+          },
+          { holder: owner, spender: submitter.address, nonce: support.nonce, expiry: deadline, allowed: true }
+        ))
+        permitData = tokenInterface.encodeFunctionData(
+          'permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)',
+          [owner, submitter.address, support.nonce, deadline, true, signature.v, signature.r, signature.s]
+        )
+      } else {
+        const signature = ethers.Signature.from(await this.wallet.signTypedData(
+          support.domain,
+          {
+            Permit: [
+              { name: 'owner', type: 'address' },
+              { name: 'spender', type: 'address' },
+              { name: 'value', type: 'uint256' },
+              { name: 'nonce', type: 'uint256' },
+              { name: 'deadline', type: 'uint256' }
+            ]
+          },
+          { owner, spender: submitter.address, value: amount, nonce: support.nonce, deadline }
+        ))
+        permitData = tokenInterface.encodeFunctionData(
+          'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)',
+          [owner, submitter.address, amount, deadline, signature.v, signature.r, signature.s]
+        )
+      }
+
+      // 估算会实际执行permit，签名不被合约接受时在此失败
+      permitGasLimit = await this.provider.estimateGas({ from: submitter.address, to: tokenAddress, data: permitData })
+    } catch (error) {
+      console.warn(`代币 ${tokenAddress} 的permit无法使用:`, error instanceof Error ? error.message : error)
+      return null
+    }
+
+    const { fees, gasPrice } = await this.buildFeeOverrides(gasStrategy, customGasConfig)
+
+    const permitTransaction: ethers.TransactionRequest = { to: tokenAddress, data: permitData, gasLimit: permitGasLimit, ...fees }
+    const transferTransaction: ethers.TransactionRequest = {
+      to: tokenAddress,
+      data: tokenInterface.encodeFunctionData('transferFrom', [owner, formatAddress(to), amount]),
+      gasLimit: PERMIT_TRANSFER_GAS_LIMIT,
+      ...fees
+    }
+
+    const result: PermitTokenSweepResult = {
+      submitterAddress: submitter.address,
+      amount: tokenBalance.formattedBalance,
+      permit: { hash: '', success: false },
+      sweep: { hash: '', success: false }
+    }
+
+    // Gas上限检查：permit和transferFrom合计计入，避免只发出permit
+    gasBudget.assertWithinBudget({
+      action: 'Permit代币转移',
+      gasPrice,
+      gasCost: (permitGasLimit + PERMIT_TRANSFER_GAS_LIMIT) * gasPrice
+    })
+
+    console.log(`✍️ ${tokenBalance.tokenInfo.symbol} permit已签名，由 ${submitter.address} 提交（${support.style === 'dai' ? 'DAI式' : 'EIP-2612'}）`)
+
+    if (dryRun.isEnabled()) {
+      const nonce = await this.provider.getTransactionCount(submitter.address, 'pending')
+      result.permit = toSimulatedResult(await signWithoutBroadcast(submitter, { ...permitTransaction, nonce }))
+      result.sweep = toSimulatedResult(await signWithoutBroadcast(submitter, { ...transferTransaction, nonce: nonce + 1 }))
+      return result
+    }
+
+    // permit和transferFrom连续广播（nonce相邻），争取进入同一区块
+    try {
+      const permitTx = await nonceManager.send(submitter, nonce => submitter.sendTransaction({ ...permitTransaction, nonce }))
+      console.log(`📝 permit已提交，哈希: ${permitTx.hash}`)
+      gasBudget.recordSpend('Permit提交', permitGasLimit * gasPrice, permitTx.hash)
+      result.permit = { hash: permitTx.hash, success: true, gasPrice, ...sentFeeFields(permitTx) }
+    } catch (error) {
+      result.permit.error = error instanceof Error ? error.message : 'permit提交失败'
+      result.sweep.error = 'permit提交失败，未发送transferFrom'
+      return result
+    }
+
+    try {
+      const transferTx = await nonceManager.send(submitter, nonce => submitter.sendTransaction({ ...transferTransaction, nonce }))
+      console.log(`📝 transferFrom已提交，哈希: ${transferTx.hash}`)
+      gasBudget.recordSpend('Permit代币转移', PERMIT_TRANSFER_GAS_LIMIT * gasPrice, transferTx.hash)
+      result.sweep = { hash: transferTx.hash, success: true, gasPrice, ...sentFeeFields(transferTx) }
+    } catch (error) {
+      result.sweep.error = error instanceof Error ? error.message : 'transferFrom提交失败'
+    }
+
+    return result
+  }
+
+  // 用相同nonce和更高费用替换待处理交易，把资金转到目标地址
+  // 替换交易的两项费用都需比原交易高至少10%，超过maxFeeGwei上限时放弃替换
+  async replacePendingTransaction(
+    pending: ethers.TransactionResponse,
+    to: string,
+    gasMultiplier: number,
+    maxFeeGwei: number,
+    tokenAddress?: string
+  ): Promise<TransactionResult> {
+    try {
+      if (!this.wallet) {
+        throw new Error('钱包未初始化')
+      }
+
+      if (!ethers.isAddress(to)) {
+        throw new Error('无效的目标地址')
+      }
+
+      addressGuard.assertAllowed(to, '替换交易')
+
+      const feeCap = ethers.parseUnits(maxFeeGwei.toString(), 'gwei')
+      const scale = (value: bigint | null) => BigInt(Math.floor(Number(value || BigInt(0)) * gasMultiplier))
+      const max = (a: bigint, b: bigint) => (a > b ? a : b)
+
+      const feeData = await this.provider.getFeeData()
+      const fees: ethers.TransactionRequest = {}
+      let maxFee: bigint
+
+      if (pending.maxFeePerGas !== null && pending.maxPriorityFeePerGas !== null) {
+        const minFee = bumpReplacementFee(pending.maxFeePerGas)
+        const minPriorityFee = bumpReplacementFee(pending.maxPriorityFeePerGas)
+        maxFee = max(minFee, scale(feeData.maxFeePerGas))
+        let priorityFee = max(minPriorityFee, scale(feeData.maxPriorityFeePerGas))
+
+        if (maxFee > feeCap) maxFee = feeCap
+        if (priorityFee > maxFee) priorityFee = maxFee
+
+        if (maxFee < minFee || priorityFee < minPriorityFee) {
+          throw new Error(`替换所需费用 ${ethers.formatUnits(minFee, 'gwei')} Gwei 超过上限 ${maxFeeGwei} Gwei`)
+        }
+
+        fees.type = 2
+        fees.maxFeePerGas = maxFee
+        fees.maxPriorityFeePerGas = priorityFee
+      } else {
+        const minGasPrice = bumpReplacementFee(pending.gasPrice)
+        maxFee = max(minGasPrice, scale(feeData.gasPrice))
+
+        if (maxFee > feeCap) maxFee = feeCap
+
+        if (maxFee < minGasPrice) {
+          throw new Error(`替换所需费用 ${ethers.formatUnits(minGasPrice, 'gwei')} Gwei 超过上限 ${maxFeeGwei} Gwei`)
+        }
+
+        fees.type = 0
+        fees.gasPrice = maxFee
+      }
+
+      const transaction: ethers.TransactionRequest = {
+        ...fees,
+        nonce: pending.nonce,
+        chainId: POLYGON_CHAIN_ID
+      }
+
+      if (tokenAddress) {
+        // 代币：转移全部代币余额
+        const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.wallet)
+        const balance: bigint = await contract.balanceOf(this.wallet.address)
+        if (balance <= BigInt(0)) {
+          throw new Error('代币余额为0，无可转移资金')
+        }
+
+        transaction.to = tokenAddress
+        transaction.data = contract.interface.encodeFunctionData('transfer', [formatAddress(to), balance])
+        transaction.gasLimit = await contract.transfer.estimateGas(formatAddress(to), balance)
+      } else {
+        // 原生MATIC：转移扣除Gas后的全部余额（原交易尚未上链，余额仍完整）
+        const gasLimit = BigInt(21000)
+        const balance = await this.provider.getBalance(this.wallet.address)
+        const value = balance - gasLimit * maxFee
+        if (value <= BigInt(0)) {
+          throw new Error('余额不足以支付替换交易的Gas费用')
+        }
+
+        transaction.to = formatAddress(to)
+        transaction.value = value
+        transaction.gasLimit = gasLimit
+      }
+
+      // 替换攻击者交易的费用全部由本钱包支付
+      const gasCost = BigInt(transaction.gasLimit!) * maxFee
+      gasBudget.assertWithinBudget({
+        action: '内存池替换交易',
+        gasPrice: maxFee,
+        gasCost,
+        value: tokenAddress ? undefined : BigInt(transaction.value!)
+      })
+
+      if (dryRun.isEnabled()) {
+        return toSimulatedResult(await signWithoutBroadcast(this.wallet, transaction))
+      }
+
+      const txResponse = await this.wallet.sendTransaction(transaction)
+      console.log(`🛡️ 替换交易已发送 (nonce ${pending.nonce})，哈希: ${txResponse.hash}`)
+      gasBudget.recordSpend('内存池替换交易', gasCost, txResponse.hash)
+      // 替换交易使用攻击者的nonce，本地nonce状态需要重新同步
+      nonceManager.invalidate(this.wallet.address)
+
+      return {
+        hash: txResponse.hash,
+        success: true,
+        gasPrice: maxFee,
+        ...sentFeeFields(txResponse)
+      }
+    } catch (error) {
+      console.error('替换交易发送失败:', error)
+      return {
+        hash: '',
+        success: false,
+        error: error instanceof Error ? error.message : '替换交易发送失败'
+      }
+    }
+  }
+
+  // 加速或取消待处理交易：用相同nonce重新发送，两项费用都比原交易高至少10%
+  // 加速时重发原交易内容（节点中已找不到原交易时按记录重建），取消时发送0金额的自转账
+  async replaceTransaction(
+    original: ReplaceableTransaction,
+    mode: 'speedup' | 'cancel',
+    gasMultiplier: number = 1
+  ): Promise<TransactionResult> {
+    try {
+      if (!this.wallet) {
+        throw new Error('钱包未初始化')
+      }
+
+      const wallet = this.wallet
+      const [minedCount, networkTx, feeData] = await Promise.all([
+        this.provider.getTransactionCount(wallet.address, 'latest'),
+        this.provider.getTransaction(original.hash),
+        this.provider.getFeeData()
+      ])
+
+      if (minedCount > original.nonce) {
+        throw new Error(`nonce ${original.nonce} 的交易已上链，无法${mode === 'speedup' ? '加速' : '取消'}`)
+      }
+
+      let transaction: ethers.TransactionRequest
+      if (mode === 'cancel') {
+        transaction = { to: wallet.address, value: BigInt(0), gasLimit: BigInt(21000) }
+      } else {
+        addressGuard.assertAllowed(original.toAddress, '加速交易')
+
+        if (networkTx) {
+          transaction = { to: networkTx.to, value: networkTx.value, data: networkTx.data, gasLimit: networkTx.gasLimit }
+        } else if (original.nftTokenIds) {
+          throw new Error('节点中找不到原NFT转移交易，无法加速，请重新发起转移')
+        } else if (original.tokenAddress) {
+          const contract = new ethers.Contract(original.tokenAddress, ERC20_ABI, wallet)
+          const tokenInfo = await this.getTokenInfo(original.tokenAddress)
+          const value = ethers.parseUnits(original.amount, tokenInfo.decimals)
+          transaction = {
+            to: original.tokenAddress,
+            data: contract.interface.encodeFunctionData('transfer', [formatAddress(original.toAddress), value]),
+            gasLimit: await contract.transfer.estimateGas(formatAddress(original.toAddress), value)
+          }
+        } else {
+          transaction = { to: formatAddress(original.toAddress), value: ethers.parseEther(original.amount), gasLimit: BigInt(21000) }
+        }
+      }
+
+      // 原交易费用：优先使用节点中的交易，其次使用记录中保存的费用
+      const previousMaxFee = networkTx?.maxFeePerGas ?? original.maxFeePerGas
+      const previousPriorityFee = networkTx?.maxPriorityFeePerGas ?? original.maxPriorityFeePerGas
+      const previousGasPrice = networkTx?.gasPrice ?? original.gasPrice
+      const scale = (value: bigint | null) => BigInt(Math.floor(Number(value || BigInt(0)) * gasMultiplier))
+      const max = (a: bigint, b: bigint) => (a > b ? a : b)
+
+      if (previousMaxFee !== undefined && previousPriorityFee !== undefined) {
+        const priorityFee = max(bumpReplacementFee(previousPriorityFee), scale(feeData.maxPriorityFeePerGas))
+        transaction.type = 2
+        transaction.maxPriorityFeePerGas = priorityFee
+        transaction.maxFeePerGas = max(max(bumpReplacementFee(previousMaxFee), scale(feeData.maxFeePerGas)), priorityFee)
+      } else if (previousGasPrice !== undefined) {
+        transaction.type = 0
+        transaction.gasPrice = max(bumpReplacementFee(previousGasPrice), scale(feeData.gasPrice))
+      } else {
+        throw new Error('转账记录缺少原交易的费用信息，无法替换')
+      }
+
+      transaction.nonce = original.nonce
+      transaction.chainId = POLYGON_CHAIN_ID
+
+      // 原交易的费用已计入Gas预算，替换只计入新增部分
+      const action = mode === 'speedup' ? '加速交易' : '取消交易'
+      const nextPrice = BigInt(transaction.maxFeePerGas ?? transaction.gasPrice!)
+      const previousPrice = previousMaxFee ?? previousGasPrice!
+      const extraCost = BigInt(transaction.gasLimit!) * (nextPrice - previousPrice)
+      gasBudget.assertWithinBudget({ action, gasPrice: nextPrice, gasCost: extraCost })
+
+      if (dryRun.isEnabled()) {
+        return toSimulatedResult(await signWithoutBroadcast(wallet, transaction))
+      }
+
+      const txResponse = await wallet.sendTransaction(transaction)
+      nonceManager.markSent(wallet.address, original.nonce, txResponse.hash)
+      gasBudget.recordSpend(action, extraCost, txResponse.hash)
+      console.log(`${mode === 'speedup' ? '⚡ 加速' : '🚫 取消'}交易已发送 (nonce ${original.nonce})，哈希: ${txResponse.hash}`)
+
+      return {
+        hash: txResponse.hash,
+        success: true,
+        gasPrice: txResponse.maxFeePerGas ?? txResponse.gasPrice,
+        ...sentFeeFields(txResponse)
+      }
+    } catch (error) {
+      console.error('替换交易发送失败:', error)
+      return {
+        hash: '',
+        success: false,
+        error: error instanceof Error ? error.message : '替换交易发送失败'
+      }
+    }
+  }
+
+  // 广播已签名的原始交易（跳过预检查和估算，争取最快上链）
+  // 模拟运行时只解析交易，不广播
+  async broadcastSignedTransaction(rawTransaction: string, action: string = '预签名交易'): Promise<TransactionResult> {
+    try {
+      // Gas上限检查：签名时的每日支出可能已变化，广播前按最新记录再检查一次
+      const signed = ethers.Transaction.from(rawTransaction)
+      const gasPrice = signed.maxFeePerGas ?? signed.gasPrice ?? BigInt(0)
+      const gasCost = signed.gasLimit * gasPrice
+      gasBudget.assertWithinBudget({ action, gasPrice, gasCost, value: signed.data === '0x' ? signed.value : undefined })
+
+      if (dryRun.isEnabled()) {
+        return toSimulatedResult(describeSignedTransaction(rawTransaction))
+      }
+
+      const txResponse = await this.provider.broadcastTransaction(rawTransaction)
+      console.log(`📝 预签名交易已广播，哈希: ${txResponse.hash}`)
+      gasBudget.recordSpend(action, gasCost, txResponse.hash)
+      // 预签名交易的nonce不经过nonce管理器分配，下次分配前重新同步
+      nonceManager.invalidate(txResponse.from)
+
+      return {
+        hash: txResponse.hash,
+        success: true,
+        gasPrice: txResponse.maxFeePerGas ?? txResponse.gasPrice,
+        ...sentFeeFields(txResponse)
+      }
+    } catch (error) {
+      console.error('❌ 预签名交易广播失败:', error)
+      return {
+        hash: '',
+        success: false,
+        error: error instanceof Error ? error.message : '未知错误'
+      }
+    }
+  }
+
+  // 监听地址余额变化 - 优化版本
+  async monitorBalance(
+    address: string,
+    callback: (balance: string, blockNumber?: number) => void,
+    interval: number = 3000
+  ): Promise<() => void> {
+    let isMonitoring = true
+    let lastBalance = '0'
+    let lastBlockNumber = 0
+
+    const monitor = async () => {
+      if (!isMonitoring) return
+
+      try {
+        const [currentBalance, blockNumber] = await Promise.all([
+          this.getBalance(address),
+          this.provider.getBlockNumber()
+        ])
+        
+        // 只有在余额变化或新区块时才触发回调
+        if (currentBalance !== lastBalance || blockNumber > lastBlockNumber) {
+          lastBalance = currentBalance
+          lastBlockNumber = blockNumber
+          callback(currentBalance, blockNumber)
+        }
+      } catch (error) {
+        console.error('余额监控错误:', error)
+        // 网络错误时延长检查间隔
+        if (isMonitoring) {
+          setTimeout(monitor, interval * 2)
+          return
+        }
+      }
+
+      if (isMonitoring) {
+        setTimeout(monitor, interval)
+      }
+    }
+
+    // 立即执行一次
+    monitor()
+
+    // 返回停止监控的函数
+    return () => {
+      isMonitoring = false
+    }
+  }
+
+  // 监听ERC-20代币余额变化
   async monitorTokenBalance(
     tokenAddress: string,
     walletAddress: string,
@@ -1303,9 +2577,11 @@ class BlockchainService {
   }
 
   // WebSocket实时监控 - 新增功能
+  // callback为null时只监听内存池，onPendingTransaction接收该地址发出的待处理交易
   async startWebSocketMonitor(
     address: string,
-    callback: (data: { balance: string; blockNumber: number; timestamp: number }) => void
+    callback: ((data: { balance: string; blockNumber: number; timestamp: number }) => void) | null,
+    onPendingTransaction?: (tx: ethers.TransactionResponse) => void
   ): Promise<() => void> {
     let isConnected = true
     
@@ -1317,7 +2593,7 @@ class BlockchainService {
       
       try {
         const balance = await this.getBalance(address)
-        callback({
+        callback?.({
           balance,
           blockNumber,
           timestamp: Date.now()
@@ -1327,7 +2603,26 @@ class BlockchainService {
       }
     }
 
-    wsProvider.on('block', handleNewBlock)
+    // 监听内存池，只转发从该地址发出的交易
+    const handlePending = async (txHash: string) => {
+      if (!isConnected || !onPendingTransaction) return
+
+      try {
+        const tx = await wsProvider.getTransaction(txHash)
+        if (tx && tx.from.toLowerCase() === address.toLowerCase()) {
+          onPendingTransaction(tx)
+        }
+      } catch (error) {
+        console.error('内存池监控错误:', error)
+      }
+    }
+
+    if (callback) {
+      wsProvider.on('block', handleNewBlock)
+    }
+    if (onPendingTransaction) {
+      wsProvider.on('pending', handlePending)
+    }
 
     return () => {
       isConnected = false
@@ -1441,7 +2736,7 @@ class BlockchainService {
         this.provider.getFeeData()
       ])
       
-      const congestion = await this.getNetworkCongestion()
+      const congestion = (await congestionTracker.getSnapshot(this.provider))?.smoothedUtilization ?? 0.5
       const latency = Date.now() - startTime
       
       return {
@@ -0,0 +1,194 @@
+import { ethers } from 'ethers'
+import { projectBaseFee } from './gasOracle'
+
+const WINDOW_SIZE = 20 // 保留最近的区块数
+const POLL_INTERVAL = 2000 // Polygon约2秒出块
+const SMOOTHING_FACTOR = 0.3 // Gas使用率指数移动平均的权重，越大越偏向最新区块
+export const PREDICTION_BLOCKS = 5
+const TREND_THRESHOLD = 0.03 // 预测的基础费用变化超过3%才视为上涨或下跌
+
+export type CongestionTrend = 'rising' | 'falling' | 'stable'
+
+interface BlockSample {
+  number: number
+  baseFee: bigint
+  utilization: number // gasUsed / gasLimit
+}
+
+export interface CongestionSnapshot {
+  blockNumber: number
+  samples: number
+  baseFee: bigint // 最新区块基础费用
+  latestUtilization: number
+  smoothedUtilization: number // 0-1，同时作为拥堵程度
+  predictedBaseFees: bigint[] // 未来1到PREDICTION_BLOCKS个区块的基础费用
+  trend: CongestionTrend
+  changePercent: number // 第PREDICTION_BLOCKS个区块相对最新区块的基础费用变化
+  updatedAt: number
+}
+
+export type CongestionListener = (snapshot: CongestionSnapshot) => void
+
+// 按平滑后的使用率逐块推算基础费用
+export function predictBaseFees(baseFee: bigint, utilization: number, blocks: number = PREDICTION_BLOCKS): bigint[] {
+  const predictions: bigint[] = []
+  let current = baseFee
+  for (let index = 0; index < blocks; index++) {
+    current = projectBaseFee(current, utilization)
+    predictions.push(current)
+  }
+  return predictions
+}
+
+// 根据拥堵程度和趋势推荐Gas策略：拥堵且仍在上涨时提前使用快速档位
+export function recommendGasStrategy(snapshot: CongestionSnapshot | null): 'fast' | 'standard' | 'safe' {
+  if (!snapshot) return 'standard'
+  const congestion = snapshot.smoothedUtilization
+  if (congestion > 0.8 || (congestion > 0.6 && snapshot.trend === 'rising')) return 'fast'
+  if (congestion < 0.3 && snapshot.trend !== 'rising') return 'safe'
+  return 'standard'
+}
+
+// 网络拥堵跟踪 - 在内存中保留最近的区块头，用指数移动平均平滑Gas使用率，
+// 按EIP-1559规则预测未来几个区块的基础费用并给出趋势，避免按单个区块判断时推荐结果来回跳动
+export class CongestionTracker {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private refreshing: Promise<CongestionSnapshot | null> | null = null
+  private listeners = new Set<CongestionListener>()
+  private samples: BlockSample[] = []
+  private snapshot: CongestionSnapshot | null = null
+
+  subscribe(listener: CongestionListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start(provider: ethers.JsonRpcProvider): void {
+    this.stop()
+    this.timer = setInterval(() => {
+      this.refresh(provider).catch(error => console.error('网络拥堵跟踪失败:', error))
+    }, POLL_INTERVAL)
+    this.refresh(provider).catch(error => console.error('网络拥堵跟踪失败:', error))
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  getLatest(): CongestionSnapshot | null {
+    return this.snapshot
+  }
+
+  // 获取拥堵快照，后台跟踪未运行或数据过期时立即刷新
+  async getSnapshot(provider: ethers.JsonRpcProvider): Promise<CongestionSnapshot | null> {
+    if (this.snapshot && Date.now() - this.snapshot.updatedAt < POLL_INTERVAL) {
+      return this.snapshot
+    }
+    return this.refresh(provider)
+  }
+
+  // 拉取新区块并更新快照，同一时间只有一个刷新请求
+  refresh(provider: ethers.JsonRpcProvider): Promise<CongestionSnapshot | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.update(provider).finally(() => {
+        this.refreshing = null
+      })
+    }
+    return this.refreshing
+  }
+
+  private async update(provider: ethers.JsonRpcProvider): Promise<CongestionSnapshot | null> {
+    const latestNumber = await provider.getBlockNumber()
+    const lastSample = this.samples[this.samples.length - 1]
+
+    if (!lastSample || latestNumber - lastSample.number >= WINDOW_SIZE) {
+      // 首次启动或中断时间较长时用eth_feeHistory一次取回整个窗口
+      this.samples = await this.fetchWindow(provider, latestNumber)
+    } else if (latestNumber > lastSample.number) {
+      const numbers = Array.from({ length: latestNumber - lastSample.number }, (_, index) => lastSample.number + index + 1)
+      const blocks = await Promise.all(numbers.map(number => provider.getBlock(number)))
+      for (const block of blocks) {
+        if (block) this.addSample(this.toSample(block))
+      }
+    } else if (this.snapshot) {
+      return this.snapshot
+    }
+
+    if (this.samples.length === 0) return null
+
+    this.snapshot = this.buildSnapshot()
+    const snapshot = this.snapshot
+    this.listeners.forEach(listener => listener(snapshot))
+    return snapshot
+  }
+
+  private async fetchWindow(provider: ethers.JsonRpcProvider, latestNumber: number): Promise<BlockSample[]> {
+    try {
+      const raw = await provider.send('eth_feeHistory', [ethers.toQuantity(WINDOW_SIZE), ethers.toQuantity(latestNumber), []])
+      if (raw?.baseFeePerGas && raw.gasUsedRatio?.length > 0) {
+        const oldest = Number(raw.oldestBlock)
+        return raw.gasUsedRatio.map((ratio: number, index: number) => ({
+          number: oldest + index,
+          baseFee: BigInt(raw.baseFeePerGas[index]),
+          utilization: Number(ratio)
+        }))
+      }
+    } catch (error) {
+      console.warn('eth_feeHistory不可用，只使用最新区块:', error)
+    }
+
+    const block = await provider.getBlock(latestNumber)
+    return block ? [this.toSample(block)] : []
+  }
+
+  private toSample(block: ethers.Block): BlockSample {
+    return {
+      number: block.number,
+      baseFee: block.baseFeePerGas ?? BigInt(0),
+      utilization: block.gasLimit > BigInt(0) ? Number(block.gasUsed) / Number(block.gasLimit) : 0
+    }
+  }
+
+  // 按区块号插入，重组后的同号区块覆盖旧数据
+  private addSample(sample: BlockSample): void {
+    this.samples = [...this.samples.filter(item => item.number !== sample.number), sample]
+      .sort((a, b) => a.number - b.number)
+      .slice(-WINDOW_SIZE)
+  }
+
+  private buildSnapshot(): CongestionSnapshot {
+    const latest = this.samples[this.samples.length - 1]
+    const smoothedUtilization = this.samples.reduce(
+      (average, sample, index) => (index === 0 ? sample.utilization : average + SMOOTHING_FACTOR * (sample.utilization - average)),
+      0
+    )
+    const predictedBaseFees = predictBaseFees(latest.baseFee, smoothedUtilization)
+    const predicted = predictedBaseFees[predictedBaseFees.length - 1]
+    const changePercent = latest.baseFee > BigInt(0)
+      ? Number((predicted - latest.baseFee) * BigInt(10000) / latest.baseFee) / 100
+      : 0
+    const trend: CongestionTrend = changePercent > TREND_THRESHOLD * 100
+      ? 'rising'
+      : (changePercent < -TREND_THRESHOLD * 100 ? 'falling' : 'stable')
+
+    return {
+      blockNumber: latest.number,
+      samples: this.samples.length,
+      baseFee: latest.baseFee,
+      latestUtilization: latest.utilization,
+      smoothedUtilization,
+      predictedBaseFees,
+      trend,
+      changePercent,
+      updatedAt: Date.now()
+    }
+  }
+}
+
+// 导出单例实例
+export const congestionTracker = new CongestionTracker()
@@ -1,4 +1,5 @@
 import { ethers } from 'ethers'
+import { storage } from './platform'
 
 // 合约验证结果接口
 export interface ContractValidationResult {
@@ -45,7 +46,7 @@ export function storeValidatedContract(
     // 更新或添加验证结果
     validatedContracts[address.toLowerCase()] = validatedContract
     
-    localStorage.setItem('validated_contracts', JSON.stringify(validatedContracts))
+    storage.setItem('validated_contracts', JSON.stringify(validatedContracts))
   } catch (error) {
     console.error('存储合约验证结果失败:', error)
   }
@@ -54,7 +55,7 @@ export function storeValidatedContract(
 // 获取所有验证过的合约
 export function getValidatedContracts(): Record<string, ValidatedContract> {
   try {
-    const stored = localStorage.getItem('validated_contracts')
+    const stored = storage.getItem('validated_contracts')
     return stored ? JSON.parse(stored) : {}
   } catch (error) {
     console.error('获取验证过的合约失败:', error)
@@ -206,7 +207,7 @@ export function clearExpiredValidations(): void {
       }
     })
     
-    localStorage.setItem('validated_contracts', JSON.stringify(filteredContracts))
+    storage.setItem('validated_contracts', JSON.stringify(filteredContracts))
   } catch (error) {
     console.error('清除过期验证记录失败:', error)
   }
@@ -215,7 +216,7 @@ export function clearExpiredValidations(): void {
 // 清除所有验证记录
 export function clearAllValidations(): void {
   try {
-    localStorage.removeItem('validated_contracts')
+    storage.removeItem('validated_contracts')
   } catch (error) {
     console.error('清除所有验证记录失败:', error)
   }
@@ -1,4 +1,5 @@
 import { encryptData, decryptData } from './encryption'
+import { storage, platform } from './platform'
 
 // 数据备份和恢复工具
 export class DataBackup {
@@ -17,9 +18,9 @@ export class DataBackup {
       const jsonData = JSON.stringify(backupData)
       const encryptedData = encryptData(jsonData)
       
-      // 保存到localStorage
-      localStorage.setItem(this.BACKUP_KEY, encryptedData)
-      localStorage.setItem(this.BACKUP_TIMESTAMP_KEY, new Date().toISOString())
+      // 保存到本地存储
+      storage.setItem(this.BACKUP_KEY, encryptedData)
+      storage.setItem(this.BACKUP_TIMESTAMP_KEY, new Date().toISOString())
       
       console.log('✅ 数据备份已创建:', new Date().toISOString())
       return encryptedData
@@ -32,7 +33,7 @@ export class DataBackup {
   // 恢复数据备份
   static restoreBackup(encryptedData?: string): any {
     try {
-      const dataToDecrypt = encryptedData || localStorage.getItem(this.BACKUP_KEY)
+      const dataToDecrypt = encryptedData || storage.getItem(this.BACKUP_KEY)
       
       if (!dataToDecrypt) {
         throw new Error('没有找到备份数据')
@@ -52,7 +53,7 @@ export class DataBackup {
   // 导出备份文件
   static exportBackup(): void {
     try {
-      const backupData = localStorage.getItem(this.BACKUP_KEY)
+      const backupData = storage.getItem(this.BACKUP_KEY)
       if (!backupData) {
         throw new Error('没有找到备份数据')
       }
@@ -60,15 +61,7 @@ export class DataBackup {
       const timestamp = new Date().toISOString().split('T')[0]
       const filename = `wallet-backup-${timestamp}.json`
       
-      const blob = new Blob([backupData], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = filename
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      platform.saveFile(filename, backupData, 'application/json')
       
       console.log('✅ 备份文件已导出:', filename)
     } catch (error) {
@@ -87,9 +80,9 @@ export class DataBackup {
           const encryptedData = e.target?.result as string
           const data = this.restoreBackup(encryptedData)
           
-          // 保存到localStorage
-          localStorage.setItem(this.BACKUP_KEY, encryptedData)
-          localStorage.setItem(this.BACKUP_TIMESTAMP_KEY, new Date().toISOString())
+          // 保存到本地存储
+          storage.setItem(this.BACKUP_KEY, encryptedData)
+          storage.setItem(this.BACKUP_TIMESTAMP_KEY, new Date().toISOString())
           
           console.log('✅ 备份文件已导入')
           resolve(data)
@@ -109,8 +102,8 @@ export class DataBackup {
   
   // 获取备份信息
   static getBackupInfo(): { exists: boolean; timestamp?: string } {
-    const backupExists = !!localStorage.getItem(this.BACKUP_KEY)
-    const timestamp = localStorage.getItem(this.BACKUP_TIMESTAMP_KEY)
+    const backupExists = !!storage.getItem(this.BACKUP_KEY)
+    const timestamp = storage.getItem(this.BACKUP_TIMESTAMP_KEY)
     
     return {
       exists: backupExists,
@@ -120,8 +113,8 @@ export class DataBackup {
   
   // 清除备份
   static clearBackup(): void {
-    localStorage.removeItem(this.BACKUP_KEY)
-    localStorage.removeItem(this.BACKUP_TIMESTAMP_KEY)
+    storage.removeItem(this.BACKUP_KEY)
+    storage.removeItem(this.BACKUP_TIMESTAMP_KEY)
     console.log('✅ 备份数据已清除')
   }
   
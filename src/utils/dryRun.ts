@@ -0,0 +1,52 @@
+import { ethers } from 'ethers'
+
+// 模拟运行中签名但未广播的交易
+export interface SimulatedTransaction {
+  hash: string // 广播后将得到的交易哈希
+  gasLimit: bigint
+  gasPrice: bigint // EIP-1559交易为maxFeePerGas
+  projectedGasCost: bigint // gasLimit * gasPrice，按费用上限计算
+  rawTransaction: string
+}
+
+// 模拟运行开关 - 开启后交易只构建和签名，不广播
+class DryRunSwitch {
+  private getEnabled: () => boolean = () => false
+
+  // 注册开关来源（由store在创建时注册，读取WalletConfig.dryRun）
+  setSource(source: () => boolean): void {
+    this.getEnabled = source
+  }
+
+  isEnabled(): boolean {
+    return this.getEnabled()
+  }
+}
+
+// 导出单例实例
+export const dryRun = new DryRunSwitch()
+
+// 解析已签名的原始交易，得到模拟结果
+export function describeSignedTransaction(rawTransaction: string): SimulatedTransaction {
+  const transaction = ethers.Transaction.from(rawTransaction)
+  const gasPrice = transaction.maxFeePerGas ?? transaction.gasPrice ?? BigInt(0)
+
+  return {
+    hash: transaction.hash || ethers.keccak256(rawTransaction),
+    gasLimit: transaction.gasLimit,
+    gasPrice,
+    projectedGasCost: transaction.gasLimit * gasPrice,
+    rawTransaction
+  }
+}
+
+// 补全nonce、chainId和费用后签名，不广播
+export async function signWithoutBroadcast(
+  signer: ethers.Wallet,
+  transaction: ethers.TransactionRequest
+): Promise<SimulatedTransaction> {
+  const populated = await signer.populateTransaction(transaction)
+  const rawTransaction = await signer.signTransaction(populated)
+  console.log('🧪 模拟运行: 交易已签名但未广播')
+  return describeSignedTransaction(rawTransaction)
+}
@@ -1,4 +1,5 @@
 import CryptoJS from 'crypto-js'
+import { storage } from './platform'
 
 // 生成随机密钥
 function generateKey(): string {
@@ -15,10 +16,10 @@ function deriveKeyFromPassword(password: string, salt: string): string {
 
 // 获取或创建加密密钥
 function getEncryptionKey(): string {
-  let key = localStorage.getItem('wallet_encryption_key')
+  let key = storage.getItem('wallet_encryption_key')
   if (!key) {
     key = generateKey()
-    localStorage.setItem('wallet_encryption_key', key)
+    storage.setItem('wallet_encryption_key', key)
   }
   return key
 }
@@ -93,17 +94,17 @@ export function storePrivateKey(privateKey: string, password?: string): void {
     if (password) {
       // 使用用户密码加密
       encrypted = encryptDataWithPassword(privateKey, password)
-      localStorage.setItem('encrypted_private_key_password', encrypted)
-      localStorage.setItem('private_key_protected', 'true')
+      storage.setItem('encrypted_private_key_password', encrypted)
+      storage.setItem('private_key_protected', 'true')
     } else {
       // 使用自动生成的密钥加密
       encrypted = encryptData(privateKey)
-      localStorage.setItem('encrypted_private_key', encrypted)
-      localStorage.setItem('private_key_protected', 'false')
+      storage.setItem('encrypted_private_key', encrypted)
+      storage.setItem('private_key_protected', 'false')
     }
     
     // 存储私钥导入时间
-    localStorage.setItem('private_key_import_time', new Date().toISOString())
+    storage.setItem('private_key_import_time', new Date().toISOString())
   } catch (error) {
     console.error('私钥存储失败:', error)
     throw new Error('私钥存储失败')
@@ -113,21 +114,21 @@ export function storePrivateKey(privateKey: string, password?: string): void {
 // 获取私钥
 export function getPrivateKey(password?: string): string | null {
   try {
-    const isProtected = localStorage.getItem('private_key_protected') === 'true'
+    const isProtected = storage.getItem('private_key_protected') === 'true'
     
     if (isProtected) {
       // 需要密码解密
       if (!password) {
         throw new Error('需要密码来解密私钥')
       }
-      const encrypted = localStorage.getItem('encrypted_private_key_password')
+      const encrypted = storage.getItem('encrypted_private_key_password')
       if (!encrypted) {
         return null
       }
       return decryptDataWithPassword(encrypted, password)
     } else {
       // 使用自动密钥解密
-      const encrypted = localStorage.getItem('encrypted_private_key')
+      const encrypted = storage.getItem('encrypted_private_key')
       if (!encrypted) {
         return null
       }
@@ -141,32 +142,97 @@ export function getPrivateKey(password?: string): string | null {
 
 // 检查私钥是否存在
 export function hasStoredPrivateKey(): boolean {
-  const isProtected = localStorage.getItem('private_key_protected') === 'true'
+  const isProtected = storage.getItem('private_key_protected') === 'true'
   if (isProtected) {
-    return !!localStorage.getItem('encrypted_private_key_password')
+    return !!storage.getItem('encrypted_private_key_password')
   } else {
-    return !!localStorage.getItem('encrypted_private_key')
+    return !!storage.getItem('encrypted_private_key')
   }
 }
 
 // 检查私钥是否需要密码
 export function isPrivateKeyProtected(): boolean {
-  return localStorage.getItem('private_key_protected') === 'true'
+  return storage.getItem('private_key_protected') === 'true'
 }
 
 // 获取私钥导入时间
 export function getPrivateKeyImportTime(): Date | null {
-  const timeStr = localStorage.getItem('private_key_import_time')
+  const timeStr = storage.getItem('private_key_import_time')
   return timeStr ? new Date(timeStr) : null
 }
 
 // 清除私钥
 export function clearPrivateKey(): void {
-  localStorage.removeItem('encrypted_private_key')
-  localStorage.removeItem('encrypted_private_key_password')
-  localStorage.removeItem('wallet_encryption_key')
-  localStorage.removeItem('private_key_protected')
-  localStorage.removeItem('private_key_import_time')
+  storage.removeItem('encrypted_private_key')
+  storage.removeItem('encrypted_private_key_password')
+  // 赞助钱包和多钱包监控的私钥也使用自动密钥加密，仍存在时保留密钥
+  if (!hasStoredSponsorKey() && !hasStoredFleetKeys()) {
+    storage.removeItem('wallet_encryption_key')
+  }
+  storage.removeItem('private_key_protected')
+  storage.removeItem('private_key_import_time')
+}
+
+// 存储Gas赞助钱包私钥（使用自动生成的密钥加密）
+export function storeSponsorPrivateKey(privateKey: string): void {
+  try {
+    storage.setItem('encrypted_sponsor_key', encryptData(privateKey))
+  } catch (error) {
+    console.error('赞助钱包私钥存储失败:', error)
+    throw new Error('赞助钱包私钥存储失败')
+  }
+}
+
+// 获取Gas赞助钱包私钥
+export function getSponsorPrivateKey(): string | null {
+  try {
+    const encrypted = storage.getItem('encrypted_sponsor_key')
+    return encrypted ? decryptData(encrypted) : null
+  } catch (error) {
+    console.error('赞助钱包私钥获取失败:', error)
+    return null
+  }
+}
+
+// 检查是否已存储赞助钱包私钥
+export function hasStoredSponsorKey(): boolean {
+  return !!storage.getItem('encrypted_sponsor_key')
+}
+
+// 清除Gas赞助钱包私钥
+export function clearSponsorPrivateKey(): void {
+  storage.removeItem('encrypted_sponsor_key')
+}
+
+// 存储多钱包监控中单个钱包的私钥（使用自动生成的密钥加密）
+export function storeFleetPrivateKey(id: string, privateKey: string): void {
+  try {
+    storage.setItem(`encrypted_fleet_key_${id}`, encryptData(privateKey))
+  } catch (error) {
+    console.error('监控钱包私钥存储失败:', error)
+    throw new Error('监控钱包私钥存储失败')
+  }
+}
+
+// 获取多钱包监控中单个钱包的私钥
+export function getFleetPrivateKey(id: string): string | null {
+  try {
+    const encrypted = storage.getItem(`encrypted_fleet_key_${id}`)
+    return encrypted ? decryptData(encrypted) : null
+  } catch (error) {
+    console.error('监控钱包私钥获取失败:', error)
+    return null
+  }
+}
+
+// 检查是否存储了任何多钱包监控私钥
+export function hasStoredFleetKeys(): boolean {
+  return storage.keys().some(key => key.startsWith('encrypted_fleet_key_'))
+}
+
+// 清除多钱包监控中单个钱包的私钥
+export function clearFleetPrivateKey(id: string): void {
+  storage.removeItem(`encrypted_fleet_key_${id}`)
 }
 
 // 验证私钥格式
@@ -0,0 +1,307 @@
+import { ethers } from 'ethers'
+import { gasOracle } from './gasOracle'
+import { gasBudget } from './gasBudget'
+import { nonceManager } from './nonceManager'
+
+const CHECK_INTERVAL = 2000 // Polygon约2秒出块
+const MIN_REPLACEMENT_PERCENT = 10 // 节点接受替换交易的最低加价幅度
+const WATCH_WINDOW = 30 * 60 * 1000 // 超过该时间仍未上链的交易不再加价，交由交易跟踪判定
+
+// 卡单加价策略：每隔everyBlocks个区块将优先费提高bumpPercent%，maxFeePerGas不超过maxFeeGwei
+export interface FeeEscalationPolicy {
+  enabled: boolean
+  bumpPercent: number
+  everyBlocks: number
+  maxFeeGwei: number
+}
+
+export type FeeEscalationEvent =
+  | {
+      type: 'bumped'
+      label: string
+      nonce: number
+      previousHash: string
+      hash: string
+      bumps: number
+      gasPrice: bigint // EIP-1559交易为maxFeePerGas
+      maxFeePerGas?: bigint
+      maxPriorityFeePerGas?: bigint
+      value?: bigint // 全额MATIC转账扣除新增Gas费用后的转出数额
+    }
+  | { type: 'stopped'; label: string; nonce: number; hash: string; reason: string }
+
+export type FeeEscalationListener = (event: FeeEscalationEvent) => void
+
+interface WatchedTransaction {
+  wallet: ethers.Wallet
+  label: string
+  current: ethers.TransactionResponse
+  lastBumpBlock: number | null // 首次检查时记录当前区块
+  bumps: number
+  watchedAt: number
+}
+
+// 按百分比加价，至少满足节点的10%替换门槛
+function raiseFee(value: bigint, percent: number): bigint {
+  const effective = Math.max(percent, MIN_REPLACEMENT_PERCENT)
+  return value + value * BigInt(Math.round(effective * 100)) / BigInt(10000) + BigInt(1)
+}
+
+// 卡单自动加价 - 跟踪本程序发出的待确认交易（转账、Silence、活期质押），
+// 在策略规定的区块数内未上链时用相同nonce和内容、更高费用重新广播
+export class FeeEscalator {
+  private provider: ethers.JsonRpcProvider | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private isChecking = false
+  private listeners = new Set<FeeEscalationListener>()
+  private getPolicy: () => FeeEscalationPolicy = () => ({ enabled: false, bumpPercent: 25, everyBlocks: 2, maxFeeGwei: 300 })
+  // 地址:nonce -> 待确认交易
+  private watched = new Map<string, WatchedTransaction>()
+
+  // 注册策略来源（由store在创建时注册）
+  setSource(source: () => FeeEscalationPolicy): void {
+    this.getPolicy = source
+  }
+
+  subscribe(listener: FeeEscalationListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start(provider: ethers.JsonRpcProvider): void {
+    this.stop()
+    this.provider = provider
+    this.timer = setInterval(() => {
+      this.check().catch(error => console.error('卡单加价检查失败:', error))
+    }, CHECK_INTERVAL)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.provider = null
+    this.watched.clear()
+  }
+
+  // 登记刚广播的交易，策略关闭时不登记
+  watch(wallet: ethers.Wallet, tx: ethers.TransactionResponse, label: string): void {
+    if (!this.getPolicy().enabled) return
+    this.watched.set(`${tx.from.toLowerCase()}:${tx.nonce}`, {
+      wallet,
+      label,
+      current: tx,
+      lastBumpBlock: null,
+      bumps: 0,
+      watchedAt: Date.now()
+    })
+  }
+
+  async check(): Promise<void> {
+    const provider = this.provider
+    if (!provider || this.isChecking || this.watched.size === 0) return
+
+    const policy = this.getPolicy()
+    if (!policy.enabled) {
+      this.watched.clear()
+      return
+    }
+
+    this.isChecking = true
+    try {
+      const currentBlock = await provider.getBlockNumber()
+      for (const [key, entry] of this.watched) {
+        try {
+          await this.checkEntry(provider, key, entry, currentBlock, policy)
+        } catch (error) {
+          // 检查与广播之间交易已上链
+          if (ethers.isError(error, 'NONCE_EXPIRED')) {
+            this.watched.delete(key)
+            continue
+          }
+          this.finish(key, entry, `加价失败: ${error instanceof Error ? error.message : '未知错误'}`)
+        }
+      }
+    } finally {
+      this.isChecking = false
+    }
+  }
+
+  private async checkEntry(
+    provider: ethers.JsonRpcProvider,
+    key: string,
+    entry: WatchedTransaction,
+    currentBlock: number,
+    policy: FeeEscalationPolicy
+  ): Promise<void> {
+    const { current } = entry
+
+    // nonce已被使用（本交易、之前的加价交易或手动替换交易已上链）
+    const minedCount = await provider.getTransactionCount(current.from, 'latest')
+    if (minedCount > current.nonce) {
+      this.watched.delete(key)
+      return
+    }
+
+    if (Date.now() - entry.watchedAt > WATCH_WINDOW) {
+      this.finish(key, entry, '长时间未上链，停止自动加价')
+      return
+    }
+
+    if (entry.lastBumpBlock === null) {
+      entry.lastBumpBlock = currentBlock
+      return
+    }
+    if (currentBlock - entry.lastBumpBlock < Math.max(1, policy.everyBlocks)) return
+
+    // 交易已不在内存池（被手动加速或取消替换、被丢弃），不再自动加价
+    const pending = await provider.getTransaction(current.hash)
+    if (!pending) {
+      this.watched.delete(key)
+      return
+    }
+
+    await this.bump(provider, key, entry, currentBlock, policy)
+  }
+
+  private async bump(
+    provider: ethers.JsonRpcProvider,
+    key: string,
+    entry: WatchedTransaction,
+    currentBlock: number,
+    policy: FeeEscalationPolicy
+  ): Promise<void> {
+    const { current } = entry
+    const feeCap = ethers.parseUnits(policy.maxFeeGwei.toString(), 'gwei')
+    const transaction: ethers.TransactionRequest = {
+      to: current.to,
+      data: current.data,
+      value: current.value,
+      gasLimit: current.gasLimit,
+      nonce: current.nonce,
+      chainId: current.chainId
+    }
+    let previousPrice: bigint
+    let nextPrice: bigint
+
+    if (current.maxFeePerGas !== null && current.maxPriorityFeePerGas !== null) {
+      const minFee = raiseFee(current.maxFeePerGas, MIN_REPLACEMENT_PERCENT)
+      const minPriorityFee = raiseFee(current.maxPriorityFeePerGas, MIN_REPLACEMENT_PERCENT)
+      let priorityFee = raiseFee(current.maxPriorityFeePerGas, policy.bumpPercent)
+      // maxFeePerGas同步加价，并保证覆盖下一区块基础费用加新的优先费
+      const { nextBaseFee } = await gasOracle.getSnapshot(provider)
+      const requiredFee = nextBaseFee + priorityFee
+      let maxFee = raiseFee(current.maxFeePerGas, policy.bumpPercent)
+      if (maxFee < requiredFee) maxFee = requiredFee
+
+      if (maxFee > feeCap) maxFee = feeCap
+      if (priorityFee > maxFee) priorityFee = maxFee
+
+      if (maxFee < minFee || priorityFee < minPriorityFee) {
+        this.finish(key, entry, `已达加价上限 ${policy.maxFeeGwei} Gwei`)
+        return
+      }
+
+      transaction.type = 2
+      transaction.maxFeePerGas = maxFee
+      transaction.maxPriorityFeePerGas = priorityFee
+      previousPrice = current.maxFeePerGas
+      nextPrice = maxFee
+    } else {
+      const minGasPrice = raiseFee(current.gasPrice, MIN_REPLACEMENT_PERCENT)
+      let gasPrice = raiseFee(current.gasPrice, policy.bumpPercent)
+      if (gasPrice > feeCap) gasPrice = feeCap
+
+      if (gasPrice < minGasPrice) {
+        this.finish(key, entry, `已达加价上限 ${policy.maxFeeGwei} Gwei`)
+        return
+      }
+
+      transaction.type = 0
+      transaction.gasPrice = gasPrice
+      previousPrice = current.gasPrice
+      nextPrice = gasPrice
+    }
+
+    // 原交易的费用已计入Gas预算，加价只计入新增部分
+    const extraCost = current.gasLimit * (nextPrice - previousPrice)
+
+    // 全额MATIC转账余额不足以支付加价，从转出数额中扣除新增费用
+    let reducedValue: bigint | undefined
+    if (current.data === '0x' && current.value > BigInt(0)) {
+      const balance = await provider.getBalance(current.from)
+      const shortfall = current.value + current.gasLimit * nextPrice - balance
+      if (shortfall > BigInt(0)) {
+        reducedValue = current.value - shortfall
+        if (reducedValue <= BigInt(0)) {
+          this.finish(key, entry, '余额不足以支付加价后的Gas费用')
+          return
+        }
+        transaction.value = reducedValue
+      }
+    }
+
+    gasBudget.assertWithinBudget({ action: `${entry.label}加价`, gasPrice: nextPrice, gasCost: extraCost })
+
+    const replacement = await entry.wallet.sendTransaction(transaction)
+    nonceManager.markSent(entry.wallet.address, current.nonce, replacement.hash)
+    gasBudget.recordSpend(`${entry.label}加价`, extraCost, replacement.hash)
+    console.log(`⏫ ${entry.label}已加价 (nonce ${current.nonce})，${ethers.formatUnits(nextPrice, 'gwei')} Gwei，哈希: ${replacement.hash}`)
+
+    entry.current = replacement
+    entry.lastBumpBlock = currentBlock
+    entry.bumps += 1
+
+    this.emit({
+      type: 'bumped',
+      label: entry.label,
+      nonce: current.nonce,
+      previousHash: current.hash,
+      hash: replacement.hash,
+      bumps: entry.bumps,
+      gasPrice: nextPrice,
+      maxFeePerGas: replacement.maxFeePerGas ?? undefined,
+      maxPriorityFeePerGas: replacement.maxPriorityFeePerGas ?? undefined,
+      value: reducedValue
+    })
+  }
+
+  private finish(key: string, entry: WatchedTransaction, reason: string): void {
+    this.watched.delete(key)
+    this.emit({ type: 'stopped', label: entry.label, nonce: entry.current.nonce, hash: entry.current.hash, reason })
+  }
+
+  private emit(event: FeeEscalationEvent): void {
+    this.listeners.forEach(listener => listener(event))
+  }
+}
+
+// 导出单例实例
+export const feeEscalator = new FeeEscalator()
+
+// 等待交易上链，交易被加价替换（目标和数据相同、费用更高）时返回替换交易的回执
+export async function waitForEscalatedReceipt(tx: ethers.TransactionResponse): Promise<ethers.TransactionReceipt> {
+  try {
+    const receipt = await tx.wait()
+    if (!receipt) {
+      throw new Error('未获取到交易回执')
+    }
+    return receipt
+  } catch (error) {
+    if (
+      ethers.isError(error, 'TRANSACTION_REPLACED') &&
+      error.replacement.to === tx.to &&
+      error.replacement.data === tx.data
+    ) {
+      console.log(`交易 ${tx.hash} 已被加价交易 ${error.receipt.hash} 替换并上链`)
+      if (error.receipt.status === 0) {
+        throw new Error(`加价交易执行失败，已被回滚: ${error.receipt.hash}`)
+      }
+      return error.receipt
+    }
+    throw error
+  }
+}
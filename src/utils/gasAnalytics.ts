@@ -0,0 +1,134 @@
+import { ethers } from 'ethers'
+import type { TransferRecord } from '../store/useWalletStore'
+
+const SWEEP_TYPES: TransferRecord['type'][] = ['auto', 'manual']
+
+// 按类型、日期或Gas策略汇总的一行
+export interface GasBreakdownRow {
+  key: string
+  count: number
+  gasCost: bigint // wei
+}
+
+// Gas费用超过转出金额的转账
+export interface FlaggedSweep {
+  record: TransferRecord
+  gasCost: bigint
+  value: bigint // 实际转出的MATIC（失败的交易为0）
+}
+
+export interface GasAnalytics {
+  transactions: number
+  totalGasCost: bigint
+  movedNative: bigint // 成功转出的MATIC，代币和NFT无法按MATIC计价不计入
+  byType: GasBreakdownRow[]
+  byDay: GasBreakdownRow[]
+  byStrategy: GasBreakdownRow[]
+  // 实际Gas价格超出打包区块基础费用的部分（即支付给验证者的小费）
+  overpay: {
+    samples: number
+    totalCost: bigint
+    averageGwei: number
+    averagePercent: number
+  }
+  flaggedSweeps: FlaggedSweep[]
+}
+
+// 已上链交易的实际Gas费用，缺少回执数据时返回null
+export function getRecordGasCost(record: TransferRecord): bigint | null {
+  if (!record.gasUsed || !record.effectiveGasPrice) return null
+  return BigInt(record.gasUsed) * BigInt(record.effectiveGasPrice)
+}
+
+// 转账记录转出的MATIC数量，代币、NFT和失败的交易为0
+function getMovedNative(record: TransferRecord): bigint {
+  if (record.status !== 'confirmed' || record.tokenAddress || record.nftTokenIds) return BigInt(0)
+  try {
+    return ethers.parseEther(record.amount)
+  } catch (error) {
+    return BigInt(0)
+  }
+}
+
+function isNativeSweep(record: TransferRecord): boolean {
+  return SWEEP_TYPES.includes(record.type) && !record.tokenAddress && !record.nftTokenIds
+}
+
+// 按本地日期分组
+function getDayKey(timestamp: Date): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function addToBreakdown(rows: Map<string, GasBreakdownRow>, key: string, gasCost: bigint): void {
+  const row = rows.get(key) || { key, count: 0, gasCost: BigInt(0) }
+  row.count += 1
+  row.gasCost += gasCost
+  rows.set(key, row)
+}
+
+// 汇总转账记录的Gas支出，只统计已有回执数据（gasUsed和effectiveGasPrice）的交易
+export function analyzeGasSpend(records: TransferRecord[]): GasAnalytics {
+  const byType = new Map<string, GasBreakdownRow>()
+  const byDay = new Map<string, GasBreakdownRow>()
+  const byStrategy = new Map<string, GasBreakdownRow>()
+  const flaggedSweeps: FlaggedSweep[] = []
+  let transactions = 0
+  let totalGasCost = BigInt(0)
+  let movedNative = BigInt(0)
+  let overpaySamples = 0
+  let overpayCost = BigInt(0)
+  let overpayGweiSum = 0
+  let overpayPercentSum = 0
+  let overpayPercentSamples = 0
+
+  for (const record of records) {
+    const gasCost = getRecordGasCost(record)
+    if (gasCost === null) continue
+
+    transactions += 1
+    totalGasCost += gasCost
+    addToBreakdown(byType, record.type, gasCost)
+    addToBreakdown(byDay, getDayKey(record.timestamp), gasCost)
+    addToBreakdown(byStrategy, record.gasStrategy || 'unknown', gasCost)
+
+    const moved = getMovedNative(record)
+    movedNative += moved
+
+    if (record.baseFeePerGas !== undefined) {
+      const baseFee = BigInt(record.baseFeePerGas)
+      const overpay = BigInt(record.effectiveGasPrice!) - baseFee
+      overpaySamples += 1
+      overpayCost += BigInt(record.gasUsed!) * overpay
+      overpayGweiSum += parseFloat(ethers.formatUnits(overpay, 'gwei'))
+      if (baseFee > BigInt(0)) {
+        overpayPercentSum += Number(overpay * BigInt(10000) / baseFee) / 100
+        overpayPercentSamples += 1
+      }
+    }
+
+    if (isNativeSweep(record) && gasCost > moved) {
+      flaggedSweeps.push({ record, gasCost, value: moved })
+    }
+  }
+
+  const byCost = (a: GasBreakdownRow, b: GasBreakdownRow) => (a.gasCost === b.gasCost ? 0 : (a.gasCost > b.gasCost ? -1 : 1))
+
+  return {
+    transactions,
+    totalGasCost,
+    movedNative,
+    byType: [...byType.values()].sort(byCost),
+    byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byStrategy: [...byStrategy.values()].sort(byCost),
+    overpay: {
+      samples: overpaySamples,
+      totalCost: overpayCost,
+      averageGwei: overpaySamples > 0 ? overpayGweiSum / overpaySamples : 0,
+      averagePercent: overpayPercentSamples > 0 ? overpayPercentSum / overpayPercentSamples : 0
+    },
+    flaggedSweeps
+  }
+}
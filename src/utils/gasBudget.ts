@@ -0,0 +1,119 @@
+import { ethers } from 'ethers'
+
+const BUDGET_WINDOW = 24 * 60 * 60 * 1000 // 每日预算按滚动24小时计算
+
+// Gas支出上限，未设置或为0时不限制
+export interface GasBudgetLimits {
+  maxGasPriceGwei?: number // 单笔交易的最高Gas价格（EIP-1559为maxFeePerGas）
+  maxGasCostPercent?: number // Gas费用占转出MATIC数额的最高百分比
+  dailyGasBudget?: string // 滚动24小时内的Gas费用总额（MATIC）
+}
+
+// 已广播交易的Gas支出（按费用上限gasLimit * maxFeePerGas计入，偏保守）
+export interface GasSpendEntry {
+  timestamp: number
+  cost: string // wei
+  action: string
+  hash: string
+}
+
+interface GasBudgetState {
+  limits: GasBudgetLimits
+  ledger: GasSpendEntry[]
+}
+
+export type GasBudgetEvent =
+  | { type: 'blocked'; action: string; reason: string }
+  | { type: 'spent'; entry: GasSpendEntry }
+
+export type GasBudgetListener = (event: GasBudgetEvent) => void
+
+// 待检查的交易费用，value为转出的MATIC数额（代币转账无法按MATIC计价，不检查百分比上限）
+export interface GasSpendCheck {
+  action: string
+  gasPrice: bigint
+  gasCost: bigint
+  value?: bigint
+}
+
+// Gas预算守卫 - 广播前检查单笔Gas价格、Gas占比和每日预算，超出时拒绝发送
+class GasBudgetGuard {
+  private getState: () => GasBudgetState = () => ({ limits: {}, ledger: [] })
+  private listeners = new Set<GasBudgetListener>()
+
+  // 注册限额和支出记录来源（由store在创建时注册）
+  setSource(source: () => GasBudgetState): void {
+    this.getState = source
+  }
+
+  subscribe(listener: GasBudgetListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // 滚动24小时内已计入的Gas支出
+  getSpentInWindow(now: number = Date.now()): bigint {
+    return this.getState().ledger
+      .filter(entry => now - entry.timestamp < BUDGET_WINDOW)
+      .reduce((sum, entry) => sum + BigInt(entry.cost), BigInt(0))
+  }
+
+  // 超出任一上限时返回原因，不通知订阅者（用于预先筛选，如预签名阶梯的各档位）
+  getViolation(check: GasSpendCheck): string | null {
+    return this.findViolation(check)
+  }
+
+  // 超出任一上限时抛出错误并通知订阅者
+  assertWithinBudget(check: GasSpendCheck): void {
+    const reason = this.findViolation(check)
+    if (!reason) return
+
+    this.listeners.forEach(listener => listener({ type: 'blocked', action: check.action, reason }))
+    throw new Error(`Gas上限: ${check.action}已拒绝发送，${reason}`)
+  }
+
+  // 交易广播后计入每日支出
+  recordSpend(action: string, gasCost: bigint, hash: string): void {
+    const entry: GasSpendEntry = { timestamp: Date.now(), cost: gasCost.toString(), action, hash }
+    this.listeners.forEach(listener => listener({ type: 'spent', entry }))
+  }
+
+  private findViolation({ gasPrice, gasCost, value }: GasSpendCheck): string | null {
+    const { maxGasPriceGwei, maxGasCostPercent, dailyGasBudget } = this.getState().limits
+
+    if (maxGasPriceGwei && maxGasPriceGwei > 0) {
+      const cap = ethers.parseUnits(maxGasPriceGwei.toString(), 'gwei')
+      if (gasPrice > cap) {
+        return `Gas价格 ${ethers.formatUnits(gasPrice, 'gwei')} Gwei 超过单笔上限 ${maxGasPriceGwei} Gwei`
+      }
+    }
+
+    if (maxGasCostPercent && maxGasCostPercent > 0 && value !== undefined && value > BigInt(0)) {
+      // 百分比保留两位小数精度
+      const limit = value * BigInt(Math.round(maxGasCostPercent * 100)) / BigInt(10000)
+      if (gasCost > limit) {
+        return `Gas费用 ${ethers.formatEther(gasCost)} MATIC 超过转出数额 ${ethers.formatEther(value)} MATIC 的 ${maxGasCostPercent}%`
+      }
+    }
+
+    if (dailyGasBudget && parseFloat(dailyGasBudget) > 0) {
+      const budget = ethers.parseEther(dailyGasBudget)
+      const spent = this.getSpentInWindow()
+      if (spent + gasCost > budget) {
+        return `24小时内已支出 ${ethers.formatEther(spent)} MATIC，本笔 ${ethers.formatEther(gasCost)} MATIC 将超过每日预算 ${dailyGasBudget} MATIC`
+      }
+    }
+
+    return null
+  }
+}
+
+// 导出单例实例
+export const gasBudget = new GasBudgetGuard()
+
+// 清理滚动窗口之外的支出记录
+export function pruneGasLedger(ledger: GasSpendEntry[], now: number = Date.now()): GasSpendEntry[] {
+  return ledger.filter(entry => now - entry.timestamp < BUDGET_WINDOW)
+}
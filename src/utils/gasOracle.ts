@@ -0,0 +1,302 @@
+import { ethers } from 'ethers'
+
+// eth_feeHistory采样的区块数和小费百分位
+const FEE_HISTORY_BLOCKS = 20
+const REWARD_PERCENTILES = [10, 25, 50, 75, 90]
+const SNAPSHOT_TTL = 2000 // Polygon约2秒出一个块，同一区块内复用结果
+
+// EIP-1559基础费用每个区块的最大变化比例为 1/分母（Polygon Delhi升级后为16）
+const BASE_FEE_CHANGE_DENOMINATOR = 16
+
+// maxFeePerGas为下一个区块基础费用的2倍加小费，基础费用连续上涨时交易仍可在多个区块内被打包
+const BASE_FEE_HEADROOM = BigInt(2)
+
+// 区块Gas使用率低于该值视为未满，出价不低于最低小费的交易都能进入下一个区块
+const FULL_BLOCK_RATIO = 0.95
+
+// 节点不支持EIP-1559时按gasPrice的倍数分级
+const LEGACY_TIER_MULTIPLIERS: Record<GasTierName, number> = {
+  safe: 1.0,
+  standard: 1.1,
+  fast: 1.3,
+  rush: 1.8,
+  ultraRush: 2.5
+}
+
+export type GasTierName = 'safe' | 'standard' | 'fast' | 'rush' | 'ultraRush'
+
+// 命名的费用档位及预计进入下一个区块的概率
+export interface GasTier {
+  name: GasTierName
+  label: string
+  maxPriorityFeePerGas: bigint
+  maxFeePerGas: bigint // 传统网络为gasPrice
+  inclusionProbability: number // 0-1
+}
+
+export interface GasOracleSnapshot {
+  blockNumber: number
+  legacy: boolean // 节点不支持EIP-1559
+  baseFee: bigint // 最新区块基础费用
+  nextBaseFee: bigint // 根据最新区块Gas使用率推算的下一个区块基础费用
+  utilization: number // 采样区块的平均Gas使用率
+  tiers: Record<GasTierName, GasTier>
+  updatedAt: number
+}
+
+// 交易费用字段，gasPrice为EIP-1559交易的maxFeePerGas
+export interface OracleFees {
+  gasPrice: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+}
+
+// 与BlockchainService的CustomGasConfig结构一致
+interface GasMultiplierConfig {
+  gasMultiplier: number
+  crazyMode: boolean
+}
+
+const TIER_LABELS: Record<GasTierName, string> = {
+  safe: '安全',
+  standard: '标准',
+  fast: '快速',
+  rush: '抢跑',
+  ultraRush: '超高速'
+}
+
+// 各档位对应的小费百分位（ultraRush取采样窗口内的最高90分位）
+const TIER_PERCENTILE: Record<Exclude<GasTierName, 'ultraRush'>, number> = {
+  safe: 25,
+  standard: 50,
+  fast: 75,
+  rush: 90
+}
+
+interface FeeHistory {
+  oldestBlock: number
+  baseFees: bigint[] // 长度为区块数+1，最后一项为节点给出的下一个区块基础费用
+  gasUsedRatios: number[]
+  rewards: bigint[][] // 每个区块按REWARD_PERCENTILES的小费
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return BigInt(0)
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function scaleFee(value: bigint, multiplier: number): bigint {
+  return BigInt(Math.floor(Number(value) * multiplier))
+}
+
+// 按EIP-1559规则由区块基础费用和Gas使用率推算下一个区块的基础费用
+export function projectBaseFee(baseFee: bigint, gasUsedRatio: number): bigint {
+  const delta = (gasUsedRatio - 0.5) / 0.5 / BASE_FEE_CHANGE_DENOMINATOR
+  const projected = scaleFee(baseFee, 1 + delta)
+  return gasUsedRatio > 0.5 && projected <= baseFee ? baseFee + BigInt(1) : projected
+}
+
+// 估算小费为priorityFee的交易进入下一个区块的概率：
+// 采样区块未满时只要不低于最低小费即可打包，已满时按区块内小费分布中低于该出价的比例计算
+function estimateInclusion(priorityFee: bigint, history: FeeHistory): number {
+  const samples = history.rewards
+    .map((rewards, index) => ({ rewards, ratio: history.gasUsedRatios[index] }))
+    .filter(sample => sample.ratio > 0 && sample.rewards.length === REWARD_PERCENTILES.length)
+  if (samples.length === 0) return 0.5
+
+  const total = samples.reduce((sum, { rewards, ratio }) => {
+    if (ratio < FULL_BLOCK_RATIO && priorityFee >= rewards[0]) return sum + 1
+
+    // 在百分位之间线性插值出价超过的交易比例
+    let share = 0
+    for (let index = 0; index < rewards.length; index++) {
+      if (priorityFee < rewards[index]) {
+        const lowerFee = index === 0 ? BigInt(0) : rewards[index - 1]
+        const lowerPct = index === 0 ? 0 : REWARD_PERCENTILES[index - 1]
+        const span = rewards[index] - lowerFee
+        const fraction = span > BigInt(0) ? Number(priorityFee - lowerFee) / Number(span) : 0
+        share = (lowerPct + fraction * (REWARD_PERCENTILES[index] - lowerPct)) / 100
+        break
+      }
+      share = 1
+    }
+    return sum + share
+  }, 0)
+
+  return Math.min(1, Math.max(0, total / samples.length))
+}
+
+// Gas预言机 - 根据eth_feeHistory的小费百分位和区块Gas使用率给出分档费用
+export class GasOracle {
+  private snapshots = new WeakMap<ethers.JsonRpcProvider, GasOracleSnapshot>()
+  private pending = new WeakMap<ethers.JsonRpcProvider, Promise<GasOracleSnapshot>>()
+
+  // 获取费用快照，同一provider在SNAPSHOT_TTL内复用
+  async getSnapshot(provider: ethers.JsonRpcProvider, force: boolean = false): Promise<GasOracleSnapshot> {
+    const cached = this.snapshots.get(provider)
+    if (!force && cached && Date.now() - cached.updatedAt < SNAPSHOT_TTL) {
+      return cached
+    }
+
+    const inFlight = this.pending.get(provider)
+    if (inFlight) return inFlight
+
+    const request = this.buildSnapshot(provider)
+      .then(snapshot => {
+        this.snapshots.set(provider, snapshot)
+        return snapshot
+      })
+      .finally(() => this.pending.delete(provider))
+    this.pending.set(provider, request)
+    return request
+  }
+
+  // 按Gas策略返回交易费用：fast/standard/safe对应同名档位，custom把标准档位的小费乘以用户倍数
+  // maxFeePerGas仍为2倍下一区块基础费用加放大后的小费，倍数不作用于基础费用余量（传统网络直接放大gasPrice）
+  async getFees(
+    provider: ethers.JsonRpcProvider,
+    gasStrategy: 'fast' | 'standard' | 'safe' | 'custom',
+    customGasConfig?: GasMultiplierConfig
+  ): Promise<OracleFees> {
+    const snapshot = await this.getSnapshot(provider)
+
+    if (gasStrategy !== 'custom' || !customGasConfig) {
+      return this.toFees(snapshot, snapshot.tiers[gasStrategy === 'custom' ? 'standard' : gasStrategy])
+    }
+
+    const multiplier = customGasConfig.crazyMode
+      ? Math.max(customGasConfig.gasMultiplier, 5) // 疯狂模式最少5倍
+      : customGasConfig.gasMultiplier
+    const standard = snapshot.tiers.standard
+    const maxPriorityFeePerGas = scaleFee(standard.maxPriorityFeePerGas, multiplier)
+    return this.toFees(snapshot, {
+      ...standard,
+      maxPriorityFeePerGas,
+      maxFeePerGas: snapshot.legacy
+        ? scaleFee(standard.maxFeePerGas, multiplier)
+        : snapshot.nextBaseFee * BASE_FEE_HEADROOM + maxPriorityFeePerGas
+    })
+  }
+
+  private toFees(snapshot: GasOracleSnapshot, tier: GasTier): OracleFees {
+    if (snapshot.legacy) {
+      return { gasPrice: tier.maxFeePerGas }
+    }
+    return {
+      gasPrice: tier.maxFeePerGas,
+      maxFeePerGas: tier.maxFeePerGas,
+      maxPriorityFeePerGas: tier.maxPriorityFeePerGas
+    }
+  }
+
+  private async fetchFeeHistory(provider: ethers.JsonRpcProvider): Promise<FeeHistory | null> {
+    try {
+      const raw = await provider.send('eth_feeHistory', [
+        ethers.toQuantity(FEE_HISTORY_BLOCKS),
+        'latest',
+        REWARD_PERCENTILES
+      ])
+      if (!raw?.baseFeePerGas || !raw.reward) return null
+
+      return {
+        oldestBlock: Number(raw.oldestBlock),
+        baseFees: raw.baseFeePerGas.map((value: string) => BigInt(value)),
+        gasUsedRatios: raw.gasUsedRatio.map(Number),
+        rewards: raw.reward.map((values: string[]) => values.map(value => BigInt(value)))
+      }
+    } catch (error) {
+      console.warn('eth_feeHistory不可用，使用传统Gas价格:', error)
+      return null
+    }
+  }
+
+  private async buildSnapshot(provider: ethers.JsonRpcProvider): Promise<GasOracleSnapshot> {
+    const history = await this.fetchFeeHistory(provider)
+    const hasBaseFee = !!history && history.baseFees.some(fee => fee > BigInt(0))
+
+    if (!history || !hasBaseFee || history.gasUsedRatios.length === 0) {
+      return this.buildLegacySnapshot(provider)
+    }
+
+    const lastIndex = history.gasUsedRatios.length - 1
+    const baseFee = history.baseFees[lastIndex]
+    const nextBaseFee = projectBaseFee(baseFee, history.gasUsedRatios[lastIndex])
+    const utilization = history.gasUsedRatios.reduce((sum, ratio) => sum + ratio, 0) / history.gasUsedRatios.length
+
+    // 空块没有小费样本，不参与百分位统计
+    const rewards = history.rewards.filter((values, index) => history.gasUsedRatios[index] > 0 && values.length > 0)
+    // 最低小费取各区块10分位的最小值，避免低于节点接受的下限
+    const minimumTip = rewards.length > 0
+      ? rewards.reduce((min, values) => (values[0] < min ? values[0] : min), rewards[0][0])
+      : BigInt(0)
+
+    const priorityFor = (percentile: number): bigint => {
+      const column = REWARD_PERCENTILES.indexOf(percentile)
+      const value = median(rewards.map(values => values[column]))
+      return value > minimumTip ? value : minimumTip
+    }
+
+    const makeTier = (name: GasTierName, maxPriorityFeePerGas: bigint): GasTier => ({
+      name,
+      label: TIER_LABELS[name],
+      maxPriorityFeePerGas,
+      maxFeePerGas: nextBaseFee * BASE_FEE_HEADROOM + maxPriorityFeePerGas,
+      inclusionProbability: estimateInclusion(maxPriorityFeePerGas, history)
+    })
+
+    const rushColumn = REWARD_PERCENTILES.indexOf(TIER_PERCENTILE.rush)
+    const highestRush = rewards.reduce(
+      (max, values) => (values[rushColumn] > max ? values[rushColumn] : max),
+      priorityFor(TIER_PERCENTILE.rush)
+    )
+
+    return {
+      blockNumber: history.oldestBlock + lastIndex,
+      legacy: false,
+      baseFee,
+      nextBaseFee,
+      utilization,
+      tiers: {
+        safe: makeTier('safe', priorityFor(TIER_PERCENTILE.safe)),
+        standard: makeTier('standard', priorityFor(TIER_PERCENTILE.standard)),
+        fast: makeTier('fast', priorityFor(TIER_PERCENTILE.fast)),
+        rush: makeTier('rush', priorityFor(TIER_PERCENTILE.rush)),
+        ultraRush: makeTier('ultraRush', highestRush)
+      },
+      updatedAt: Date.now()
+    }
+  }
+
+  // 传统网络：按节点gasPrice分档，无法估算打包概率时按档位给出经验值
+  private async buildLegacySnapshot(provider: ethers.JsonRpcProvider): Promise<GasOracleSnapshot> {
+    const [feeData, blockNumber] = await Promise.all([provider.getFeeData(), provider.getBlockNumber()])
+    const gasPrice = feeData.gasPrice || BigInt(0)
+    const legacyProbability: Record<GasTierName, number> = { safe: 0.5, standard: 0.7, fast: 0.85, rush: 0.95, ultraRush: 0.99 }
+
+    const tiers = {} as Record<GasTierName, GasTier>
+    for (const name of Object.keys(LEGACY_TIER_MULTIPLIERS) as GasTierName[]) {
+      const price = scaleFee(gasPrice, LEGACY_TIER_MULTIPLIERS[name])
+      tiers[name] = {
+        name,
+        label: TIER_LABELS[name],
+        maxPriorityFeePerGas: price,
+        maxFeePerGas: price,
+        inclusionProbability: legacyProbability[name]
+      }
+    }
+
+    return {
+      blockNumber,
+      legacy: true,
+      baseFee: BigInt(0),
+      nextBaseFee: BigInt(0),
+      utilization: 0,
+      tiers,
+      updatedAt: Date.now()
+    }
+  }
+}
+
+// 导出单例实例
+export const gasOracle = new GasOracle()
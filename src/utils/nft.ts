@@ -0,0 +1,118 @@
+import { ethers } from 'ethers'
+import { rpcOptimizer } from './rpcOptimizer'
+
+// ERC-721 / ERC-1155 合约ABI（只包含发现和转移所需的部分）
+export const ERC721_ABI = [
+  'function name() view returns (string)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+]
+
+export const ERC1155_ABI = [
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)'
+]
+
+export const DEFAULT_NFT_SCAN_BLOCKS = 50000 // 默认扫描最近的区块数（Polygon约1天）
+const LOG_CHUNK_SIZE = 5000 // 公共节点对eth_getLogs的区块范围有限制，分段查询
+
+// 钱包当前持有的NFT
+export interface NftHolding {
+  contract: string
+  standard: 'erc721' | 'erc1155'
+  tokenId: string
+  amount: string // ERC-721固定为1
+  name?: string // 合集名称
+}
+
+export interface NftScanOptions {
+  blocks?: number
+  onProgress?: (scannedBlocks: number, totalBlocks: number) => void
+}
+
+const erc721Interface = new ethers.Interface(ERC721_ABI)
+const erc1155Interface = new ethers.Interface(ERC1155_ABI)
+const TRANSFER_TOPIC = erc721Interface.getEvent('Transfer')!.topicHash
+const TRANSFER_SINGLE_TOPIC = erc1155Interface.getEvent('TransferSingle')!.topicHash
+const TRANSFER_BATCH_TOPIC = erc1155Interface.getEvent('TransferBatch')!.topicHash
+
+export function getNftKey(holding: Pick<NftHolding, 'contract' | 'tokenId'>): string {
+  return `${holding.contract.toLowerCase()}:${holding.tokenId}`
+}
+
+// 扫描转入钱包的Transfer和TransferSingle/TransferBatch日志，得到候选NFT，再按当前持有情况过滤
+// ERC-721与ERC-20的Transfer事件签名相同，以tokenId是否为indexed（4个topic）区分
+export async function discoverNftHoldings(
+  provider: ethers.Provider,
+  owner: string,
+  options: NftScanOptions = {}
+): Promise<NftHolding[]> {
+  const totalBlocks = options.blocks || DEFAULT_NFT_SCAN_BLOCKS
+  const latestBlock = await provider.getBlockNumber()
+  const startBlock = Math.max(0, latestBlock - totalBlocks + 1)
+  const ownerTopic = ethers.zeroPadValue(owner, 32)
+
+  const candidates = new Map<string, Omit<NftHolding, 'amount'>>()
+
+  for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += LOG_CHUNK_SIZE) {
+    const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock)
+
+    const [erc721Logs, erc1155Logs] = await Promise.all([
+      provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, null, ownerTopic] }),
+      provider.getLogs({ fromBlock, toBlock, topics: [[TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC], null, null, ownerTopic] })
+    ])
+
+    for (const log of erc721Logs) {
+      if (log.topics.length !== 4) continue
+      const tokenId = BigInt(log.topics[3]).toString()
+      const holding = { contract: ethers.getAddress(log.address), standard: 'erc721' as const, tokenId }
+      candidates.set(getNftKey(holding), holding)
+    }
+
+    for (const log of erc1155Logs) {
+      const parsed = erc1155Interface.parseLog(log)
+      if (!parsed) continue
+      const ids: bigint[] = parsed.name === 'TransferSingle' ? [parsed.args.id] : [...parsed.args.ids]
+      for (const id of ids) {
+        const holding = { contract: ethers.getAddress(log.address), standard: 'erc1155' as const, tokenId: id.toString() }
+        candidates.set(getNftKey(holding), holding)
+      }
+    }
+
+    options.onProgress?.(toBlock - startBlock + 1, latestBlock - startBlock + 1)
+  }
+
+  if (candidates.size === 0) return []
+
+  // 转入后可能已被转出，按当前持有情况过滤（Multicall3批量读取）
+  const list = [...candidates.values()]
+  const values = await rpcOptimizer.batchRead(list.map(candidate => candidate.standard === 'erc721'
+    ? { kind: 'ownerOf' as const, token: candidate.contract, tokenId: candidate.tokenId }
+    : { kind: 'erc1155Balance' as const, token: candidate.contract, owner, tokenId: candidate.tokenId }
+  ))
+
+  const holdings: NftHolding[] = []
+  list.forEach((candidate, index) => {
+    const value = values[index]
+    if (candidate.standard === 'erc721') {
+      if (typeof value === 'string' && value.toLowerCase() === owner.toLowerCase()) {
+        holdings.push({ ...candidate, amount: '1' })
+      }
+    } else if (typeof value === 'bigint' && value > BigInt(0)) {
+      holdings.push({ ...candidate, amount: value.toString() })
+    }
+  })
+
+  // 合集名称仅用于展示，获取失败时忽略
+  const contracts = [...new Set(holdings.map(holding => holding.contract))]
+  const names = await Promise.all(contracts.map(contract =>
+    new ethers.Contract(contract, ERC721_ABI, provider).name().catch(() => undefined) as Promise<string | undefined>
+  ))
+  const nameByContract = new Map(contracts.map((contract, index) => [contract, names[index]]))
+
+  return holdings.map(holding => ({ ...holding, name: nameByContract.get(holding.contract) }))
+}
@@ -0,0 +1,141 @@
+import { ethers } from 'ethers'
+
+// 本地状态超过该时间未与节点同步时，下次分配前重新同步（发现其他设备或攻击者用同一私钥发出的交易）
+const RESYNC_INTERVAL = 60000
+
+// 单个地址的nonce状态
+interface AddressNonceState {
+  next: number | null // 下一个可分配的nonce，null表示需要同步
+  inFlight: Map<number, string> // 已分配的nonce -> 交易哈希（尚未广播时为空字符串）
+  syncedAt: number
+  lock: Promise<void> // 串行化同一地址的分配
+}
+
+// nonce相关的节点错误：本地nonce已失效，需要重新同步
+function isNonceError(error: unknown): boolean {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase()
+  return ['nonce', 'replacement_underpriced', 'replacement transaction underpriced', 'already known'].some(keyword => message.includes(keyword))
+}
+
+// 共享nonce管理器 - 按地址在本地分配nonce，同一私钥的并发和批量发送无需等待确认
+// 出现空缺（发送失败归还的nonce）、nonce错误或状态过期时用pending交易数重新同步
+export class NonceManager {
+  private states = new Map<string, AddressNonceState>()
+
+  private getState(address: string): AddressNonceState {
+    const key = address.toLowerCase()
+    let state = this.states.get(key)
+    if (!state) {
+      state = { next: null, inFlight: new Map(), syncedAt: 0, lock: Promise.resolve() }
+      this.states.set(key, state)
+    }
+    return state
+  }
+
+  // 与节点同步：pending交易数以下的nonce已被节点接收，不再跟踪
+  private async sync(provider: ethers.Provider, address: string, state: AddressNonceState): Promise<void> {
+    const pendingCount = await provider.getTransactionCount(address, 'pending')
+
+    for (const nonce of state.inFlight.keys()) {
+      if (nonce < pendingCount) state.inFlight.delete(nonce)
+    }
+
+    if (state.next !== null && state.next !== pendingCount) {
+      console.log(`🔢 nonce重新同步 ${address}: 本地 ${state.next} -> 节点 ${pendingCount}`)
+    }
+
+    state.next = pendingCount
+    state.syncedAt = Date.now()
+  }
+
+  // 分配下一个nonce（跳过仍在途的nonce）
+  async reserve(provider: ethers.Provider, address: string): Promise<number> {
+    const state = this.getState(address)
+
+    const reservation = state.lock.then(async () => {
+      if (state.next === null || Date.now() - state.syncedAt > RESYNC_INTERVAL) {
+        await this.sync(provider, address, state)
+      }
+
+      let nonce = state.next!
+      while (state.inFlight.has(nonce)) nonce++
+
+      state.inFlight.set(nonce, '')
+      state.next = nonce + 1
+      return nonce
+    })
+
+    state.lock = reservation.then(() => undefined, () => undefined)
+    return reservation
+  }
+
+  // 查看下一个将分配的nonce但不占用（预签名交易按此签名，广播前需再次确认未被分配）
+  async peek(provider: ethers.Provider, address: string): Promise<number> {
+    const state = this.getState(address)
+
+    const lookup = state.lock.then(async () => {
+      if (state.next === null || Date.now() - state.syncedAt > RESYNC_INTERVAL) {
+        await this.sync(provider, address, state)
+      }
+
+      let nonce = state.next!
+      while (state.inFlight.has(nonce)) nonce++
+      return nonce
+    })
+
+    state.lock = lookup.then(() => undefined, () => undefined)
+    return lookup
+  }
+
+  // 记录已广播的交易
+  markSent(address: string, nonce: number, hash: string): void {
+    this.getState(address).inFlight.set(nonce, hash)
+  }
+
+  // 交易已确认，不再跟踪
+  markConfirmed(address: string, nonce: number): void {
+    this.getState(address).inFlight.delete(nonce)
+  }
+
+  // 发送失败时归还nonce；归还的不是最后一个nonce时会留下空缺，下次分配前重新同步
+  release(address: string, nonce: number, error?: unknown): void {
+    const state = this.getState(address)
+    state.inFlight.delete(nonce)
+
+    if (error !== undefined && isNonceError(error)) {
+      state.next = null
+    } else if (state.next === nonce + 1) {
+      state.next = nonce
+    } else {
+      state.next = null
+    }
+  }
+
+  // 本管理器之外的发送（预签名交易、替换交易）之后调用，下次分配前重新同步
+  invalidate(address: string): void {
+    this.getState(address).next = null
+  }
+
+  // 分配nonce并广播，广播失败时归还nonce
+  async send<T extends ethers.TransactionResponse>(
+    signer: ethers.Wallet,
+    broadcast: (nonce: number) => Promise<T>
+  ): Promise<T> {
+    if (!signer.provider) {
+      throw new Error('钱包未连接到网络')
+    }
+
+    const nonce = await this.reserve(signer.provider, signer.address)
+    try {
+      const response = await broadcast(nonce)
+      this.markSent(signer.address, nonce, response.hash)
+      return response
+    } catch (error) {
+      this.release(signer.address, nonce, error)
+      throw error
+    }
+  }
+}
+
+// 导出单例实例
+export const nonceManager = new NonceManager()
@@ -0,0 +1,139 @@
+// 平台适配层 - 浏览器使用localStorage和DOM，无头运行（Node）时由入口替换为对应实现
+
+// 键值存储适配器（接口与localStorage一致，另加keys用于遍历）
+export interface StorageAdapter {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+  keys(): string[]
+}
+
+// 全局错误类型
+export type GlobalErrorType = 'unhandledrejection' | 'error' | 'resource'
+
+// 平台适配器：全局错误捕获、用户提示和文件保存
+export interface PlatformAdapter {
+  onGlobalError(handler: (type: GlobalErrorType, error: unknown) => void): void
+  notify(message: string): void
+  getLocation(): string
+  saveFile(filename: string, content: string, mimeType: string): void
+}
+
+// 内存存储（无localStorage时的默认实现，进程退出后丢失）
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>()
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: key => {
+      items.delete(key)
+    },
+    keys: () => [...items.keys()]
+  }
+}
+
+const browserStorage: StorageAdapter = {
+  getItem: key => localStorage.getItem(key),
+  setItem: (key, value) => localStorage.setItem(key, value),
+  removeItem: key => localStorage.removeItem(key),
+  keys: () => Object.keys(localStorage)
+}
+
+const browserPlatform: PlatformAdapter = {
+  onGlobalError(handler) {
+    // 捕获未处理的Promise拒绝
+    window.addEventListener('unhandledrejection', (event) => {
+      console.error('未处理的Promise拒绝:', event.reason)
+      handler('unhandledrejection', event.reason)
+      event.preventDefault()
+    })
+
+    // 捕获全局错误
+    window.addEventListener('error', (event) => {
+      console.error('全局错误:', event.error)
+      handler('error', event.error)
+    })
+
+    // 捕获资源加载错误
+    window.addEventListener('error', (event) => {
+      if (event.target !== window) {
+        console.error('资源加载错误:', event.target)
+        handler('resource', new Error(`资源加载失败: ${(event.target as any).src || (event.target as any).href}`))
+      }
+    }, true)
+  },
+
+  notify(message) {
+    // 创建通知元素
+    const notification = document.createElement('div')
+    notification.className = `
+      fixed top-4 right-4 bg-red-500 text-white px-4 py-3 rounded-lg shadow-lg z-50
+      transform transition-transform duration-300 ease-in-out
+    `
+    notification.innerHTML = `
+      <div class="flex items-center gap-2">
+        <svg class="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path fill-rule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clip-rule="evenodd"></path>
+        </svg>
+        <span>${message}</span>
+        <button onclick="this.parentElement.parentElement.remove()" class="ml-2 text-white hover:text-gray-200">
+          <svg class="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+            <path fill-rule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clip-rule="evenodd"></path>
+          </svg>
+        </button>
+      </div>
+    `
+
+    document.body.appendChild(notification)
+
+    // 3秒后自动移除
+    setTimeout(() => {
+      if (notification.parentElement) {
+        notification.remove()
+      }
+    }, 3000)
+  },
+
+  getLocation() {
+    return window.location.href
+  },
+
+  saveFile(filename, content, mimeType) {
+    const blob = new Blob([content], { type: mimeType })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+}
+
+// 当前适配器：有localStorage时使用浏览器实现，否则使用内存存储
+let storageAdapter: StorageAdapter = typeof localStorage !== 'undefined' ? browserStorage : createMemoryStorage()
+let platformAdapter: PlatformAdapter = browserPlatform
+
+// 替换适配器（无头运行入口在加载其他模块前调用）
+export function configurePlatform(adapters: { storage?: StorageAdapter; platform?: PlatformAdapter }): void {
+  if (adapters.storage) storageAdapter = adapters.storage
+  if (adapters.platform) platformAdapter = adapters.platform
+}
+
+// 调用时才解析当前适配器，模块加载后替换适配器也能生效
+export const storage: StorageAdapter = {
+  getItem: key => storageAdapter.getItem(key),
+  setItem: (key, value) => storageAdapter.setItem(key, value),
+  removeItem: key => storageAdapter.removeItem(key),
+  keys: () => storageAdapter.keys()
+}
+
+export const platform: PlatformAdapter = {
+  onGlobalError: handler => platformAdapter.onGlobalError(handler),
+  notify: message => platformAdapter.notify(message),
+  getLocation: () => platformAdapter.getLocation(),
+  saveFile: (filename, content, mimeType) => platformAdapter.saveFile(filename, content, mimeType)
+}
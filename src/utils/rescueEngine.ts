@@ -0,0 +1,989 @@
+import { ethers } from 'ethers'
+import { blockchainService, BlockchainService, CustomGasConfig, PresignedSweep, RoutedTransferLeg, TokenBalance, TokenInfo, TransactionResult } from './blockchain'
+import { AkasaDAOService } from './akasdao'
+import { TOKEN_ADDRESSES, getTokenReferencePrice } from './tokens'
+import { findRoutingRule } from './routing'
+import { dryRun } from './dryRun'
+import { nonceManager } from './nonceManager'
+import type { WalletConfig, TransferRecord, RoutingRule } from '../store/useWalletStore'
+
+type GasStrategy = WalletConfig['gasStrategy']
+
+// 预签名阶梯：Gas价格档位（相对当前策略的倍数）和金额档位（最小转账金额的4^n倍）
+const LADDER_GAS_STEPS = [1, 1.5, 2, 3]
+const LADDER_AMOUNT_STEPS = 10
+const LADDER_AMOUNT_FACTOR = BigInt(4)
+// 阶梯超过该区块数未重新签名时按当前Gas价格刷新；阶梯交易上链前等待剩余余额转出的时间
+const LADDER_REFRESH_BLOCKS = 30
+const LADDER_REMAINDER_POLL_INTERVAL = 2000
+const LADDER_REMAINDER_TIMEOUT = 30000
+
+// 内存池防护：替换交易默认费用上限（Gwei）和结果等待时间
+export const DEFAULT_MAX_REPLACEMENT_FEE_GWEI = 500
+const REPLACEMENT_POLL_INTERVAL = 2000
+const REPLACEMENT_TIMEOUT = 60000
+const ERC20_TRANSFER = new ethers.Interface(['function transfer(address to, uint256 amount) returns (bool)'])
+
+// 抢救引擎事件
+export type RescueEngineEvent =
+  | { type: 'started'; address: string }
+  | { type: 'stopped' }
+  | { type: 'balance'; blockNumber: number; address: string; balance: string; tokenInfo?: TokenInfo }
+  | { type: 'daiBalance'; blockNumber: number; balance: string }
+  | { type: 'sweep'; blockNumber: number; record: TransferRecord }
+  | { type: 'skipped'; blockNumber: number; reason: string }
+  | { type: 'ladder'; blockNumber: number; nonce: number; size: number }
+  | {
+      type: 'replacement'
+      status: 'sent' | 'failed' | 'won' | 'lost'
+      nonce: number
+      attackerHash: string
+      hash?: string
+      message?: string
+    }
+  | { type: 'error'; blockNumber?: number; message: string }
+
+export type RescueEngineListener = (event: RescueEngineEvent) => void
+
+export interface RescueEngineOptions {
+  config: WalletConfig
+  privateKey: string
+  akasdaoService?: AkasaDAOService | null
+  sponsorPrivateKey?: string | null // Gas赞助钱包私钥，钱包没有MATIC时为代币转账补足Gas
+  sharedPolling?: boolean // provider由多个引擎共享时轮询间隔由调用方统一设置，引擎不修改
+}
+
+// 按配置的检查间隔得到区块轮询间隔（毫秒）
+export function getPollingInterval(config: WalletConfig): number {
+  return config.rescueMode
+    ? Math.max(50, config.rescueInterval)
+    : Math.max(100, (config.checkInterval || 0.5) * 1000)
+}
+
+// 根据配置解析Gas策略（抢救模式强制使用自定义倍数+疯狂模式）
+export function resolveGasPolicy(config: WalletConfig): {
+  gasStrategy: GasStrategy
+  customGasConfig?: CustomGasConfig
+} {
+  if (config.rescueMode) {
+    return {
+      gasStrategy: 'custom',
+      customGasConfig: {
+        gasMultiplier: config.rescueGasMultiplier,
+        crazyMode: true
+      }
+    }
+  }
+
+  if (config.gasStrategy === 'custom') {
+    return {
+      gasStrategy: 'custom',
+      customGasConfig: {
+        gasMultiplier: config.gasMultiplier || 1,
+        crazyMode: config.crazyMode || false
+      }
+    }
+  }
+
+  return { gasStrategy: config.gasStrategy }
+}
+
+// 由交易结果得到记录状态，模拟运行时附带预计Gas费用，已广播时附带nonce和费用（用于加速或取消）
+function recordOutcome(
+  result: TransactionResult
+): Pick<
+  TransferRecord,
+  'status' | 'projectedGasCost' | 'nonce' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasUsed' | 'effectiveGasPrice'
+> {
+  if (result.simulated) {
+    return { status: 'simulated', projectedGasCost: ethers.formatEther(result.projectedGasCost ?? BigInt(0)) }
+  }
+  if (!result.success) {
+    return { status: 'failed' }
+  }
+  return {
+    status: 'pending',
+    nonce: result.nonce,
+    gasPrice: result.gasPrice?.toString(),
+    maxFeePerGas: result.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: result.maxPriorityFeePerGas?.toString(),
+    // 已等待确认的交易带有回执中的Gas用量和实际价格，其余由交易跟踪补充
+    gasUsed: result.gasUsed?.toString(),
+    effectiveGasPrice: result.effectiveGasPrice?.toString()
+  }
+}
+
+// 抢救引擎 - 订阅新区块，检查余额并决定是否转移资金
+export class RescueEngine {
+  private listeners = new Set<RescueEngineListener>()
+  private options: RescueEngineOptions | null = null
+  private address: string | null = null
+  private running = false
+  private isSweeping = false
+  private lastBlockNumber = 0
+  private previousPollingInterval: number | null = null
+  private ladder: PresignedSweep[] = []
+  // 当前阶梯签名时的nonce和转账配置，均未变化且未过期时不重新签名
+  private ladderKey: string | null = null
+  private ladderBlock = 0
+  // 多资产模式下尚未上链的代币转账（代币地址小写 -> 交易哈希）
+  private pendingTokenSweeps = new Map<string, string>()
+  // permit不可用的代币（地址小写），后续直接使用赞助钱包补足Gas
+  private permitUnusable = new Set<string>()
+  // 内存池防护：本引擎发出的交易、已处理的攻击交易，以及处理区块期间暂缓判断的交易
+  private stopMempoolWatch: (() => void) | null = null
+  private ownTransactions = new Set<string>()
+  private handledPending = new Set<string>()
+  private deferredPending: ethers.TransactionResponse[] = []
+  // 模拟运行：各资产上次模拟时的余额，余额不变时不重复模拟
+  private simulatedBalances = new Map<string, string>()
+
+  constructor(private readonly service: BlockchainService = blockchainService) {}
+
+  private readonly handleBlock = (blockNumber: number) => {
+    this.processBlock(blockNumber).catch(error => {
+      console.error('抢救引擎处理区块失败:', error)
+    })
+  }
+
+  // 订阅引擎事件，返回取消订阅函数
+  subscribe(listener: RescueEngineListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  getAddress(): string | null {
+    return this.address
+  }
+
+  // 启动引擎
+  async start(options: RescueEngineOptions): Promise<string> {
+    if (this.running) {
+      this.stop()
+    }
+
+    const address = await this.service.initializeWallet(options.privateKey)
+
+    if (options.config.akasdaoEnabled && options.akasdaoService) {
+      await options.akasdaoService.initializeWallet(options.privateKey)
+    }
+
+    this.options = options
+    this.address = address
+    this.running = true
+    this.isSweeping = false
+    this.lastBlockNumber = 0
+    this.ladder = []
+    this.ladderKey = null
+    this.pendingTokenSweeps.clear()
+    this.permitUnusable.clear()
+    this.ownTransactions.clear()
+    this.handledPending.clear()
+    this.deferredPending = []
+    this.simulatedBalances.clear()
+
+    // 按配置的检查间隔轮询新区块
+    const provider = this.service.getProvider()
+    if (!options.sharedPolling) {
+      this.previousPollingInterval = provider.pollingInterval
+      provider.pollingInterval = getPollingInterval(options.config)
+    }
+    await provider.on('block', this.handleBlock)
+
+    if (options.config.mempoolGuard) {
+      try {
+        this.stopMempoolWatch = await this.service.startWebSocketMonitor(address, null, tx => {
+          this.handlePendingTransaction(tx)
+        })
+      } catch (error) {
+        this.emit({
+          type: 'error',
+          message: `内存池监控启动失败: ${error instanceof Error ? error.message : '未知错误'}`
+        })
+      }
+    }
+
+    this.emit({ type: 'started', address })
+    return address
+  }
+
+  // 停止引擎
+  stop(): void {
+    if (!this.running) return
+
+    const provider = this.service.getProvider()
+    provider.off('block', this.handleBlock)
+    this.stopMempoolWatch?.()
+    this.stopMempoolWatch = null
+    const previousPollingInterval = this.previousPollingInterval
+    this.previousPollingInterval = null
+    if (previousPollingInterval !== null) {
+      // 多钱包共享provider时，仍有其他引擎监听区块则保留当前轮询间隔
+      provider.listenerCount('block').then(count => {
+        if (count === 0) provider.pollingInterval = previousPollingInterval
+      }).catch(() => {})
+    }
+
+    this.running = false
+    this.options = null
+    this.ladder = []
+    this.ladderKey = null
+    this.pendingTokenSweeps.clear()
+    this.deferredPending = []
+    this.emit({ type: 'stopped' })
+  }
+
+  private emit(event: RescueEngineEvent): void {
+    if (event.type === 'sweep' && event.record.txHash) {
+      this.ownTransactions.add(event.record.txHash.toLowerCase())
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('抢救引擎事件处理失败:', error)
+      }
+    }
+  }
+
+  // 处理新区块
+  private async processBlock(blockNumber: number): Promise<void> {
+    if (!this.running || !this.options || !this.address) return
+    if (blockNumber <= this.lastBlockNumber) return
+
+    // 上一次转账仍在进行中，跳过该区块
+    if (this.isSweeping) return
+
+    this.lastBlockNumber = blockNumber
+    this.isSweeping = true
+
+    try {
+      await this.checkAndSweep(blockNumber, this.options, this.address)
+    } catch (error) {
+      this.emit({
+        type: 'error',
+        blockNumber,
+        message: error instanceof Error ? error.message : '未知错误'
+      })
+    } finally {
+      this.isSweeping = false
+      this.flushDeferredPending()
+    }
+  }
+
+  // 处理钱包发出的待处理交易：不是本引擎发出的即视为攻击者转出
+  private handlePendingTransaction(tx: ethers.TransactionResponse): void {
+    if (!this.running || !this.options) return
+
+    const hash = tx.hash.toLowerCase()
+    if (this.handledPending.has(hash) || this.ownTransactions.has(hash)) return
+
+    // 本引擎正在发送交易时无法区分，等区块处理结束后再判断
+    if (this.isSweeping) {
+      this.deferredPending.push(tx)
+      return
+    }
+
+    if (this.isOwnTransaction(tx, this.options.config)) return
+
+    this.handledPending.add(hash)
+    this.replaceAttackerTransaction(tx, this.options.config).catch(error => {
+      console.error('替换攻击交易失败:', error)
+    })
+  }
+
+  private flushDeferredPending(): void {
+    const deferred = this.deferredPending
+    this.deferredPending = []
+    deferred.forEach(tx => this.handlePendingTransaction(tx))
+  }
+
+  // 发往目标地址或分账目的地址的交易（含代币转账）都是我们自己的
+  private isOwnTransaction(tx: ethers.TransactionResponse, config: WalletConfig): boolean {
+    const destinations = new Set([config.targetAddress.toLowerCase()])
+    if (config.routingEnabled) {
+      for (const rule of config.routingRules || []) {
+        rule.destinations.forEach(destination => destinations.add(destination.address.toLowerCase()))
+        destinations.add(rule.dustAddress.toLowerCase())
+      }
+    }
+
+    if (tx.to && destinations.has(tx.to.toLowerCase())) return true
+
+    try {
+      const parsed = ERC20_TRANSFER.parseTransaction({ data: tx.data })
+      return parsed?.name === 'transfer' && destinations.has(String(parsed.args[0]).toLowerCase())
+    } catch {
+      return false
+    }
+  }
+
+  // 以相同nonce发送更高费用的替换交易，并等待判断胜负
+  private async replaceAttackerTransaction(tx: ethers.TransactionResponse, config: WalletConfig): Promise<void> {
+    const tokenAddress = !config.multiAssetSweep && config.transferType === 'token' && config.tokenAddress
+      ? config.tokenAddress
+      : undefined
+
+    const result = await this.service.replacePendingTransaction(
+      tx,
+      config.targetAddress,
+      config.rescueGasMultiplier,
+      config.maxReplacementFeeGwei || DEFAULT_MAX_REPLACEMENT_FEE_GWEI,
+      tokenAddress
+    )
+
+    if (!result.success) {
+      this.emit({ type: 'replacement', status: 'failed', nonce: tx.nonce, attackerHash: tx.hash, message: result.error })
+      return
+    }
+
+    if (result.simulated) {
+      this.emit({
+        type: 'replacement',
+        status: 'sent',
+        nonce: tx.nonce,
+        attackerHash: tx.hash,
+        hash: result.hash,
+        message: `模拟运行，未广播，预计Gas ${ethers.formatEther(result.projectedGasCost ?? BigInt(0))} MATIC`
+      })
+      return
+    }
+
+    this.ownTransactions.add(result.hash.toLowerCase())
+    this.emit({ type: 'replacement', status: 'sent', nonce: tx.nonce, attackerHash: tx.hash, hash: result.hash })
+
+    const provider = this.service.getProvider()
+    const deadline = Date.now() + REPLACEMENT_TIMEOUT
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, REPLACEMENT_POLL_INTERVAL))
+
+      const [ours, theirs] = await Promise.all([
+        provider.getTransactionReceipt(result.hash).catch(() => null),
+        provider.getTransactionReceipt(tx.hash).catch(() => null)
+      ])
+
+      if (ours || theirs) {
+        this.emit({
+          type: 'replacement',
+          status: ours && ours.status === 1 ? 'won' : 'lost',
+          nonce: tx.nonce,
+          attackerHash: tx.hash,
+          hash: result.hash,
+          message: ours ? `区块 ${ours.blockNumber}` : `攻击交易已在区块 ${theirs?.blockNumber} 上链`
+        })
+        return
+      }
+    }
+
+    this.emit({
+      type: 'replacement',
+      status: 'lost',
+      nonce: tx.nonce,
+      attackerHash: tx.hash,
+      hash: result.hash,
+      message: `${REPLACEMENT_TIMEOUT / 1000}秒内未确认`
+    })
+  }
+
+  private async checkAndSweep(blockNumber: number, options: RescueEngineOptions, address: string): Promise<void> {
+    const { config } = options
+    // 多资产模式下余额事件始终报告原生MATIC余额
+    const tokenAddress = !config.multiAssetSweep && config.transferType === 'token' && config.tokenAddress
+      ? config.tokenAddress
+      : undefined
+
+    let balance: string
+    let tokenInfo: TokenInfo | undefined
+
+    if (tokenAddress) {
+      const tokenBalance = await this.service.getTokenBalance(tokenAddress, address)
+      balance = tokenBalance.formattedBalance
+      tokenInfo = tokenBalance.tokenInfo
+    } else {
+      balance = await this.service.getBalance(address)
+    }
+
+    this.emit({ type: 'balance', blockNumber, address, balance, tokenInfo })
+
+    if (!config.autoTransfer) return
+
+    if (config.akasdaoEnabled && options.akasdaoService) {
+      await this.sweepSilence(blockNumber, options, address)
+    }
+
+    if (!this.running) return
+
+    if (config.multiAssetSweep) {
+      await this.sweepAllAssets(blockNumber, config, address, balance)
+      return
+    }
+
+    const hasFunds = parseFloat(balance) >= parseFloat(config.minTransferAmount)
+    if (hasFunds && this.alreadySimulated(tokenAddress, balance)) return
+
+    if (config.presignedSweep && !tokenAddress) {
+      // 资金到账时直接广播预签名交易，超出金额档位的剩余余额在其上链后走普通转账流程
+      const broadcast = hasFunds ? await this.broadcastFromLadder(blockNumber, config, address, balance) : null
+      if (broadcast) {
+        if (!await this.waitForLadderRemainder(blockNumber, config, broadcast.hash, broadcast.remaining)) return
+      } else {
+        await this.refreshLadder(blockNumber, config, address)
+      }
+    }
+
+    if (!hasFunds) return
+
+    await this.sweepAsset(blockNumber, config, address, tokenAddress, tokenInfo)
+  }
+
+  // 多资产转移：按价值从高到低转移所有持有的代币，MATIC留作Gas最后转移
+  private async sweepAllAssets(
+    blockNumber: number,
+    config: WalletConfig,
+    address: string,
+    balance: string
+  ): Promise<void> {
+    await this.settlePendingTokenSweeps()
+
+    const holdings = await this.getTokenHoldings(config, address)
+
+    for (const holding of holdings) {
+      if (!this.running) return
+
+      const key = holding.address.toLowerCase()
+      if (this.pendingTokenSweeps.has(key)) continue
+      if (this.alreadySimulated(holding.address, holding.formattedBalance)) continue
+
+      const result = await this.sweepAsset(blockNumber, config, address, holding.address, holding.tokenInfo)
+      if (result?.success && !result.simulated) {
+        this.pendingTokenSweeps.set(key, result.hash)
+      }
+    }
+
+    if (this.pendingTokenSweeps.size > 0) {
+      this.emit({
+        type: 'skipped',
+        blockNumber,
+        reason: `${this.pendingTokenSweeps.size} 笔代币转账等待上链，暂缓转移MATIC（保留作为Gas）`
+      })
+      return
+    }
+
+    if (!this.running || parseFloat(balance) < parseFloat(config.minTransferAmount)) return
+    if (this.alreadySimulated(undefined, balance)) return
+
+    await this.sweepAsset(blockNumber, config, address)
+  }
+
+  // 模拟运行时记录本次模拟的余额，同一资产余额未变化时返回true（跳过重复模拟）
+  private alreadySimulated(tokenAddress: string | undefined, balance: string): boolean {
+    if (!dryRun.isEnabled()) return false
+
+    const key = (tokenAddress || 'native').toLowerCase()
+    if (this.simulatedBalances.get(key) === balance) return true
+
+    this.simulatedBalances.set(key, balance)
+    return false
+  }
+
+  // 获取监控列表中余额非零的代币，按参考价值从高到低排序
+  private async getTokenHoldings(config: WalletConfig, address: string): Promise<TokenBalance[]> {
+    const candidates = new Map<string, string>()
+    for (const tokenAddress of [...Object.values(TOKEN_ADDRESSES), ...(config.watchTokens || [])]) {
+      // 启用AkasaDAO时DAI交给Silence处理
+      if (config.akasdaoEnabled && tokenAddress.toLowerCase() === TOKEN_ADDRESSES.DAI.toLowerCase()) continue
+      candidates.set(tokenAddress.toLowerCase(), tokenAddress)
+    }
+
+    const results = await Promise.allSettled(
+      [...candidates.values()].map(tokenAddress => this.service.getTokenBalance(tokenAddress, address))
+    )
+
+    const holdings: TokenBalance[] = []
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        if (BigInt(result.value.balance) > BigInt(0)) holdings.push(result.value)
+      } else {
+        console.warn(`获取代币余额失败 ${[...candidates.values()][index]}:`, result.reason)
+      }
+    })
+
+    const valueOf = (holding: TokenBalance) =>
+      parseFloat(holding.formattedBalance) * getTokenReferencePrice(holding.address)
+
+    return holdings.sort((a, b) => valueOf(b) - valueOf(a))
+  }
+
+  // 清理已上链（成功或失败）的代币转账，失败的会在下一个区块重试
+  private async settlePendingTokenSweeps(): Promise<void> {
+    const provider = this.service.getProvider()
+
+    await Promise.all([...this.pendingTokenSweeps.entries()].map(async ([key, hash]) => {
+      try {
+        const receipt = await provider.getTransactionReceipt(hash)
+        if (receipt) {
+          this.pendingTokenSweeps.delete(key)
+        }
+      } catch (error) {
+        console.warn(`查询代币转账回执失败 ${hash}:`, error)
+      }
+    }))
+  }
+
+  // nonce或转账配置变化、或阶梯过期时重新签署转账阶梯，避免每个区块都通过限速的RPC重新估算和签名
+  private async refreshLadder(blockNumber: number, config: WalletConfig, address: string): Promise<void> {
+    const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+    const minAmount = ethers.parseEther(config.minTransferAmount)
+
+    try {
+      // 通过共享nonce管理器读取，已分配给其他交易（包括尚未广播的）的nonce不会用于签名
+      const nonce = await nonceManager.peek(this.service.getProvider(), address)
+      const key = `${nonce}:${config.targetAddress}:${config.minTransferAmount}`
+      if (key === this.ladderKey && blockNumber - this.ladderBlock < LADDER_REFRESH_BLOCKS) return
+
+      const amounts: bigint[] = []
+      for (let i = 0, amount = minAmount; i < LADDER_AMOUNT_STEPS; i++, amount *= LADDER_AMOUNT_FACTOR) {
+        amounts.push(amount)
+      }
+
+      this.ladder = await this.service.buildSweepLadder(
+        config.targetAddress,
+        amounts,
+        LADDER_GAS_STEPS,
+        gasStrategy,
+        customGasConfig,
+        nonce
+      )
+      this.ladderKey = key
+      this.ladderBlock = blockNumber
+      if (this.ladder.length > 0) {
+        this.emit({ type: 'ladder', blockNumber, nonce: this.ladder[0].nonce, size: this.ladder.length })
+      }
+    } catch (error) {
+      this.ladder = []
+      this.ladderKey = null
+      this.emit({
+        type: 'error',
+        blockNumber,
+        message: `预签名阶梯刷新失败: ${error instanceof Error ? error.message : '未知错误'}`
+      })
+    }
+  }
+
+  // 选择余额能覆盖的最高Gas档位中金额最大的预签名交易并广播，返回交易哈希和未转出的余额
+  private async broadcastFromLadder(
+    blockNumber: number,
+    config: WalletConfig,
+    address: string,
+    balance: string
+  ): Promise<{ hash: string; remaining: bigint } | null> {
+    const balanceWei = ethers.parseEther(balance)
+    const best = this.ladder
+      .filter(entry => entry.amount + entry.totalCost <= balanceWei)
+      .sort((a, b) => (a.gasPrice === b.gasPrice
+        ? Number(b.amount - a.amount)
+        : Number(b.gasPrice - a.gasPrice)))[0]
+
+    if (!best) return null
+
+    // 阶梯签名后nonce已分配给其他交易时阶梯作废，退回普通转账流程并在下个区块重新签名
+    if (await nonceManager.peek(this.service.getProvider(), address) !== best.nonce) {
+      this.ladder = []
+      this.ladderKey = null
+      this.emit({ type: 'skipped', blockNumber, reason: `预签名阶梯的nonce ${best.nonce} 已被占用` })
+      return null
+    }
+
+    const result = await this.service.broadcastSignedTransaction(best.rawTransaction, '预签名转账')
+    this.ladder = []
+    this.ladderKey = null
+
+    if (!result.success) {
+      // 预签名交易失效（如nonce已被占用），退回普通转账流程
+      this.emit({ type: 'skipped', blockNumber, reason: `预签名交易广播失败: ${result.error}` })
+      return null
+    }
+
+    this.emit({
+      type: 'sweep',
+      blockNumber,
+      record: {
+        id: Date.now().toString(),
+        fromAddress: address,
+        toAddress: config.targetAddress,
+        targetAddress: config.targetAddress,
+        amount: ethers.formatEther(best.amount),
+        tokenSymbol: 'MATIC',
+        txHash: result.hash,
+        ...recordOutcome(result),
+        timestamp: new Date(),
+        type: 'auto',
+        error: null
+      }
+    })
+
+    // 模拟运行时交易不会上链，不再处理剩余余额
+    const remaining = result.simulated ? BigInt(0) : balanceWei - best.amount - best.totalCost
+    return { hash: result.hash, remaining }
+  }
+
+  // 剩余余额达到最小转账金额时等待阶梯交易上链，之后由普通转账流程按最新余额转出
+  // 返回false表示无需或无法继续转出（超时未上链的交易留待下个区块处理）
+  private async waitForLadderRemainder(
+    blockNumber: number,
+    config: WalletConfig,
+    hash: string,
+    remaining: bigint
+  ): Promise<boolean> {
+    if (remaining < ethers.parseEther(config.minTransferAmount)) return false
+
+    const provider = this.service.getProvider()
+    const deadline = Date.now() + LADDER_REMAINDER_TIMEOUT
+
+    while (Date.now() < deadline && this.running) {
+      await new Promise(resolve => setTimeout(resolve, LADDER_REMAINDER_POLL_INTERVAL))
+
+      const receipt = await provider.getTransactionReceipt(hash).catch(() => null)
+      if (receipt) return receipt.status === 1 && this.running
+    }
+
+    if (this.running) {
+      this.emit({
+        type: 'skipped',
+        blockNumber,
+        reason: `预签名交易未在${LADDER_REMAINDER_TIMEOUT / 1000}秒内上链，剩余 ${ethers.formatEther(remaining)} MATIC 留待后续区块转出`
+      })
+    }
+    return false
+  }
+
+  // 转移原生MATIC或代币到目标地址
+  private async sweepAsset(
+    blockNumber: number,
+    config: WalletConfig,
+    address: string,
+    tokenAddress?: string,
+    tokenInfo?: TokenInfo
+  ): Promise<TransactionResult | null> {
+    const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+
+    const routingRule = findRoutingRule(config, tokenAddress)
+    if (routingRule) {
+      return this.sweepRouted(blockNumber, config, address, routingRule, tokenAddress, tokenInfo)
+    }
+
+    if (!tokenAddress && config.preciseSweep) {
+      return this.sweepNativePrecise(blockNumber, config, address)
+    }
+
+    const maxTransfer = await this.service.calculateMaxTransferAmount(
+      config.targetAddress,
+      tokenAddress ? 'token' : 'native',
+      tokenAddress,
+      gasStrategy,
+      customGasConfig
+    )
+
+    const sponsorPrivateKey = this.options?.sponsorPrivateKey
+    if (!maxTransfer.canTransfer && tokenAddress && sponsorPrivateKey && parseFloat(maxTransfer.availableBalance) > 0) {
+      return this.sweepTokenWithSponsor(blockNumber, config, address, tokenAddress, sponsorPrivateKey, tokenInfo)
+    }
+
+    if (!maxTransfer.canTransfer) {
+      this.emit({
+        type: 'skipped',
+        blockNumber,
+        reason: `${tokenInfo?.symbol || 'MATIC'} 余额 ${maxTransfer.availableBalance} 不足以支付转账和Gas费用`
+      })
+      return null
+    }
+
+    const result = tokenAddress
+      ? await this.service.sendTokenTransaction(tokenAddress, config.targetAddress, maxTransfer.maxAmount, gasStrategy, customGasConfig)
+      : await this.service.sendTransaction(config.targetAddress, maxTransfer.maxAmount, gasStrategy, customGasConfig)
+
+    this.emit({
+      type: 'sweep',
+      blockNumber,
+      record: {
+        id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+        fromAddress: address,
+        toAddress: config.targetAddress,
+        targetAddress: config.targetAddress,
+        amount: maxTransfer.maxAmount,
+        tokenSymbol: tokenInfo?.symbol || 'MATIC',
+        tokenAddress,
+        txHash: result.hash,
+        ...recordOutcome(result),
+        timestamp: new Date(),
+        type: 'auto',
+        error: result.error || null
+      }
+    })
+
+    return result
+  }
+
+  // 精确清零转移MATIC，补扫的记录关联到首笔转账
+  private async sweepNativePrecise(
+    blockNumber: number,
+    config: WalletConfig,
+    address: string
+  ): Promise<TransactionResult | null> {
+    const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+    const passes = await this.service.executePreciseNativeSweep(config.targetAddress, gasStrategy, customGasConfig)
+
+    if (passes.length === 0) {
+      this.emit({ type: 'skipped', blockNumber, reason: 'MATIC 余额不足以支付转账Gas费用' })
+      return null
+    }
+
+    let firstRecordId: string | undefined
+    for (const { amount, result } of passes) {
+      const id = Date.now().toString() + Math.random().toString(36).substr(2, 5)
+      this.emit({
+        type: 'sweep',
+        blockNumber,
+        record: {
+          id,
+          fromAddress: address,
+          toAddress: config.targetAddress,
+          targetAddress: config.targetAddress,
+          amount,
+          tokenSymbol: 'MATIC',
+          txHash: result.hash,
+          ...recordOutcome(result),
+          timestamp: new Date(),
+          type: 'auto',
+          linkedRecordId: firstRecordId,
+          error: result.error || null
+        }
+      })
+      firstRecordId = firstRecordId || id
+    }
+
+    return passes[passes.length - 1].result
+  }
+
+  // 按分账规则转移，每一笔生成一条记录，同组记录共用groupId
+  private async sweepRouted(
+    blockNumber: number,
+    config: WalletConfig,
+    address: string,
+    rule: RoutingRule,
+    tokenAddress?: string,
+    tokenInfo?: TokenInfo
+  ): Promise<TransactionResult | null> {
+    const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+    const groupId = Date.now().toString() + Math.random().toString(36).substr(2, 5)
+
+    let legs: RoutedTransferLeg[]
+    try {
+      legs = await this.service.executeRoutedTransfer(
+        rule,
+        tokenAddress ? 'token' : 'native',
+        tokenAddress,
+        gasStrategy,
+        customGasConfig
+      )
+    } catch (error) {
+      this.emit({
+        type: 'skipped',
+        blockNumber,
+        reason: `分账转账未执行: ${error instanceof Error ? error.message : '未知错误'}`
+      })
+      return null
+    }
+
+    legs.forEach((leg, index) => {
+      this.emit({
+        type: 'sweep',
+        blockNumber,
+        record: {
+          id: `${groupId}-${index}`,
+          fromAddress: address,
+          toAddress: leg.to,
+          targetAddress: leg.to,
+          amount: leg.amount,
+          tokenSymbol: tokenInfo?.symbol || 'MATIC',
+          tokenAddress,
+          txHash: leg.result.hash,
+          ...recordOutcome(leg.result),
+          timestamp: new Date(),
+          type: 'auto',
+          groupId,
+          error: leg.result.error || null
+        }
+      })
+    })
+
+    return legs.find(leg => leg.result.success)?.result || legs[0]?.result || null
+  }
+
+  // 由赞助钱包补足Gas后转移代币，赞助和转账生成一对关联记录
+  private async sweepTokenWithSponsor(
+    blockNumber: number,
+    config: WalletConfig,
+    address: string,
+    tokenAddress: string,
+    sponsorPrivateKey: string,
+    tokenInfo?: TokenInfo
+  ): Promise<TransactionResult | null> {
+    const { gasStrategy, customGasConfig } = resolveGasPolicy(config)
+
+    // 代币支持permit时无需向被盗钱包转入MATIC（转入的Gas可能被攻击者抢先转走）
+    const tokenKey = tokenAddress.toLowerCase()
+    const permit = this.permitUnusable.has(tokenKey)
+      ? null
+      : await this.service.permitTokenSweep(
+        sponsorPrivateKey,
+        tokenAddress,
+        config.targetAddress,
+        gasStrategy,
+        customGasConfig
+      )
+    if (!permit) {
+      this.permitUnusable.add(tokenKey)
+    } else {
+      const permitError = permit.permit.error || permit.sweep.error
+      this.emit({
+        type: 'sweep',
+        blockNumber,
+        record: {
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+          fromAddress: address,
+          toAddress: config.targetAddress,
+          targetAddress: config.targetAddress,
+          amount: permit.amount,
+          tokenSymbol: tokenInfo?.symbol,
+          tokenAddress,
+          txHash: permit.sweep.hash,
+          ...recordOutcome(permit.sweep),
+          // 交易由赞助钱包发出，nonce不属于fromAddress，不支持加速或取消
+          nonce: undefined,
+          timestamp: new Date(),
+          type: 'permit',
+          error: permitError || null
+        }
+      })
+      return permit.sweep
+    }
+
+    const result = await this.service.sponsoredTokenSweep(
+      sponsorPrivateKey,
+      tokenAddress,
+      config.targetAddress,
+      gasStrategy,
+      customGasConfig
+    )
+
+    const sweepId = Date.now().toString() + Math.random().toString(36).substr(2, 5)
+    const fundingId = sweepId + '-sponsor'
+
+    if (result.funding) {
+      this.emit({
+        type: 'sweep',
+        blockNumber,
+        record: {
+          id: fundingId,
+          fromAddress: result.sponsorAddress,
+          toAddress: address,
+          amount: result.fundedAmount,
+          tokenSymbol: 'MATIC',
+          txHash: result.funding.hash,
+          ...recordOutcome(result.funding),
+          timestamp: new Date(),
+          type: 'sponsor',
+          linkedRecordId: sweepId,
+          error: result.funding.error || null
+        }
+      })
+    }
+
+    this.emit({
+      type: 'sweep',
+      blockNumber,
+      record: {
+        id: sweepId,
+        fromAddress: address,
+        toAddress: config.targetAddress,
+        targetAddress: config.targetAddress,
+        amount: result.amount,
+        tokenSymbol: tokenInfo?.symbol,
+        tokenAddress,
+        txHash: result.sweep.hash,
+        ...recordOutcome(result.sweep),
+        timestamp: new Date(),
+        type: 'auto',
+        linkedRecordId: result.funding ? fundingId : undefined,
+        error: result.sweep.error || null
+      }
+    })
+
+    return result.sweep
+  }
+
+  // 检查DAI余额并执行AkasaDAO Silence
+  private async sweepSilence(blockNumber: number, options: RescueEngineOptions, address: string): Promise<void> {
+    const { config, akasdaoService } = options
+    if (!akasdaoService) return
+
+    const daiBalance = await akasdaoService.getTokenBalance(TOKEN_ADDRESSES.DAI)
+    this.emit({ type: 'daiBalance', blockNumber, balance: daiBalance })
+
+    const minAmount = parseFloat(config.akasdaoMinAmount || '0')
+    if (parseFloat(daiBalance) <= 0 || parseFloat(daiBalance) < minAmount) return
+    if (this.alreadySimulated(TOKEN_ADDRESSES.DAI, daiBalance)) return
+
+    const record: TransferRecord = {
+      id: Date.now().toString(),
+      fromAddress: address,
+      toAddress: 'AkasaDAO Turbine',
+      amount: daiBalance,
+      tokenAddress: TOKEN_ADDRESSES.DAI,
+      tokenSymbol: 'DAI',
+      txHash: '',
+      status: 'pending',
+      timestamp: new Date(),
+      type: 'silence',
+      error: null
+    }
+
+    try {
+      const result = await akasdaoService.silence(daiBalance, {
+        gasLimit: config.gasLimit,
+        gasStrategy: config.gasStrategy,
+        gasMultiplier: config.gasMultiplier,
+        rescueMode: config.rescueMode,
+        rescueGasMultiplier: config.rescueGasMultiplier
+      })
+      this.emit({
+        type: 'sweep',
+        blockNumber,
+        record: {
+          ...record,
+          txHash: result.txHash,
+          status: result.simulated ? 'simulated' : 'pending',
+          projectedGasCost: result.projectedGasCost
+        }
+      })
+    } catch (error) {
+      this.emit({
+        type: 'sweep',
+        blockNumber,
+        record: { ...record, status: 'failed', error: error instanceof Error ? error.message : 'AkasaDAO Silence调用失败' }
+      })
+    }
+  }
+}
+
+// 导出单例实例 - 引擎生命周期独立于页面组件
+export const rescueEngine = new RescueEngine()
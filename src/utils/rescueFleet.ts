@@ -0,0 +1,166 @@
+import { blockchainService, BlockchainService } from './blockchain'
+import { RescueEngine, RescueEngineEvent, getPollingInterval } from './rescueEngine'
+import type { WalletConfig, FleetWallet } from '../store/useWalletStore'
+
+// 多钱包监控事件 - 在引擎事件上附加钱包id
+export type RescueFleetEvent = RescueEngineEvent & { walletId: string }
+
+export type RescueFleetListener = (event: RescueFleetEvent) => void
+
+export interface RescueFleetMember {
+  wallet: FleetWallet
+  privateKey: string
+}
+
+// 由全局配置和单个钱包的设置合成该钱包的引擎配置
+// 全局配置只继承与资金去向无关的项（Gas设置、检查间隔、确认深度和Gas上限），
+// 分账路由和额外代币列表不继承，转移和防护策略使用钱包自己的设置
+// AkasaDAO服务只绑定一个钱包，多钱包监控中不启用
+export function buildFleetWalletConfig(base: WalletConfig, wallet: FleetWallet): WalletConfig {
+  return {
+    privateKey: '',
+    targetAddress: wallet.targetAddress,
+    transferType: wallet.transferType,
+    tokenAddress: wallet.tokenAddress,
+    minTransferAmount: wallet.minTransferAmount,
+    gasStrategy: wallet.gasStrategy,
+    gasMultiplier: wallet.gasMultiplier,
+    gasLimit: base.gasLimit,
+    crazyMode: base.crazyMode,
+    checkInterval: base.checkInterval,
+    confirmationDepth: base.confirmationDepth,
+    rescueMode: wallet.rescueMode,
+    rescueInterval: base.rescueInterval,
+    rescueGasMultiplier: wallet.rescueGasMultiplier,
+    maxReplacementFeeGwei: base.maxReplacementFeeGwei,
+    maxGasPriceGwei: base.maxGasPriceGwei,
+    maxGasCostPercent: base.maxGasCostPercent,
+    dailyGasBudget: base.dailyGasBudget,
+    routingEnabled: false,
+    routingRules: [],
+    multiAssetSweep: wallet.multiAssetSweep || false,
+    watchTokens: [],
+    preciseSweep: wallet.preciseSweep || false,
+    presignedSweep: wallet.presignedSweep || false,
+    mempoolGuard: wallet.mempoolGuard || false,
+    isConfigured: true,
+    autoTransfer: true,
+    akasdaoEnabled: false,
+    akasdaoMinAmount: base.akasdaoMinAmount
+  }
+}
+
+// 多钱包监控 - 每个钱包一个抢救引擎，共享同一个provider和RPC优化器
+// 共享provider的轮询间隔由监控统一设置为各钱包间隔中的最小值，停止后恢复
+export class RescueFleet {
+  private engines = new Map<string, { engine: RescueEngine; unsubscribe: () => void; pollingInterval: number }>()
+  private listeners = new Set<RescueFleetListener>()
+  private previousPollingInterval: number | null = null
+
+  subscribe(listener: RescueFleetListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  isRunning(): boolean {
+    return this.engines.size > 0
+  }
+
+  getRunningWalletIds(): string[] {
+    return [...this.engines.keys()]
+  }
+
+  // 启动所有钱包的监控，返回启动失败的钱包及原因
+  async start(
+    members: RescueFleetMember[],
+    baseConfig: WalletConfig,
+    sponsorPrivateKey?: string | null
+  ): Promise<{ walletId: string; error: string }[]> {
+    // 重新启动时保留首次启动前的轮询间隔
+    const restoreInterval = this.previousPollingInterval
+    this.stop()
+
+    const failures: { walletId: string; error: string }[] = []
+    const configs = members.map(({ wallet }) => buildFleetWalletConfig(baseConfig, wallet))
+
+    if (members.length > 0) {
+      const provider = blockchainService.getProvider()
+      this.previousPollingInterval = restoreInterval ?? provider.pollingInterval
+      provider.pollingInterval = Math.min(...configs.map(getPollingInterval))
+    }
+
+    for (const [index, { wallet, privateKey }] of members.entries()) {
+      const engine = new RescueEngine(new BlockchainService(blockchainService.getProvider()))
+      const unsubscribe = engine.subscribe(event => this.emit({ ...event, walletId: wallet.id }))
+
+      try {
+        await engine.start({
+          config: configs[index],
+          privateKey,
+          sponsorPrivateKey,
+          sharedPolling: true
+        })
+        this.engines.set(wallet.id, { engine, unsubscribe, pollingInterval: getPollingInterval(configs[index]) })
+      } catch (error) {
+        unsubscribe()
+        failures.push({
+          walletId: wallet.id,
+          error: error instanceof Error ? error.message : '启动失败'
+        })
+      }
+    }
+
+    this.updatePollingInterval()
+    return failures
+  }
+
+  // 停止单个钱包的监控
+  stopWallet(walletId: string): void {
+    const entry = this.engines.get(walletId)
+    if (!entry) return
+
+    entry.engine.stop()
+    entry.unsubscribe()
+    this.engines.delete(walletId)
+    this.updatePollingInterval()
+  }
+
+  stop(): void {
+    for (const walletId of [...this.engines.keys()]) {
+      this.stopWallet(walletId)
+    }
+  }
+
+  // 轮询间隔取仍在运行的钱包中的最小值，全部停止后恢复启动前的间隔
+  private updatePollingInterval(): void {
+    if (this.previousPollingInterval === null) return
+
+    const provider = blockchainService.getProvider()
+    if (this.engines.size > 0) {
+      provider.pollingInterval = Math.min(...[...this.engines.values()].map(entry => entry.pollingInterval))
+      return
+    }
+
+    const previousPollingInterval = this.previousPollingInterval
+    this.previousPollingInterval = null
+    // 单钱包引擎仍在监听区块或监控已重新启动时保留当前轮询间隔
+    provider.listenerCount('block').then(count => {
+      if (count === 0 && this.previousPollingInterval === null) provider.pollingInterval = previousPollingInterval
+    }).catch(() => {})
+  }
+
+  private emit(event: RescueFleetEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('多钱包监控事件处理失败:', error)
+      }
+    }
+  }
+}
+
+// 导出单例实例
+export const rescueFleet = new RescueFleet()
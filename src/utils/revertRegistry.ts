@@ -0,0 +1,93 @@
+import { ethers } from 'ethers'
+import type { CustomErrorEntry, RevertContract } from '../store/useWalletStore'
+import { decodeRevertData, extractRevertData, describeRevertError, DecodedRevert } from './simulation'
+
+export const REVERT_CONTRACT_LABELS: Record<RevertContract, string> = {
+  turbine: 'Turbine',
+  demand: '活期质押',
+  asToken: 'AS Token',
+  sasToken: 'sAS Token',
+  all: '全部合约'
+}
+
+// AkasaDAO合约未在区块浏览器开源，内置片段为OpenZeppelin组件和代币转账的常见错误
+// Turbine和活期质押合约会拉取用户代币，代币错误也可能从这两个合约冒泡；其他错误由用户粘贴签名补充
+const COMMON_ERRORS = [
+  'error OwnableUnauthorizedAccount(address account)',
+  'error OwnableInvalidOwner(address owner)',
+  'error EnforcedPause()',
+  'error ExpectedPause()',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeERC20FailedOperation(address token)',
+  'error AddressInsufficientBalance(address account)',
+  'error FailedInnerCall()'
+]
+
+const TOKEN_ERRORS = [
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)'
+]
+
+const BUILTIN_ERRORS: Record<Exclude<RevertContract, 'all'>, string[]> = {
+  turbine: [...COMMON_ERRORS, ...TOKEN_ERRORS],
+  demand: [...COMMON_ERRORS, ...TOKEN_ERRORS],
+  asToken: [...COMMON_ERRORS, ...TOKEN_ERRORS],
+  sasToken: [...COMMON_ERRORS, ...TOKEN_ERRORS]
+}
+
+// 规范化用户粘贴的错误签名，支持 "error Foo(uint256 a)" 和 "Foo(uint256)" 两种写法
+export function normalizeErrorSignature(input: string): string {
+  const trimmed = input.trim().replace(/;$/, '')
+  const source = trimmed.startsWith('error ') ? trimmed : `error ${trimmed}`
+  try {
+    return ethers.ErrorFragment.from(source).format('full')
+  } catch (error) {
+    throw new Error(`无效的错误签名: ${input.trim()}`)
+  }
+}
+
+// 错误签名的4字节选择器
+export function getErrorSelector(signature: string): string {
+  return ethers.ErrorFragment.from(signature).selector
+}
+
+// 自定义错误注册表 - 内置片段加上用户补充的签名，用于解码AkasaDAO合约的回滚数据
+class RevertRegistry {
+  private getEntries: () => CustomErrorEntry[] = () => []
+
+  // 注册用户签名来源（由store在创建时注册）
+  setSource(source: () => CustomErrorEntry[]): void {
+    this.getEntries = source
+  }
+
+  getBuiltinFragments(contract: Exclude<RevertContract, 'all'>): string[] {
+    return BUILTIN_ERRORS[contract]
+  }
+
+  // 合约可用的全部错误片段，用户签名优先（选择器相同时覆盖内置片段）
+  getAbi(contract: Exclude<RevertContract, 'all'>): string[] {
+    const custom = this.getEntries()
+      .filter(entry => entry.contract === contract || entry.contract === 'all')
+      .map(entry => entry.signature)
+    const customSelectors = new Set(custom.map(getErrorSelector))
+    const builtin = BUILTIN_ERRORS[contract].filter(signature => !customSelectors.has(getErrorSelector(signature)))
+    return [...new Set([...custom, ...builtin])]
+  }
+
+  // 从交易错误中解码回滚原因，错误不含回滚数据时返回null
+  decode(error: unknown, contract: Exclude<RevertContract, 'all'>): DecodedRevert | null {
+    const data = extractRevertData(error)
+    return data === null ? null : decodeRevertData(data, this.getAbi(contract))
+  }
+
+  describe(error: unknown, contract: Exclude<RevertContract, 'all'>): string | null {
+    return describeRevertError(error, this.getAbi(contract))
+  }
+}
+
+// 导出单例实例
+export const revertRegistry = new RevertRegistry()
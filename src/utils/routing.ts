@@ -0,0 +1,84 @@
+import { ethers } from 'ethers'
+import type { WalletConfig, RoutingRule } from '../store/useWalletStore'
+
+// 分账中的一笔转账
+export interface RouteLeg {
+  to: string
+  amount: bigint
+  isDust: boolean
+}
+
+// 原生MATIC的路由资产标识
+export const NATIVE_ROUTING_ASSET = 'native'
+export const ANY_ROUTING_ASSET = '*'
+
+// 查找资产对应的路由规则：优先精确匹配，其次匹配所有资产的规则
+export function findRoutingRule(config: WalletConfig, tokenAddress?: string): RoutingRule | null {
+  if (!config.routingEnabled || !config.routingRules?.length) return null
+
+  const asset = tokenAddress ? tokenAddress.toLowerCase() : NATIVE_ROUTING_ASSET
+  return config.routingRules.find(rule => rule.asset.toLowerCase() === asset)
+    || config.routingRules.find(rule => rule.asset === ANY_ROUTING_ASSET)
+    || null
+}
+
+// 校验路由规则，返回错误信息，合法时返回null
+export function validateRoutingRule(rule: RoutingRule): string | null {
+  if (rule.destinations.length === 0) {
+    return '至少需要一个目的地址'
+  }
+
+  for (const destination of rule.destinations) {
+    if (!ethers.isAddress(destination.address)) {
+      return `无效的目的地址: ${destination.address}`
+    }
+    if (!(destination.percentage > 0)) {
+      return '分配比例必须大于0'
+    }
+    if (destination.minAmount && !(parseFloat(destination.minAmount) >= 0)) {
+      return `无效的最小金额: ${destination.minAmount}`
+    }
+  }
+
+  const total = rule.destinations.reduce((sum, destination) => sum + destination.percentage, 0)
+  if (Math.abs(total - 100) > 0.01) {
+    return `分配比例合计必须为100%，当前为${total}%`
+  }
+
+  if (!ethers.isAddress(rule.dustAddress)) {
+    return '请设置有效的零头接收地址'
+  }
+
+  return null
+}
+
+// 按规则拆分金额（比例精确到0.01%），零头和低于最小额的份额转到零头地址
+// 同一地址的多笔份额合并为一笔
+export function splitByRule(total: bigint, rule: RoutingRule, decimals: number): RouteLeg[] {
+  const legs: RouteLeg[] = []
+  const addLeg = (to: string, amount: bigint, isDust: boolean) => {
+    const existing = legs.find(leg => leg.to.toLowerCase() === to.toLowerCase())
+    if (existing) {
+      existing.amount += amount
+    } else {
+      legs.push({ to, amount, isDust })
+    }
+  }
+
+  let allocated = BigInt(0)
+  for (const destination of rule.destinations) {
+    const share = total * BigInt(Math.round(destination.percentage * 100)) / BigInt(10000)
+    const minAmount = destination.minAmount ? ethers.parseUnits(destination.minAmount, decimals) : BigInt(0)
+    if (share <= BigInt(0) || share < minAmount) continue
+
+    addLeg(destination.address, share, false)
+    allocated += share
+  }
+
+  const dust = total - allocated
+  if (dust > BigInt(0)) {
+    addLeg(rule.dustAddress, dust, true)
+  }
+
+  return legs
+}
@@ -14,12 +14,122 @@ interface RpcNode {
   lastUsed: number
 }
 
+// Multicall3（各EVM链同一地址），把多个只读调用合并为一次eth_call
+const MULTICALL3_ADDRESS = '0xCA11bdE05977B3631167028862be2A4173390ba0'
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getEthBalance(address addr) view returns (uint256 balance)'
+]
+const ERC20_READ_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function decimals() view returns (uint8)'
+]
+const NFT_READ_ABI = [
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)'
+]
+
+const MULTICALL_BATCH_WINDOW = 10 // 合并该时间窗口内的读取请求（毫秒）
+const MULTICALL_MAX_CALLS = 200 // 单次eth_call最多包含的调用数
+
+// 可批量读取的数据
+export type MulticallRead =
+  | { kind: 'nativeBalance'; address: string }
+  | { kind: 'balanceOf'; token: string; owner: string }
+  | { kind: 'allowance'; token: string; owner: string; spender: string }
+  | { kind: 'decimals'; token: string }
+  | { kind: 'ownerOf'; token: string; tokenId: string } // ERC-721
+  | { kind: 'erc1155Balance'; token: string; owner: string; tokenId: string }
+  | { kind: 'isApprovedForAll'; token: string; owner: string; operator: string } // ERC-721/ERC-1155
+
+// 读取结果：余额和授权额度为bigint，精度为number，NFT持有者为地址，全部授权为boolean，单个调用失败时为null
+export type MulticallValue = bigint | number | string | boolean | null
+
+interface PendingRead {
+  read: MulticallRead
+  resolve: (value: MulticallValue) => void
+  reject: (error: Error) => void
+}
+
+// 与单独请求共用的缓存键和缓存时间（余额不缓存，精度与代币信息一样缓存5分钟）
+function describeRead(read: MulticallRead): { operation: string; params: string[]; cacheTime: number } {
+  switch (read.kind) {
+    case 'nativeBalance':
+      return { operation: 'getBalance', params: [read.address], cacheTime: 0 }
+    case 'balanceOf':
+      return { operation: 'getTokenBalance', params: [read.token, read.owner], cacheTime: 0 }
+    case 'allowance':
+      return { operation: 'getAllowance', params: [read.token, read.owner, read.spender], cacheTime: 0 }
+    case 'decimals':
+      return { operation: 'getTokenDecimals', params: [read.token], cacheTime: 300000 }
+    case 'ownerOf':
+      return { operation: 'getNftOwner', params: [read.token, read.tokenId], cacheTime: 0 }
+    case 'erc1155Balance':
+      return { operation: 'getNftBalance', params: [read.token, read.owner, read.tokenId], cacheTime: 0 }
+    case 'isApprovedForAll':
+      return { operation: 'getApprovalForAll', params: [read.token, read.owner, read.operator], cacheTime: 0 }
+  }
+}
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI)
+const erc20Interface = new ethers.Interface(ERC20_READ_ABI)
+const nftInterface = new ethers.Interface(NFT_READ_ABI)
+
+function encodeRead(read: MulticallRead): { target: string; allowFailure: boolean; callData: string } {
+  switch (read.kind) {
+    case 'nativeBalance':
+      return { target: MULTICALL3_ADDRESS, allowFailure: true, callData: multicallInterface.encodeFunctionData('getEthBalance', [read.address]) }
+    case 'balanceOf':
+      return { target: read.token, allowFailure: true, callData: erc20Interface.encodeFunctionData('balanceOf', [read.owner]) }
+    case 'allowance':
+      return { target: read.token, allowFailure: true, callData: erc20Interface.encodeFunctionData('allowance', [read.owner, read.spender]) }
+    case 'decimals':
+      return { target: read.token, allowFailure: true, callData: erc20Interface.encodeFunctionData('decimals') }
+    case 'ownerOf':
+      return { target: read.token, allowFailure: true, callData: nftInterface.encodeFunctionData('ownerOf', [read.tokenId]) }
+    case 'erc1155Balance':
+      return { target: read.token, allowFailure: true, callData: nftInterface.encodeFunctionData('balanceOf', [read.owner, read.tokenId]) }
+    case 'isApprovedForAll':
+      return { target: read.token, allowFailure: true, callData: nftInterface.encodeFunctionData('isApprovedForAll', [read.owner, read.operator]) }
+  }
+}
+
+function decodeRead(read: MulticallRead, success: boolean, returnData: string): MulticallValue {
+  if (!success || returnData === '0x') return null
+
+  try {
+    switch (read.kind) {
+      case 'nativeBalance':
+        return multicallInterface.decodeFunctionResult('getEthBalance', returnData)[0] as bigint
+      case 'balanceOf':
+      case 'allowance':
+        return erc20Interface.decodeFunctionResult(read.kind, returnData)[0] as bigint
+      case 'decimals':
+        return Number(erc20Interface.decodeFunctionResult('decimals', returnData)[0])
+      case 'ownerOf':
+        return nftInterface.decodeFunctionResult('ownerOf', returnData)[0] as string
+      case 'erc1155Balance':
+        return nftInterface.decodeFunctionResult('balanceOf', returnData)[0] as bigint
+      case 'isApprovedForAll':
+        return nftInterface.decodeFunctionResult('isApprovedForAll', returnData)[0] as boolean
+    }
+  } catch (error) {
+    // 非ERC-20合约或返回数据格式错误
+    return null
+  }
+}
+
 export class RpcOptimizer {
   private nodes: RpcNode[] = []
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>()
   private requestQueue: Array<() => Promise<any>> = []
   private activeRequests = 0
   private healthCheckInterval: NodeJS.Timeout | null = null
+  // 等待合并的批量读取（按区块标签分组）
+  private pendingReads = new Map<string, PendingRead[]>()
+  private batchTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor() {
     this.initializeNodes()
@@ -196,6 +306,15 @@ export class RpcOptimizer {
             result = await tokenContract.balanceOf(params[1]) as T
             break
           }
+          case 'multicall': {
+            const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider)
+            const responses: ethers.Result[] = await multicall.aggregate3.staticCall(params[0], { blockTag: params[1] })
+            result = responses.map(response => ({
+              success: response.success as boolean,
+              returnData: response.returnData as string
+            })) as T
+            break
+          }
           default:
             throw new Error(`未知操作: ${operation}`)
         }
@@ -259,6 +378,102 @@ export class RpcOptimizer {
     }
   }
 
+  // 批量读取：同一时间窗口内（包括多个钱包、多个代币的并发查询）的读取合并为一次Multicall3调用
+  // 所有结果来自同一区块（blockTag），命中缓存的读取不再请求
+  async batchRead(reads: MulticallRead[], blockTag: ethers.BlockTag = 'latest'): Promise<MulticallValue[]> {
+    return Promise.all(reads.map(read => {
+      const { operation, params, cacheTime } = describeRead(read)
+      if (cacheTime > 0) {
+        const cached = this.getFromCache<MulticallValue>(this.getCacheKey(operation, params))
+        if (cached !== null) return cached
+
+        // 代币信息已缓存时直接使用其中的精度
+        const tokenInfo = read.kind === 'decimals'
+          ? this.getFromCache<{ decimals: number }>(this.getCacheKey('getTokenInfo', [read.token]))
+          : null
+        if (tokenInfo) return tokenInfo.decimals
+      }
+
+      return new Promise<MulticallValue>((resolve, reject) => {
+        const key = blockTag.toString()
+        const queue = this.pendingReads.get(key) || []
+        queue.push({ read, resolve, reject })
+        this.pendingReads.set(key, queue)
+
+        if (!this.batchTimer) {
+          this.batchTimer = setTimeout(() => this.flushReads(), MULTICALL_BATCH_WINDOW)
+        }
+      })
+    }))
+  }
+
+  private flushReads(): void {
+    this.batchTimer = null
+    const batches = [...this.pendingReads.entries()]
+    this.pendingReads.clear()
+
+    for (const [blockTag, queue] of batches) {
+      for (let i = 0; i < queue.length; i += MULTICALL_MAX_CALLS) {
+        this.executeReads(queue.slice(i, i + MULTICALL_MAX_CALLS), blockTag)
+      }
+    }
+  }
+
+  private async executeReads(queue: PendingRead[], blockTag: string): Promise<void> {
+    // 相同的读取只请求一次，参数无效（无法编码）的读取结果为null
+    const values = new Map<string, MulticallValue>()
+    const unique = new Map<string, { read: MulticallRead; call: ReturnType<typeof encodeRead> }>()
+    for (const { read } of queue) {
+      const { operation, params } = describeRead(read)
+      const key = this.getCacheKey(operation, params)
+      try {
+        unique.set(key, { read, call: encodeRead(read) })
+      } catch (error) {
+        values.set(key, null)
+      }
+    }
+    const keys = [...unique.keys()]
+    const reads = [...unique.values()].map(({ read }) => read)
+
+    try {
+      const tag = /^\d+$/.test(blockTag) ? Number(blockTag) : blockTag
+      const responses = reads.length > 0
+        ? await this.executeRequest<{ success: boolean; returnData: string }[]>(
+            'multicall',
+            [[...unique.values()].map(({ call }) => call), tag],
+            0
+          )
+        : []
+
+      reads.forEach((read, index) => {
+        const value = decodeRead(read, responses[index].success, responses[index].returnData)
+        const { cacheTime } = describeRead(read)
+        if (value !== null && cacheTime > 0) {
+          this.setCache(keys[index], value, cacheTime)
+        }
+        values.set(keys[index], value)
+      })
+
+      console.log(`📦 Multicall3合并读取 ${reads.length} 项（区块: ${blockTag}）`)
+      for (const { read, resolve } of queue) {
+        const { operation, params } = describeRead(read)
+        resolve(values.get(this.getCacheKey(operation, params)) ?? null)
+      }
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error))
+      queue.forEach(({ reject }) => reject(failure))
+    }
+  }
+
+  // 读取单项数据（与并发的其他读取合并），调用失败时抛出错误
+  private async readOne(read: MulticallRead, description: string): Promise<bigint> {
+    const [value] = await this.batchRead([read])
+    if (value === null) {
+      throw new Error(`${description}失败`)
+    }
+    return BigInt(value)
+  }
+
   // 健康检查
   private startHealthCheck(): void {
     this.healthCheckInterval = setInterval(() => {
@@ -306,7 +521,7 @@ export class RpcOptimizer {
     
     console.log(`🗑️ 清理了 ${keysToDelete.length} 个余额相关缓存`)
     
-    const balance = await this.executeRequest<bigint>('getBalance', [address], 0)
+    const balance = await this.readOne({ kind: 'nativeBalance', address }, '获取余额')
     return ethers.formatEther(balance)
   }
 
@@ -321,7 +536,10 @@ export class RpcOptimizer {
   async getTokenBalance(tokenAddress: string, address: string, cacheTime?: number): Promise<bigint> {
     // 清理旧的余额缓存，确保获取最新数据
     this.clearCacheForOperation('getTokenBalance')
-    return this.executeRequest<bigint>('getTokenBalance', [tokenAddress, address], cacheTime || 0)
+    if (cacheTime) {
+      return this.executeRequest<bigint>('getTokenBalance', [tokenAddress, address], cacheTime)
+    }
+    return this.readOne({ kind: 'balanceOf', token: tokenAddress, owner: address }, '获取代币余额')
   }
 
   // 获取节点状态
@@ -340,6 +558,14 @@ export class RpcOptimizer {
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval)
     }
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer)
+      this.batchTimer = null
+    }
+    for (const queue of this.pendingReads.values()) {
+      queue.forEach(({ reject }) => reject(new Error('RPC优化器已停止')))
+    }
+    this.pendingReads.clear()
     this.cache.clear()
   }
 }
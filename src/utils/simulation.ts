@@ -0,0 +1,270 @@
+import { ethers } from 'ethers'
+
+// 内置错误选择器：Error(string) 和 Panic(uint256)
+const ERROR_STRING_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// Solidity panic代码说明
+const PANIC_REASONS: Record<number, string> = {
+  0x00: '通用panic',
+  0x01: 'assert断言失败',
+  0x11: '算术运算溢出',
+  0x12: '除以零或对零取模',
+  0x21: '枚举类型转换越界',
+  0x22: '存储字节数组编码错误',
+  0x31: '对空数组执行pop',
+  0x32: '数组访问越界',
+  0x41: '内存分配过大',
+  0x51: '调用未初始化的内部函数'
+}
+
+// 常见代币合约的标准自定义错误（ERC-6093，OpenZeppelin 5.x）
+const STANDARD_ERROR_ABI = [
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+  'error ERC721InvalidOwner(address owner)',
+  'error ERC721NonexistentToken(uint256 tokenId)',
+  'error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)',
+  'error ERC721InvalidSender(address sender)',
+  'error ERC721InvalidReceiver(address receiver)',
+  'error ERC721InsufficientApproval(address operator, uint256 tokenId)',
+  'error ERC721InvalidOperator(address operator)',
+  'error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)',
+  'error ERC1155InvalidSender(address sender)',
+  'error ERC1155InvalidReceiver(address receiver)',
+  'error ERC1155MissingApprovalForAll(address operator, address owner)',
+  'error ERC1155InvalidOperator(address operator)',
+  'error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)',
+  'error ERC2612ExpiredSignature(uint256 deadline)',
+  'error ERC2612InvalidSigner(address signer, address owner)',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error EnforcedPause()',
+  'error ReentrancyGuardReentrantCall()',
+  'error SafeERC20FailedOperation(address token)'
+]
+
+// 解码后的回滚原因
+export interface DecodedRevert {
+  kind: 'error' | 'panic' | 'custom' | 'unknown'
+  name: string
+  args: string[]
+  reason: string // 可直接展示的说明
+  data: string
+}
+
+// eth_call状态覆盖（geth风格），数值字段使用bigint/number，发送时转换为十六进制
+export interface StateOverride {
+  balance?: bigint
+  nonce?: number
+  code?: string
+  stateDiff?: Record<string, string>
+}
+
+export interface SimulationOptions {
+  stateOverrides?: Record<string, StateOverride>
+  abi?: ethers.InterfaceAbi // 目标合约ABI，用于解码其自定义错误
+}
+
+export interface SimulationResult {
+  success: boolean
+  returnData?: string
+  revert?: DecodedRevert
+  error?: string // 未回滚但节点拒绝执行（如余额不足）
+  inconclusive?: boolean // 网络等原因无法完成模拟，不据此阻止广播
+  overridesApplied: boolean
+}
+
+// 不支持状态覆盖参数的节点，避免每次都先失败一次
+const overridesUnsupported = new WeakSet<ethers.JsonRpcProvider>()
+
+function formatErrorArg(value: unknown): string {
+  if (typeof value === 'bigint') return value.toString()
+  if (Array.isArray(value)) return `[${value.map(formatErrorArg).join(', ')}]`
+  return String(value)
+}
+
+// 按内置错误、标准错误和传入的合约ABI解码回滚数据
+export function decodeRevertData(data: string, abi?: ethers.InterfaceAbi): DecodedRevert {
+  if (!data || data === '0x') {
+    return { kind: 'unknown', name: '', args: [], reason: '合约回滚，未返回原因', data: '0x' }
+  }
+
+  const selector = ethers.dataSlice(data, 0, 4).toLowerCase()
+  const coder = ethers.AbiCoder.defaultAbiCoder()
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [message] = coder.decode(['string'], ethers.dataSlice(data, 4))
+      return { kind: 'error', name: 'Error', args: [message], reason: message, data }
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4))
+      const description = PANIC_REASONS[Number(code)] || '未知panic'
+      return {
+        kind: 'panic',
+        name: 'Panic',
+        args: [code.toString()],
+        reason: `Panic(0x${code.toString(16).padStart(2, '0')}): ${description}`,
+        data
+      }
+    }
+  } catch (error) {
+    console.warn('内置错误解码失败:', error)
+  }
+
+  const abis: ethers.InterfaceAbi[] = abi ? [abi, STANDARD_ERROR_ABI] : [STANDARD_ERROR_ABI]
+  for (const candidate of abis) {
+    try {
+      const parsed = new ethers.Interface(candidate).parseError(data)
+      if (parsed) {
+        const args = parsed.args.map(formatErrorArg)
+        const named = parsed.fragment.inputs.map((input, index) => input.name ? `${input.name}=${args[index]}` : args[index])
+        return { kind: 'custom', name: parsed.name, args, reason: `${parsed.name}(${named.join(', ')})`, data }
+      }
+    } catch (error) {
+      // 选择器匹配但参数无法解码，继续尝试其他ABI
+    }
+  }
+
+  return { kind: 'unknown', name: '', args: [], reason: `未知错误（选择器 ${selector}）`, data }
+}
+
+// 从ethers或节点返回的错误中提取回滚数据
+export function extractRevertData(error: unknown): string | null {
+  const candidates: unknown[] = []
+  let current: any = error
+  for (let depth = 0; current && depth < 5; depth++) {
+    candidates.push(current.data, current.info?.error?.data)
+    current = current.error || current.info?.error
+  }
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate)) return candidate
+    // 部分节点将回滚数据包装为 { data: '0x...' } 或 'Reverted 0x...'
+    if (candidate && typeof (candidate as any).data === 'string' && ethers.isHexString((candidate as any).data)) {
+      return (candidate as any).data
+    }
+    if (typeof candidate === 'string') {
+      const match = candidate.match(/0x[0-9a-fA-F]{8,}/)
+      if (match) return match[0]
+    }
+  }
+  return null
+}
+
+// 将交易失败错误描述为回滚原因，无法解码时返回null
+export function describeRevertError(error: unknown, abi?: ethers.InterfaceAbi): string | null {
+  const data = extractRevertData(error)
+  if (data !== null) return decodeRevertData(data, abi).reason
+  const reason = (error as any)?.reason
+  return typeof reason === 'string' && reason ? reason : null
+}
+
+function isCallException(error: unknown): boolean {
+  return ethers.isError(error, 'CALL_EXCEPTION') || extractRevertData(error) !== null
+}
+
+function isOverrideRejected(error: unknown): boolean {
+  const code = (error as any)?.error?.code ?? (error as any)?.info?.error?.code
+  const message = String((error as any)?.error?.message ?? (error as any)?.message ?? '').toLowerCase()
+  return code === -32602 || /override|too many arguments|invalid argument 2|unmarshal/.test(message)
+}
+
+function isNodeRejection(error: unknown): boolean {
+  return ethers.isError(error, 'INSUFFICIENT_FUNDS') ||
+    /insufficient funds|intrinsic gas|fee cap|nonce too/i.test(error instanceof Error ? error.message : String(error))
+}
+
+function encodeOverrides(overrides: Record<string, StateOverride>): Record<string, Record<string, unknown>> {
+  const encoded: Record<string, Record<string, unknown>> = {}
+  for (const [address, override] of Object.entries(overrides)) {
+    const entry: Record<string, unknown> = {}
+    if (override.balance !== undefined) entry.balance = ethers.toQuantity(override.balance)
+    if (override.nonce !== undefined) entry.nonce = ethers.toQuantity(override.nonce)
+    if (override.code !== undefined) entry.code = override.code
+    if (override.stateDiff !== undefined) entry.stateDiff = override.stateDiff
+    encoded[ethers.getAddress(address)] = entry
+  }
+  return encoded
+}
+
+// 在pending区块上用eth_call执行与广播完全相同的交易（from、to、value、data、gas和费用字段）
+// 节点不支持状态覆盖时去掉覆盖和费用字段重试，避免因模拟余额不足误判
+export async function simulateTransaction(
+  provider: ethers.JsonRpcProvider,
+  transaction: ethers.TransactionRequest & { from: string },
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const call = provider.getRpcTransaction(transaction)
+  const hasOverrides = !!options.stateOverrides && Object.keys(options.stateOverrides).length > 0
+  const useOverrides = hasOverrides && !overridesUnsupported.has(provider)
+
+  const run = async (params: unknown[], overridesApplied: boolean): Promise<SimulationResult> => {
+    try {
+      const returnData: string = await provider.send('eth_call', params)
+      return { success: true, returnData, overridesApplied }
+    } catch (error) {
+      if (overridesApplied && isOverrideRejected(error) && !isCallException(error)) {
+        overridesUnsupported.add(provider)
+        throw error
+      }
+      if (isCallException(error)) {
+        const revert = decodeRevertData(extractRevertData(error) || '0x', options.abi)
+        return { success: false, revert, overridesApplied }
+      }
+      if (isNodeRejection(error)) {
+        return { success: false, error: error instanceof Error ? error.message : String(error), overridesApplied }
+      }
+      console.warn('交易模拟未完成:', error)
+      return {
+        success: true,
+        inconclusive: true,
+        error: error instanceof Error ? error.message : String(error),
+        overridesApplied
+      }
+    }
+  }
+
+  if (useOverrides) {
+    try {
+      return await run([call, 'pending', encodeOverrides(options.stateOverrides!)], true)
+    } catch (error) {
+      console.warn('节点不支持eth_call状态覆盖，改为不带覆盖的模拟')
+    }
+  }
+
+  if (hasOverrides) {
+    const withoutFees = { ...call }
+    delete withoutFees.gasPrice
+    delete withoutFees.maxFeePerGas
+    delete withoutFees.maxPriorityFeePerGas
+    return run([withoutFees, 'pending'], false)
+  }
+
+  return run([call, 'pending'], false)
+}
+
+// 模拟交易，失败时抛出带有具体原因的错误以阻止广播
+export async function assertSimulationPasses(
+  provider: ethers.JsonRpcProvider,
+  transaction: ethers.TransactionRequest & { from: string },
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const result = await simulateTransaction(provider, transaction, options)
+
+  if (!result.success) {
+    const reason = result.revert ? result.revert.reason : result.error || '未知原因'
+    throw new Error(`交易模拟失败，已阻止广播: ${reason}`)
+  }
+
+  if (result.inconclusive) {
+    console.warn('⚠️ 交易模拟未完成，继续广播:', result.error)
+  }
+
+  return result
+}
@@ -41,6 +41,22 @@ export const TOKEN_INFO = {
   }
 }
 
+// 代币参考价格（美元，仅用于多资产转移时按价值排序，无需精确）
+export const TOKEN_REFERENCE_PRICES: Record<string, number> = {
+  [TOKEN_ADDRESSES.DAI]: 1,
+  [TOKEN_ADDRESSES.USDC]: 1,
+  [TOKEN_ADDRESSES.USDT]: 1,
+  [TOKEN_ADDRESSES.WETH]: 3000
+}
+
+// 获取代币参考价格（未知代币返回0）
+export const getTokenReferencePrice = (address: string) => {
+  const key = Object.keys(TOKEN_REFERENCE_PRICES).find(
+    tokenAddress => tokenAddress.toLowerCase() === address.toLowerCase()
+  )
+  return key ? TOKEN_REFERENCE_PRICES[key] : 0
+}
+
 // 获取代币信息
 export const getTokenInfo = (address: string) => {
   return TOKEN_INFO[address] || null
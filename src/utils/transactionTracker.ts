@@ -0,0 +1,307 @@
+import { ethers } from 'ethers'
+import type { TransferRecord, LogEntry } from '../store/useWalletStore'
+
+// 默认最终确认深度（区块数），Polygon历史上出现过数十个区块的重组
+export const DEFAULT_CONFIRMATION_DEPTH = 64
+
+const TRACK_INTERVAL = 5000
+const REPLACED_GRACE_PERIOD = 30000 // 交易消失且nonce已被使用超过该时间才判定为被替换（避免节点间同步延迟误判）
+const DROP_GRACE_PERIOD = 5 * 60 * 1000 // 节点中找不到交易且nonce未被使用超过该时间视为被丢弃
+const TRACKING_WINDOW = 24 * 60 * 60 * 1000 // 只跟踪最近24小时内发出的交易
+
+interface TrackerSource {
+  records: TransferRecord[]
+  confirmationDepth: number
+}
+
+// 交易状态变化：要写回记录的字段和可选的日志
+export interface TrackerUpdate {
+  recordId: string
+  updates: Partial<TransferRecord>
+  log?: Omit<LogEntry, 'id' | 'timestamp'>
+}
+
+export type TrackerListener = (update: TrackerUpdate) => void
+
+const TERMINAL_STAGES: TransferRecord['stage'][] = ['finalized', 'dropped', 'replaced']
+
+// 交易生命周期跟踪 - 后台轮询所有已广播的转账记录：
+// submitted（已广播）→ included（已打包）→ confirmed（N个确认）→ finalized（达到确认深度）
+// 同时识别被丢弃、被替换（相同nonce的其他交易上链）以及区块重组
+export class TransactionTracker {
+  private provider: ethers.Provider | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private isChecking = false
+  private listeners = new Set<TrackerListener>()
+  private getSource: () => TrackerSource = () => ({ records: [], confirmationDepth: DEFAULT_CONFIRMATION_DEPTH })
+  // 记录id -> 首次在节点中找不到交易的时间
+  private missingSince = new Map<string, number>()
+
+  // 注册记录来源（由store在创建时注册）
+  setSource(source: () => TrackerSource): void {
+    this.getSource = source
+  }
+
+  subscribe(listener: TrackerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start(provider: ethers.Provider): void {
+    this.stop()
+    this.provider = provider
+    this.timer = setInterval(() => {
+      this.check().catch(error => console.error('交易跟踪失败:', error))
+    }, TRACK_INTERVAL)
+    this.check().catch(error => console.error('交易跟踪失败:', error))
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.provider = null
+    this.missingSince.clear()
+  }
+
+  private isTracked(record: TransferRecord): boolean {
+    if (!record.txHash || record.status === 'simulated') return false
+    if (TERMINAL_STAGES.includes(record.stage)) return false
+    // 没有阶段信息的已完成记录（旧版本数据）不再跟踪
+    if (!record.stage && (record.status === 'confirmed' || record.status === 'failed')) return false
+    return Date.now() - new Date(record.timestamp).getTime() < TRACKING_WINDOW
+  }
+
+  // 检查所有需要跟踪的记录
+  async check(): Promise<void> {
+    const provider = this.provider
+    if (!provider || this.isChecking) return
+
+    const { records, confirmationDepth } = this.getSource()
+    const tracked = records.filter(record => this.isTracked(record))
+    if (tracked.length === 0) return
+
+    this.isChecking = true
+    try {
+      const currentBlock = await provider.getBlockNumber()
+      for (const record of tracked) {
+        try {
+          const update = await this.checkRecord(provider, record, currentBlock, Math.max(1, confirmationDepth))
+          if (update) {
+            this.listeners.forEach(listener => listener(update))
+          }
+        } catch (error) {
+          console.warn(`跟踪交易 ${record.txHash} 失败:`, error)
+        }
+      }
+    } finally {
+      this.isChecking = false
+    }
+  }
+
+  private async checkRecord(
+    provider: ethers.Provider,
+    record: TransferRecord,
+    currentBlock: number,
+    depth: number
+  ): Promise<TrackerUpdate | null> {
+    const receipt = await provider.getTransactionReceipt(record.txHash)
+
+    if (receipt) {
+      this.missingSince.delete(record.id)
+      const baseFeePerGas = await this.getBaseFee(provider, record, receipt)
+      return this.describeReceipt(record, receipt, currentBlock, depth, baseFeePerGas)
+    }
+
+    // 曾被打包但回执消失：所在区块已被重组移除，交易回到待打包状态
+    if (record.blockHash) {
+      return {
+        recordId: record.id,
+        updates: {
+          stage: 'submitted',
+          status: 'pending',
+          blockNumber: undefined,
+          blockHash: undefined,
+          confirmations: 0,
+          gasUsed: undefined,
+          effectiveGasPrice: undefined,
+          baseFeePerGas: undefined
+        },
+        log: {
+          level: 'warning',
+          category: 'transaction',
+          message: '区块重组：交易所在区块已被移除',
+          details: `交易哈希: ${record.txHash}, 原区块: ${record.blockNumber}`
+        }
+      }
+    }
+
+    // 仍在内存池中
+    const pending = await provider.getTransaction(record.txHash)
+    if (pending) {
+      this.missingSince.delete(record.id)
+      return record.stage === 'submitted' ? null : { recordId: record.id, updates: { stage: 'submitted' } }
+    }
+
+    const now = Date.now()
+    const missingSince = this.missingSince.get(record.id) ?? now
+    this.missingSince.set(record.id, missingSince)
+
+    // 节点中找不到交易：nonce已被其他交易使用则为被替换，否则超过宽限期视为被丢弃
+    if (record.nonce !== undefined && ethers.isAddress(record.fromAddress)) {
+      const minedCount = await provider.getTransactionCount(record.fromAddress, 'latest')
+      if (minedCount > record.nonce) {
+        // 自动加价前的交易抢先上链时，记录改为跟踪该交易
+        const escalatedReceipt = await this.findEscalatedReceipt(provider, record)
+        if (escalatedReceipt) {
+          this.missingSince.delete(record.id)
+          const baseFeePerGas = await this.getBaseFee(provider, record, escalatedReceipt)
+          const update = this.describeReceipt(
+            { ...record, txHash: escalatedReceipt.hash },
+            escalatedReceipt,
+            currentBlock,
+            depth,
+            baseFeePerGas
+          )
+          return update && { ...update, updates: { ...update.updates, txHash: escalatedReceipt.hash } }
+        }
+
+        if (now - missingSince < REPLACED_GRACE_PERIOD) return null
+        this.missingSince.delete(record.id)
+        return {
+          recordId: record.id,
+          updates: {
+            stage: 'replaced',
+            status: 'replaced',
+            error: record.replacedBy ? null : `nonce ${record.nonce} 已被其他交易使用`
+          },
+          log: {
+            level: 'warning',
+            category: 'transaction',
+            message: '交易已被替换',
+            details: `交易哈希: ${record.txHash}, nonce: ${record.nonce}${record.replacedBy ? `, 替换交易: ${record.replacedBy}` : ''}`
+          }
+        }
+      }
+    }
+
+    if (now - missingSince < DROP_GRACE_PERIOD) return null
+    this.missingSince.delete(record.id)
+    return {
+      recordId: record.id,
+      updates: {
+        stage: 'dropped',
+        status: 'failed',
+        error: '交易已被节点丢弃，未上链'
+      },
+      log: {
+        level: 'error',
+        category: 'transaction',
+        message: '交易已被丢弃',
+        details: `交易哈希: ${record.txHash}`
+      }
+    }
+  }
+
+  // 打包区块的基础费用，已记录且区块未变化时不再查询（非EIP-1559区块记为0）
+  private async getBaseFee(
+    provider: ethers.Provider,
+    record: TransferRecord,
+    receipt: ethers.TransactionReceipt
+  ): Promise<string | undefined> {
+    if (record.baseFeePerGas !== undefined && record.blockHash === receipt.blockHash) {
+      return record.baseFeePerGas
+    }
+    const block = await provider.getBlock(receipt.blockHash)
+    return block ? (block.baseFeePerGas ?? BigInt(0)).toString() : undefined
+  }
+
+  private async findEscalatedReceipt(
+    provider: ethers.Provider,
+    record: TransferRecord
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of record.escalatedFrom || []) {
+      const receipt = await provider.getTransactionReceipt(hash)
+      if (receipt) return receipt
+    }
+    return null
+  }
+
+  // 根据回执和当前区块计算阶段，没有变化时返回null
+  private describeReceipt(
+    record: TransferRecord,
+    receipt: ethers.TransactionReceipt,
+    currentBlock: number,
+    depth: number,
+    baseFeePerGas?: string
+  ): TrackerUpdate | null {
+    const confirmations = Math.max(1, currentBlock - receipt.blockNumber + 1)
+    const stage: TransferRecord['stage'] = confirmations >= depth
+      ? 'finalized'
+      : (confirmations > 1 ? 'confirmed' : 'included')
+    const reorged = !!record.blockHash && record.blockHash !== receipt.blockHash
+
+    if (
+      !reorged &&
+      record.stage === stage &&
+      record.confirmations === confirmations &&
+      record.baseFeePerGas === baseFeePerGas
+    ) {
+      return null
+    }
+
+    const succeeded = receipt.status === 1
+    const update: TrackerUpdate = {
+      recordId: record.id,
+      updates: {
+        stage,
+        confirmations,
+        status: succeeded ? 'confirmed' : 'failed',
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        gasUsed: receipt.gasUsed.toString(),
+        effectiveGasPrice: receipt.gasPrice.toString(),
+        baseFeePerGas,
+        error: succeeded ? null : '交易执行失败，已被回滚'
+      }
+    }
+
+    if (reorged) {
+      update.log = {
+        level: 'warning',
+        category: 'transaction',
+        message: '区块重组：交易已被重新打包',
+        details: `交易哈希: ${record.txHash}, 区块: ${record.blockNumber} -> ${receipt.blockNumber}`
+      }
+    } else if (!record.blockHash) {
+      update.log = succeeded
+        ? {
+            level: 'success',
+            category: 'transaction',
+            message: '交易已打包',
+            details: `交易哈希: ${record.txHash}, 区块: ${receipt.blockNumber}, Gas使用: ${receipt.gasUsed.toString()}`
+          }
+        : {
+            level: 'error',
+            category: 'transaction',
+            message: '交易执行失败',
+            details: `交易哈希: ${record.txHash}, 区块: ${receipt.blockNumber}`
+          }
+    } else if (stage === 'finalized') {
+      update.log = {
+        level: 'info',
+        category: 'transaction',
+        message: '交易已最终确认',
+        details: `交易哈希: ${record.txHash}, ${confirmations} 个确认`
+      }
+    }
+
+    return update
+  }
+}
+
+// 导出单例实例
+export const transactionTracker = new TransactionTracker()
@@ -3,7 +3,7 @@ import react from '@vitejs/plugin-react'
 import path from 'path'
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   server: {
     port: 5180,
@@ -14,7 +14,8 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: false,
     minify: 'terser',
-    rollupOptions: {
+    // 无头运行器（vite build --ssr）的依赖保持外部引用，不做分包
+    rollupOptions: isSsrBuild ? {} : {
       output: {
         manualChunks: {
           vendor: ['react', 'react-dom'],
@@ -35,4 +36,4 @@ export default defineConfig({
   optimizeDeps: {
     include: ['ethers']
   }
-})
\ No newline at end of file
+}))
\ No newline at end of file